@@ -0,0 +1,25 @@
+-- Rule Actions Migration
+-- Lets a matching rule do more than label: set status, rewrite the description,
+-- set the source and append a note
+
+-- ===============================
+-- TRANSACTION STATUS
+-- ===============================
+-- Rules can mark internal transfers as ignored
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'ignored';
+
+-- ===============================
+-- UPDATE RULES TABLE
+-- ===============================
+-- Array of action objects, e.g. [{"type": "set_status", "value": "approved"}]
+ALTER TABLE rules ADD COLUMN IF NOT EXISTS actions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- A rule may now consist of actions only
+ALTER TABLE rules ALTER COLUMN labels_to_apply SET DEFAULT '{}';
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. 'ignored' transaction status
+-- 2. actions column on rules
@@ -0,0 +1,23 @@
+-- Rule Stop Processing Migration
+-- Lets a rule end evaluation so lower-priority rules (higher order_index)
+-- don't also apply when it matches, and stores the label pairs the rule
+-- conflict analyzer treats as mutually exclusive
+
+-- ===============================
+-- UPDATE RULES TABLE
+-- ===============================
+ALTER TABLE rules ADD COLUMN IF NOT EXISTS stop_processing BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ===============================
+-- UPDATE USER_PREFERENCES TABLE
+-- ===============================
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS exclusive_label_pairs JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN user_preferences.exclusive_label_pairs IS 'Label id pairs that should never apply to the same transaction';
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. stop_processing column on rules
+-- 2. exclusive_label_pairs preference
@@ -0,0 +1,84 @@
+-- Rule Change Batches Migration
+-- Records retroactive rule runs over historical transactions so that
+-- a whole run can be undone in one step
+
+-- ===============================
+-- RULE_CHANGE_BATCHES TABLE
+-- ===============================
+CREATE TABLE IF NOT EXISTS rule_change_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rule_id UUID REFERENCES rules(id) ON DELETE SET NULL,
+    rule_name TEXT NOT NULL, -- kept so the batch stays readable after the rule is deleted
+    date_from DATE NOT NULL,
+    date_to DATE NOT NULL,
+    transactions_changed INTEGER NOT NULL DEFAULT 0,
+    labels_added INTEGER NOT NULL DEFAULT 0,
+    labels_removed INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    undone_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_change_batches_user_id ON rule_change_batches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rule_change_batches_rule_id ON rule_change_batches(rule_id);
+
+-- ===============================
+-- RULE_CHANGE_BATCH_ITEMS TABLE
+-- ===============================
+-- One row per label added to or removed from a transaction by a batch
+CREATE TABLE IF NOT EXISTS rule_change_batch_items (
+    batch_id UUID NOT NULL REFERENCES rule_change_batches(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    label_id UUID NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
+    change TEXT NOT NULL CHECK (change IN ('added', 'removed')),
+
+    PRIMARY KEY (batch_id, transaction_id, label_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_change_batch_items_transaction ON rule_change_batch_items(transaction_id);
+
+-- ===============================
+-- ROW LEVEL SECURITY
+-- ===============================
+ALTER TABLE rule_change_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rule_change_batch_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own batches
+CREATE POLICY "Users can view own rule change batches" ON rule_change_batches
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can only insert their own batches
+CREATE POLICY "Users can insert own rule change batches" ON rule_change_batches
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can only update their own batches (marking them undone)
+CREATE POLICY "Users can update own rule change batches" ON rule_change_batches
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can only see items of their own batches
+CREATE POLICY "Users can view own rule change batch items" ON rule_change_batch_items
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM rule_change_batches
+            WHERE rule_change_batches.id = rule_change_batch_items.batch_id
+            AND rule_change_batches.user_id = auth.uid()
+        )
+    );
+
+-- Users can only insert items into their own batches
+CREATE POLICY "Users can insert own rule change batch items" ON rule_change_batch_items
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM rule_change_batches
+            WHERE rule_change_batches.id = rule_change_batch_items.batch_id
+            AND rule_change_batches.user_id = auth.uid()
+        )
+    );
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. rule_change_batches table for retroactive rule runs
+-- 2. rule_change_batch_items table with the per-transaction label changes
+-- 3. RLS policies for both tables
@@ -0,0 +1,194 @@
+-- Rule Versions Migration
+-- Keeps a snapshot of every rule change (edit, toggle, reorder) and tags
+-- execution logs with the rule version that produced them
+
+-- ===============================
+-- UPDATE RULES TABLE
+-- ===============================
+ALTER TABLE rules ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- ===============================
+-- RULE_VERSIONS TABLE
+-- ===============================
+CREATE TABLE IF NOT EXISTS rule_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rule_id UUID NOT NULL REFERENCES rules(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    change_type TEXT NOT NULL CHECK (change_type IN ('created', 'edited', 'toggled', 'reordered', 'restored')),
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+    -- Snapshot of the rule after the change
+    name TEXT NOT NULL,
+    conditions JSONB NOT NULL,
+    labels_to_apply UUID[] NOT NULL,
+    actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    stop_processing BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL,
+    order_index INTEGER NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(rule_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_versions_rule_id ON rule_versions(rule_id, version DESC);
+
+ALTER TABLE rule_versions ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see history of their own rules. History is append-only:
+-- versions are written by the trigger below and never updated or deleted by clients
+CREATE POLICY "Users can view own rule versions" ON rule_versions
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- ===============================
+-- VERSIONING TRIGGERS
+-- ===============================
+-- Bumps the version when a tracked column changes; no-op updates keep the version
+CREATE OR REPLACE FUNCTION bump_rule_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.name, NEW.conditions, NEW.labels_to_apply, NEW.actions, NEW.stop_processing, NEW.is_active, NEW.order_index)
+       IS DISTINCT FROM
+       (OLD.name, OLD.conditions, OLD.labels_to_apply, OLD.actions, OLD.stop_processing, OLD.is_active, OLD.order_index) THEN
+        NEW.version = OLD.version + 1;
+    ELSE
+        NEW.version = OLD.version;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Records a snapshot for every new version
+CREATE OR REPLACE FUNCTION record_rule_version()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    change TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        change = 'created';
+    ELSIF NEW.version = OLD.version THEN
+        RETURN NEW;
+    ELSIF (NEW.name, NEW.conditions, NEW.labels_to_apply, NEW.actions, NEW.stop_processing, NEW.order_index)
+          IS NOT DISTINCT FROM
+          (OLD.name, OLD.conditions, OLD.labels_to_apply, OLD.actions, OLD.stop_processing, OLD.order_index) THEN
+        change = 'toggled';
+    ELSIF (NEW.name, NEW.conditions, NEW.labels_to_apply, NEW.actions, NEW.stop_processing, NEW.is_active)
+          IS NOT DISTINCT FROM
+          (OLD.name, OLD.conditions, OLD.labels_to_apply, OLD.actions, OLD.stop_processing, OLD.is_active) THEN
+        change = 'reordered';
+    ELSE
+        change = 'edited';
+    END IF;
+
+    -- restore_rule_version() marks the update it makes
+    IF TG_OP = 'UPDATE' AND current_setting('app.rule_change_type', true) = 'restored' THEN
+        change = 'restored';
+    END IF;
+
+    INSERT INTO rule_versions (
+        rule_id, user_id, version, change_type, changed_by,
+        name, conditions, labels_to_apply, actions, stop_processing, is_active, order_index
+    ) VALUES (
+        NEW.id, NEW.user_id, NEW.version, change, auth.uid(),
+        NEW.name, NEW.conditions, NEW.labels_to_apply, COALESCE(NEW.actions, '[]'::jsonb),
+        COALESCE(NEW.stop_processing, FALSE), COALESCE(NEW.is_active, TRUE), NEW.order_index
+    );
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS bump_rule_version_trigger ON rules;
+CREATE TRIGGER bump_rule_version_trigger BEFORE UPDATE ON rules
+    FOR EACH ROW EXECUTE FUNCTION bump_rule_version();
+
+DROP TRIGGER IF EXISTS record_rule_version_trigger ON rules;
+CREATE TRIGGER record_rule_version_trigger AFTER INSERT OR UPDATE ON rules
+    FOR EACH ROW EXECUTE FUNCTION record_rule_version();
+
+-- Copies the definition of an earlier version back onto the rule; the new version is recorded
+-- as a restore. Position and active state stay as they are. Runs with the caller's permissions,
+-- so RLS limits it to the user's own rules. Returns the rule's version afterwards.
+CREATE OR REPLACE FUNCTION restore_rule_version(p_rule_id UUID, p_version INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    snapshot rule_versions%ROWTYPE;
+    new_version INTEGER;
+BEGIN
+    SELECT * INTO snapshot FROM rule_versions WHERE rule_id = p_rule_id AND version = p_version;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Rule version % not found', p_version;
+    END IF;
+
+    PERFORM set_config('app.rule_change_type', 'restored', true);
+
+    UPDATE rules SET
+        name = snapshot.name,
+        conditions = snapshot.conditions,
+        labels_to_apply = snapshot.labels_to_apply,
+        actions = snapshot.actions,
+        stop_processing = snapshot.stop_processing
+    WHERE id = p_rule_id
+    RETURNING version INTO new_version;
+
+    PERFORM set_config('app.rule_change_type', '', true);
+
+    IF new_version IS NULL THEN
+        RAISE EXCEPTION 'Rule not found';
+    END IF;
+
+    RETURN new_version;
+END;
+$$ language 'plpgsql';
+
+-- ===============================
+-- LINK EXECUTION LOGS TO VERSIONS
+-- ===============================
+ALTER TABLE rule_execution_logs ADD COLUMN IF NOT EXISTS rule_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_rule_execution_logs_rule_version ON rule_execution_logs(rule_id, rule_version);
+
+-- Stamps each log with the version of the rule at execution time
+CREATE OR REPLACE FUNCTION set_rule_execution_log_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.rule_version IS NULL THEN
+        SELECT version INTO NEW.rule_version FROM rules WHERE id = NEW.rule_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_rule_execution_log_version_trigger ON rule_execution_logs;
+CREATE TRIGGER set_rule_execution_log_version_trigger BEFORE INSERT ON rule_execution_logs
+    FOR EACH ROW EXECUTE FUNCTION set_rule_execution_log_version();
+
+-- ===============================
+-- BACKFILL
+-- ===============================
+-- Existing rules start their history at version 1
+INSERT INTO rule_versions (
+    rule_id, user_id, version, change_type,
+    name, conditions, labels_to_apply, actions, stop_processing, is_active, order_index, created_at
+)
+SELECT id, user_id, version, 'created',
+       name, conditions, labels_to_apply, COALESCE(actions, '[]'::jsonb), COALESCE(stop_processing, FALSE),
+       COALESCE(is_active, TRUE), order_index, created_at
+FROM rules
+ON CONFLICT (rule_id, version) DO NOTHING;
+
+UPDATE rule_execution_logs SET rule_version = 1 WHERE rule_version IS NULL;
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. version column on rules, bumped on every tracked change
+-- 2. rule_versions table with a snapshot per version (append-only, readable by the owner)
+-- 3. restore_rule_version() to restore an earlier version as a new one
+-- 4. rule_version column on rule_execution_logs, set automatically
+-- 5. History backfill for existing rules
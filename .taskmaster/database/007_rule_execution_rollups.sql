@@ -0,0 +1,176 @@
+-- Rule Execution Rollups Migration
+-- Replaces per-row performance counting with batched daily rollups and adds
+-- a retention policy for detailed execution logs
+
+-- ===============================
+-- RULE_EXECUTION_ROLLUPS TABLE
+-- ===============================
+-- One row per rule version per day; the source of truth for execution counts
+CREATE TABLE IF NOT EXISTS rule_execution_rollups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rule_id UUID NOT NULL REFERENCES rules(id) ON DELETE CASCADE,
+    rule_version INTEGER NOT NULL DEFAULT 1,
+    day DATE NOT NULL, -- UTC day of execution
+    executions INTEGER NOT NULL DEFAULT 0,
+    matches INTEGER NOT NULL DEFAULT 0,
+    labels_applied INTEGER NOT NULL DEFAULT 0,
+    total_execution_time_ms DECIMAL(14,3) NOT NULL DEFAULT 0,
+    last_execution_at TIMESTAMP WITH TIME ZONE,
+
+    UNIQUE(user_id, rule_id, rule_version, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_execution_rollups_user_day ON rule_execution_rollups(user_id, day);
+CREATE INDEX IF NOT EXISTS idx_rule_execution_rollups_rule_id ON rule_execution_rollups(rule_id, day);
+
+ALTER TABLE rule_execution_rollups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own rule execution rollups" ON rule_execution_rollups
+    FOR ALL USING (auth.uid() = user_id);
+
+-- ===============================
+-- BATCHED RECORDING
+-- ===============================
+-- Detailed logs no longer drive the counters; record_rule_executions does
+DROP TRIGGER IF EXISTS update_rule_performance_trigger ON rule_execution_logs;
+
+-- Adds a batch of pre-aggregated executions to the rollups and performance counters.
+-- p_entries is an array of
+-- {rule_id, rule_version, day, executions, matches, labels_applied, total_execution_time_ms, last_execution_at}
+-- with at most one entry per rule version and day.
+CREATE OR REPLACE FUNCTION record_rule_executions(p_entries JSONB)
+RETURNS void AS $$
+BEGIN
+    CREATE TEMP TABLE IF NOT EXISTS pending_rule_executions (
+        rule_id UUID,
+        rule_version INTEGER,
+        day DATE,
+        executions INTEGER,
+        matches INTEGER,
+        labels_applied INTEGER,
+        total_execution_time_ms DECIMAL(14,3),
+        last_execution_at TIMESTAMP WITH TIME ZONE
+    ) ON COMMIT DROP;
+
+    -- Joining rules keeps RLS in charge of which rules the caller may record for
+    INSERT INTO pending_rule_executions
+    SELECT e.rule_id, COALESCE(e.rule_version, r.version, 1), e.day, e.executions, e.matches,
+           e.labels_applied, e.total_execution_time_ms, e.last_execution_at
+    FROM jsonb_to_recordset(p_entries) AS e(
+        rule_id UUID,
+        rule_version INTEGER,
+        day DATE,
+        executions INTEGER,
+        matches INTEGER,
+        labels_applied INTEGER,
+        total_execution_time_ms DECIMAL(14,3),
+        last_execution_at TIMESTAMP WITH TIME ZONE
+    )
+    JOIN rules r ON r.id = e.rule_id;
+
+    INSERT INTO rule_execution_rollups (
+        user_id, rule_id, rule_version, day, executions, matches,
+        labels_applied, total_execution_time_ms, last_execution_at
+    )
+    SELECT auth.uid(), rule_id, rule_version, day, executions, matches,
+           labels_applied, total_execution_time_ms, last_execution_at
+    FROM pending_rule_executions
+    ON CONFLICT (user_id, rule_id, rule_version, day)
+    DO UPDATE SET
+        executions = rule_execution_rollups.executions + EXCLUDED.executions,
+        matches = rule_execution_rollups.matches + EXCLUDED.matches,
+        labels_applied = rule_execution_rollups.labels_applied + EXCLUDED.labels_applied,
+        total_execution_time_ms = rule_execution_rollups.total_execution_time_ms + EXCLUDED.total_execution_time_ms,
+        last_execution_at = GREATEST(rule_execution_rollups.last_execution_at, EXCLUDED.last_execution_at);
+
+    INSERT INTO rule_performance (
+        user_id, rule_id, total_executions, total_matches, total_labels_applied,
+        avg_execution_time_ms, last_execution_at, match_rate, updated_at
+    )
+    SELECT auth.uid(), rule_id, SUM(executions), SUM(matches), SUM(labels_applied),
+           COALESCE(SUM(total_execution_time_ms) / NULLIF(SUM(executions), 0), 0),
+           MAX(last_execution_at),
+           COALESCE(SUM(matches)::decimal / NULLIF(SUM(executions), 0), 0),
+           NOW()
+    FROM pending_rule_executions
+    GROUP BY rule_id
+    ON CONFLICT (user_id, rule_id)
+    DO UPDATE SET
+        total_executions = rule_performance.total_executions + EXCLUDED.total_executions,
+        total_matches = rule_performance.total_matches + EXCLUDED.total_matches,
+        total_labels_applied = rule_performance.total_labels_applied + EXCLUDED.total_labels_applied,
+        avg_execution_time_ms = COALESCE(
+            (rule_performance.avg_execution_time_ms * rule_performance.total_executions
+                + EXCLUDED.avg_execution_time_ms * EXCLUDED.total_executions)
+            / NULLIF(rule_performance.total_executions + EXCLUDED.total_executions, 0),
+            0
+        ),
+        last_execution_at = GREATEST(rule_performance.last_execution_at, EXCLUDED.last_execution_at),
+        match_rate = COALESCE(
+            (rule_performance.total_matches + EXCLUDED.total_matches)::decimal
+            / NULLIF(rule_performance.total_executions + EXCLUDED.total_executions, 0),
+            0
+        ),
+        updated_at = NOW();
+
+    DELETE FROM pending_rule_executions;
+END;
+$$ language 'plpgsql';
+
+-- ===============================
+-- RETENTION POLICY
+-- ===============================
+-- Days of detailed execution logs to keep; rollups are kept indefinitely
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS rule_log_retention_days INTEGER NOT NULL DEFAULT 90
+    CHECK (rule_log_retention_days > 0);
+
+-- Deletes detailed logs past each user's retention period and returns how many were removed.
+-- Counts survive in the rollups. Called from the client it only sees the caller's rows;
+-- run it from a scheduled job to prune for everyone, e.g.
+-- SELECT cron.schedule('prune-rule-execution-logs', '0 3 * * *', 'SELECT prune_rule_execution_logs()');
+CREATE OR REPLACE FUNCTION prune_rule_execution_logs()
+RETURNS INTEGER AS $$
+DECLARE
+    deleted INTEGER;
+BEGIN
+    DELETE FROM rule_execution_logs l
+    WHERE l.executed_at < NOW() - make_interval(days => COALESCE(
+        (SELECT p.rule_log_retention_days FROM user_preferences p WHERE p.user_id = l.user_id),
+        90
+    ));
+
+    GET DIAGNOSTICS deleted = ROW_COUNT;
+    RETURN deleted;
+END;
+$$ language 'plpgsql';
+
+-- ===============================
+-- BACKFILL
+-- ===============================
+-- Existing logs were already counted in rule_performance; only the rollups need filling
+INSERT INTO rule_execution_rollups (
+    user_id, rule_id, rule_version, day, executions, matches,
+    labels_applied, total_execution_time_ms, last_execution_at
+)
+SELECT user_id, rule_id, COALESCE(rule_version, 1), (executed_at AT TIME ZONE 'UTC')::date,
+       COUNT(*),
+       COUNT(*) FILTER (WHERE matched),
+       COALESCE(SUM(array_length(labels_applied, 1)) FILTER (WHERE matched), 0),
+       COALESCE(SUM(execution_time_ms), 0),
+       MAX(executed_at)
+FROM rule_execution_logs
+GROUP BY user_id, rule_id, COALESCE(rule_version, 1), (executed_at AT TIME ZONE 'UTC')::date
+ON CONFLICT (user_id, rule_id, rule_version, day) DO NOTHING;
+
+-- Unmatched executions are only kept as counts from now on
+DELETE FROM rule_execution_logs WHERE matched = FALSE;
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. rule_execution_rollups table with daily counts per rule version
+-- 2. record_rule_executions() for batched counting, replacing the per-row trigger
+-- 3. rule_log_retention_days preference and prune_rule_execution_logs()
+-- 4. Rollup backfill from existing logs
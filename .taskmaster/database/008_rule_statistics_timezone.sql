@@ -0,0 +1,127 @@
+-- Rule Statistics Timezone Migration
+-- Buckets rule execution rollups by the user's local day and adds the
+-- timezone and week start used for rolling-window statistics
+
+-- ===============================
+-- UPDATE USER_PREFERENCES TABLE
+-- ===============================
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Jerusalem';
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS week_start SMALLINT NOT NULL DEFAULT 0
+    CHECK (week_start BETWEEN 0 AND 6); -- 0 = Sunday, 1 = Monday, ...
+
+-- ===============================
+-- LOCAL-DAY ROLLUPS
+-- ===============================
+COMMENT ON COLUMN rule_execution_rollups.day IS 'Day of execution in the user''s timezone at the time it was recorded';
+
+-- Returns the caller's timezone, falling back to the column default
+CREATE OR REPLACE FUNCTION current_user_timezone()
+RETURNS TEXT AS $$
+    SELECT COALESCE(
+        (SELECT timezone FROM user_preferences WHERE user_id = auth.uid()),
+        'Asia/Jerusalem'
+    );
+$$ language 'sql' STABLE;
+
+-- Adds a batch of pre-aggregated executions to the rollups and performance counters.
+-- p_entries is an array of
+-- {rule_id, rule_version, bucket, executions, matches, labels_applied, total_execution_time_ms, last_execution_at}
+-- where bucket is the UTC start of a 15-minute interval; buckets are mapped to the
+-- caller's local day here so every writer agrees on day boundaries.
+CREATE OR REPLACE FUNCTION record_rule_executions(p_entries JSONB)
+RETURNS void AS $$
+DECLARE
+    tz TEXT := current_user_timezone();
+BEGIN
+    CREATE TEMP TABLE IF NOT EXISTS pending_rule_executions (
+        rule_id UUID,
+        rule_version INTEGER,
+        day DATE,
+        executions INTEGER,
+        matches INTEGER,
+        labels_applied INTEGER,
+        total_execution_time_ms DECIMAL(14,3),
+        last_execution_at TIMESTAMP WITH TIME ZONE
+    ) ON COMMIT DROP;
+
+    -- Joining rules keeps RLS in charge of which rules the caller may record for
+    INSERT INTO pending_rule_executions
+    SELECT e.rule_id, COALESCE(e.rule_version, r.version, 1), (e.bucket AT TIME ZONE tz)::date,
+           SUM(e.executions), SUM(e.matches), SUM(e.labels_applied),
+           SUM(e.total_execution_time_ms), MAX(e.last_execution_at)
+    FROM jsonb_to_recordset(p_entries) AS e(
+        rule_id UUID,
+        rule_version INTEGER,
+        bucket TIMESTAMP WITH TIME ZONE,
+        executions INTEGER,
+        matches INTEGER,
+        labels_applied INTEGER,
+        total_execution_time_ms DECIMAL(14,3),
+        last_execution_at TIMESTAMP WITH TIME ZONE
+    )
+    JOIN rules r ON r.id = e.rule_id
+    GROUP BY e.rule_id, COALESCE(e.rule_version, r.version, 1), (e.bucket AT TIME ZONE tz)::date;
+
+    INSERT INTO rule_execution_rollups (
+        user_id, rule_id, rule_version, day, executions, matches,
+        labels_applied, total_execution_time_ms, last_execution_at
+    )
+    SELECT auth.uid(), rule_id, rule_version, day, executions, matches,
+           labels_applied, total_execution_time_ms, last_execution_at
+    FROM pending_rule_executions
+    ON CONFLICT (user_id, rule_id, rule_version, day)
+    DO UPDATE SET
+        executions = rule_execution_rollups.executions + EXCLUDED.executions,
+        matches = rule_execution_rollups.matches + EXCLUDED.matches,
+        labels_applied = rule_execution_rollups.labels_applied + EXCLUDED.labels_applied,
+        total_execution_time_ms = rule_execution_rollups.total_execution_time_ms + EXCLUDED.total_execution_time_ms,
+        last_execution_at = GREATEST(rule_execution_rollups.last_execution_at, EXCLUDED.last_execution_at);
+
+    INSERT INTO rule_performance (
+        user_id, rule_id, total_executions, total_matches, total_labels_applied,
+        avg_execution_time_ms, last_execution_at, match_rate, updated_at
+    )
+    SELECT auth.uid(), rule_id, SUM(executions), SUM(matches), SUM(labels_applied),
+           COALESCE(SUM(total_execution_time_ms) / NULLIF(SUM(executions), 0), 0),
+           MAX(last_execution_at),
+           COALESCE(SUM(matches)::decimal / NULLIF(SUM(executions), 0), 0),
+           NOW()
+    FROM pending_rule_executions
+    GROUP BY rule_id
+    ON CONFLICT (user_id, rule_id)
+    DO UPDATE SET
+        total_executions = rule_performance.total_executions + EXCLUDED.total_executions,
+        total_matches = rule_performance.total_matches + EXCLUDED.total_matches,
+        total_labels_applied = rule_performance.total_labels_applied + EXCLUDED.total_labels_applied,
+        avg_execution_time_ms = COALESCE(
+            (rule_performance.avg_execution_time_ms * rule_performance.total_executions
+                + EXCLUDED.avg_execution_time_ms * EXCLUDED.total_executions)
+            / NULLIF(rule_performance.total_executions + EXCLUDED.total_executions, 0),
+            0
+        ),
+        last_execution_at = GREATEST(rule_performance.last_execution_at, EXCLUDED.last_execution_at),
+        match_rate = COALESCE(
+            (rule_performance.total_matches + EXCLUDED.total_matches)::decimal
+            / NULLIF(rule_performance.total_executions + EXCLUDED.total_executions, 0),
+            0
+        ),
+        updated_at = NOW();
+
+    DELETE FROM pending_rule_executions;
+END;
+$$ language 'plpgsql';
+
+-- ===============================
+-- RETIRE STORED WINDOW COUNTERS
+-- ===============================
+-- Today/week/month counts are computed from the rollups when read; the stored
+-- columns were never reset reliably, so the reset job is no longer needed
+DROP FUNCTION IF EXISTS reset_rule_performance_counters();
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. timezone and week_start preferences
+-- 2. record_rule_executions() bucketing rollups by the user's local day
+-- 3. Removal of the stored-counter reset job
@@ -0,0 +1,17 @@
+-- Automatic Rule Execution Migration
+-- Adds the preference that controls whether active rules run on newly
+-- inserted transactions (imports, splits, rows created outside the app while the
+-- inbox is open) without a manual "Apply rules"
+
+-- ===============================
+-- UPDATE USER_PREFERENCES TABLE
+-- ===============================
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS auto_apply_rules BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN user_preferences.auto_apply_rules IS 'Run active rules on transactions as soon as they are inserted';
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. auto_apply_rules preference (on by default)
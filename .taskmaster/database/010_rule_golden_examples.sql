@@ -0,0 +1,43 @@
+-- Rule Golden Examples Migration
+-- Pinned transactions with the labels the rule set is expected to produce,
+-- used as a regression suite before rule changes are saved
+
+-- ===============================
+-- RULE_GOLDEN_EXAMPLES TABLE
+-- ===============================
+CREATE TABLE IF NOT EXISTS rule_golden_examples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    expected_labels UUID[] NOT NULL DEFAULT '{}',
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(user_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rule_golden_examples_user_id ON rule_golden_examples(user_id);
+
+ALTER TABLE rule_golden_examples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own golden examples" ON rule_golden_examples
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own golden examples" ON rule_golden_examples
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own golden examples" ON rule_golden_examples
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own golden examples" ON rule_golden_examples
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_rule_golden_examples_updated_at BEFORE UPDATE ON rule_golden_examples
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. rule_golden_examples table with RLS policies
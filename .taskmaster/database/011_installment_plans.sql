@@ -0,0 +1,56 @@
+-- Installment Plans Migration
+-- Purchases charged in monthly installments ("תשלום 3 מתוך 12" on card statements).
+-- Each imported charge links to its plan so the remaining charges can be shown as commitments
+
+-- ===============================
+-- INSTALLMENT_PLANS TABLE
+-- ===============================
+CREATE TABLE IF NOT EXISTS installment_plans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    total_amount NUMERIC(12, 2) NOT NULL,
+    installment_count INTEGER NOT NULL CHECK (installment_count >= 2),
+    installment_amount NUMERIC(12, 2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'ILS',
+    first_charge_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_installment_plans_user_id ON installment_plans(user_id);
+CREATE INDEX IF NOT EXISTS idx_installment_plans_lookup ON installment_plans(user_id, description, installment_count);
+
+ALTER TABLE installment_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own installment plans" ON installment_plans
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own installment plans" ON installment_plans
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own installment plans" ON installment_plans
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own installment plans" ON installment_plans
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_installment_plans_updated_at BEFORE UPDATE ON installment_plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===============================
+-- TRANSACTION LINK
+-- ===============================
+ALTER TABLE transactions
+    ADD COLUMN IF NOT EXISTS installment_plan_id UUID REFERENCES installment_plans(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS installment_index INTEGER CHECK (installment_index >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_installment_plan_id ON transactions(installment_plan_id)
+    WHERE installment_plan_id IS NOT NULL;
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. installment_plans table with RLS policies
+-- 2. transactions.installment_plan_id and installment_index linking each charge to its plan
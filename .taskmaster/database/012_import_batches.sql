@@ -0,0 +1,62 @@
+-- Import Batches Migration
+-- Server-side import history: one record per file import, with the mappings used
+-- and the outcome. Imported transactions carry their batch id so an import can be rolled back;
+-- existing transactions the import overwrote keep their original values on the batch
+
+-- ===============================
+-- IMPORT_BATCHES TABLE
+-- ===============================
+CREATE TABLE IF NOT EXISTS import_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    file_name TEXT NOT NULL,
+    file_format TEXT, -- csv, json, ofx or spreadsheet
+    preset_id TEXT, -- bank statement preset, when one was applied
+    mappings JSONB NOT NULL DEFAULT '{}', -- source column -> transaction field
+    options JSONB NOT NULL DEFAULT '{}', -- date format and sign convention
+    status TEXT NOT NULL DEFAULT 'in-progress' CHECK (status IN ('in-progress', 'success', 'failed', 'rolled-back')),
+    row_count INTEGER NOT NULL DEFAULT 0,
+    imported_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    duplicate_count INTEGER NOT NULL DEFAULT 0,
+    installments_linked INTEGER NOT NULL DEFAULT 0,
+    replaced_count INTEGER NOT NULL DEFAULT 0, -- existing transactions overwritten by a duplicate row
+    merged_count INTEGER NOT NULL DEFAULT 0, -- existing transactions that received a duplicate row's notes
+    restores JSONB NOT NULL DEFAULT '[]', -- [{transaction_id, fields}] original values to put back on rollback
+    rules_labeled JSONB NOT NULL DEFAULT '[]', -- transactions labeled per rule right after the import
+    error_count INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]', -- first errors of the ImportResult
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    rolled_back_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_id ON import_batches(user_id, created_at DESC);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import batches" ON import_batches
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own import batches" ON import_batches
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own import batches" ON import_batches
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- ===============================
+-- TRANSACTION LINK
+-- ===============================
+-- Labels go with the transactions on rollback (transaction_labels cascades)
+ALTER TABLE transactions
+    ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_batch_id ON transactions(batch_id)
+    WHERE batch_id IS NOT NULL;
+
+-- ===============================
+-- MIGRATION COMPLETE
+-- ===============================
+-- This migration adds:
+-- 1. import_batches table with RLS policies
+-- 2. transactions.batch_id tagging each imported transaction with its import
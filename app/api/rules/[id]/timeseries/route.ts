@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { addDays, buildRuleTimeSeries, getLocalDay, toStatisticsSettings } from '@/lib/rule-statistics';
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+/**
+ * Returns daily executions and matches of one rule for the last `days` days
+ * (default 30), with day boundaries in the user's timezone
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const requestedDays = Number(request.nextUrl.searchParams.get('days')) || DEFAULT_DAYS;
+    const days = Math.min(Math.max(Math.floor(requestedDays), 1), MAX_DAYS);
+
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { data: preferences } = await supabase
+      .from('user_preferences')
+      .select('timezone, week_start')
+      .maybeSingle();
+
+    const settings = toStatisticsSettings(preferences);
+    const now = new Date();
+    const since = addDays(getLocalDay(now, settings.timeZone), -(days - 1));
+
+    const rollups: { day: string; executions: number; matches: number }[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('rule_execution_rollups')
+        .select('day, executions, matches')
+        .eq('rule_id', id)
+        .gte('day', since)
+        .order('day', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      rollups.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return NextResponse.json({
+      success: true,
+      ruleId: id,
+      timeZone: settings.timeZone,
+      points: buildRuleTimeSeries(rollups, days, settings, now)
+    });
+  } catch (error) {
+    console.error('Error fetching rule time series:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { EvaluatedTransaction } from '@/lib/rules-engine';
+import { RuleApplicationService } from '@/lib/rule-application-service';
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+/**
+ * Loads all of the user's pending transactions with their label assignments
+ */
+async function fetchPendingTransactions(
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<EvaluatedTransaction[]> {
+  const transactions: EvaluatedTransaction[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*, transaction_labels(label_id)')
+      .eq('status', 'pending')
+      .order('date', { ascending: false })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    transactions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return transactions;
+}
+
+/**
+ * Applies all active rules to pending transactions in a single pass.
+ * Rules are loaded once, matching happens in memory, and every label
+ * assignment is written with one upsert.
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { data: rules, error: rulesError } = await supabase
+      .from('rules')
+      .select('*')
+      .eq('is_active', true)
+      .order('order_index', { ascending: true });
+
+    if (rulesError) throw rulesError;
+
+    if (!rules || rules.length === 0) {
+      return NextResponse.json({ success: true, totalProcessed: 0, rulesApplied: {}, labelsApplied: {}, actionsApplied: {} });
+    }
+
+    const transactions = await fetchPendingTransactions(supabase);
+    const result = await RuleApplicationService.applyRules(supabase, user.id, rules, transactions);
+
+    return NextResponse.json({
+      success: true,
+      totalProcessed: result.totalProcessed,
+      rulesApplied: result.rulesApplied,
+      labelsApplied: result.labelsApplied,
+      actionsApplied: result.actionsApplied
+    });
+  } catch (error) {
+    console.error('Error applying rules:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
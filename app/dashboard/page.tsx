@@ -12,6 +12,7 @@ import { TransactionWithLabels } from '@/types/database'
 import { formatCurrency } from '@/lib/currency/formatting'
 import { cn } from '@/lib/utils'
 import { MonthPicker } from '@/components/ui/month-picker'
+import UpcomingInstallments from '@/components/transactions/UpcomingInstallments'
 import { format, startOfMonth, endOfMonth } from 'date-fns'
 import { he } from 'date-fns/locale'
 
@@ -316,6 +317,9 @@ function DashboardContent() {
           </div>
         </Card>
 
+        {/* Remaining installment charges */}
+        <UpcomingInstallments />
+
         {/* Monthly Expenses Table */}
         <Card>
           <CardHeader>
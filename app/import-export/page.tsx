@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -16,29 +16,23 @@ import {
   Info,
   ArrowLeft,
   Database,
-  Settings
+  Settings,
+  Undo2
 } from 'lucide-react'
 import { ImportForm } from '@/components/transactions'
-import { CurrencyCode } from '@/types/database'
+import type { ImportFormOptions } from '@/components/import/ImportForm'
+import { CurrencyCode, ImportBatch } from '@/types/database'
 import { useAuthenticatedMutation } from '@/hooks/useAuthenticatedMutation'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { ImportService, ImportProgress, ImportResult } from '@/services/importService'
+import { ImportService, ImportBatchInfo, ImportProgress } from '@/services/importService'
 import { useAuth } from '@/context/auth'
-
-interface ImportHistory {
-  id: string
-  filename: string
-  rowCount: number
-  timestamp: Date
-  status: 'success' | 'failed' | 'in-progress'
-  errorMessage?: string
-  result?: ImportResult
-}
+import { toast } from 'sonner'
 
 export default function ImportExportPage() {
   const [showImportForm, setShowImportForm] = useState(false)
-  const [importHistory, setImportHistory] = useState<ImportHistory[]>([])
+  const [importHistory, setImportHistory] = useState<ImportBatch[]>([])
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null)
   const [isExporting, setIsExporting] = useState(false)
   const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv')
   const [currentImportProgress, setCurrentImportProgress] = useState<ImportProgress | null>(null)
@@ -46,48 +40,30 @@ export default function ImportExportPage() {
   const { user } = useAuth()
   const router = useRouter()
 
-  // Load import history from localStorage
-  useEffect(() => {
-    const saved = localStorage.getItem('import-history')
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved)
-        setImportHistory(parsed.map((item: any) => ({
-          ...item,
-          timestamp: new Date(item.timestamp)
-        })))
-      } catch (error) {
-        console.error('Failed to parse import history:', error)
-      }
-    }
+  // Load import history from the recorded import batches
+  const fetchImportHistory = useCallback(async () => {
+    const importService = new ImportService()
+    setImportHistory(await importService.getImportBatches())
   }, [])
 
-  // Save import history to localStorage
-  const saveImportHistory = (history: ImportHistory[]) => {
-    localStorage.setItem('import-history', JSON.stringify(history))
-    setImportHistory(history)
-  }
+  useEffect(() => {
+    if (user) {
+      fetchImportHistory()
+    }
+  }, [user, fetchImportHistory])
 
-  const handleImport = async (data: any[], mappings: Record<string, string>, defaultCurrency: CurrencyCode = 'ILS') => {
+  const handleImport = async (
+    data: any[],
+    mappings: Record<string, string>,
+    defaultCurrency: CurrencyCode = 'ILS',
+    formOptions: ImportFormOptions = {},
+    batch?: ImportBatchInfo
+  ) => {
     if (!user) {
       console.error('User not authenticated')
       return
     }
 
-    const importId = `import-${Date.now()}`
-    
-    // Add to history as in-progress
-    const newEntry: ImportHistory = {
-      id: importId,
-      filename: 'import.csv', // This would come from the form
-      rowCount: data.length,
-      timestamp: new Date(),
-      status: 'in-progress'
-    }
-    
-    const updatedHistory = [newEntry, ...importHistory]
-    saveImportHistory(updatedHistory)
-
     try {
       const importService = new ImportService()
       
@@ -100,31 +76,21 @@ export default function ImportExportPage() {
           batchSize: 50,
           duplicateStrategy: 'skip',
           duplicateThreshold: 0.8,
+          ...formOptions,
+          batch: batch || { fileName: 'import' },
           onProgress: (progress) => {
             setCurrentImportProgress(progress)
           }
         }
       )
 
-      // Update history with results
-      const finalHistory = updatedHistory.map(item => 
-        item.id === importId 
-          ? { 
-              ...item, 
-              status: result.success ? 'success' as const : 'failed' as const,
-              errorMessage: result.success ? undefined : ImportService.handleImportErrors(result.errors).summary,
-              result
-            }
-          : item
-      )
-      saveImportHistory(finalHistory)
-      
       // Clear progress indicator
       setCurrentImportProgress(null)
+      fetchImportHistory()
 
       // Show results and redirect if successful
       if (result.success) {
-        console.log(`Import completed successfully: ${result.imported} imported, ${result.skipped} skipped`)
+        console.log(`Import completed successfully: ${result.imported} imported, ${result.skipped} skipped, ${result.replaced || 0} replaced, ${result.merged || 0} merged`)
         setTimeout(() => {
           router.push('/inbox')
         }, 2000)
@@ -135,19 +101,33 @@ export default function ImportExportPage() {
 
     } catch (error) {
       console.error('Import failed:', error)
-      
-      // Update history as failed
-      const failedHistory = updatedHistory.map(item => 
-        item.id === importId 
-          ? { 
-              ...item, 
-              status: 'failed' as const,
-              errorMessage: error instanceof Error ? error.message : 'Unknown error'
-            }
-          : item
-      )
-      saveImportHistory(failedHistory)
       setCurrentImportProgress(null)
+      fetchImportHistory()
+    }
+  }
+
+  const handleRollback = async (batch: ImportBatch) => {
+    const updatedCount = batch.restores.length
+    const restoreNote = updatedCount > 0
+      ? ` It also restores the original values of ${updatedCount} existing transaction${updatedCount !== 1 ? 's' : ''} it replaced or added notes to.`
+      : ''
+    // A cut-off import never recorded its counts
+    const importedNote = batch.status === 'in-progress'
+      ? 'the transactions it imported before it was cut off'
+      : `the ${batch.imported_count} transaction${batch.imported_count !== 1 ? 's' : ''} it imported`
+    if (!confirm(`Roll back "${batch.file_name}"? This deletes ${importedNote} and their labels.${restoreNote}`)) return
+
+    setRollingBackId(batch.id)
+    try {
+      const importService = new ImportService()
+      const { deleted, restored } = await importService.rollbackImportBatch(batch.id)
+      toast.success(`Import rolled back: ${deleted} transaction${deleted !== 1 ? 's' : ''} removed${restored > 0 ? `, ${restored} restored` : ''}`)
+      fetchImportHistory()
+    } catch (error) {
+      console.error('Error rolling back import:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back import')
+    } finally {
+      setRollingBackId(null)
     }
   }
 
@@ -176,6 +156,7 @@ export default function ImportExportPage() {
       case 'success': return <CheckCircle className="h-4 w-4 text-green-600" />
       case 'failed': return <AlertCircle className="h-4 w-4 text-red-600" />
       case 'in-progress': return <Clock className="h-4 w-4 text-blue-600" />
+      case 'rolled-back': return <Undo2 className="h-4 w-4 text-gray-600" />
       default: return <Clock className="h-4 w-4 text-gray-600" />
     }
   }
@@ -324,41 +305,67 @@ export default function ImportExportPage() {
                               <div className="flex items-center gap-3 flex-1">
                                 {getStatusIcon(item.status)}
                                 <div className="flex-1">
-                                  <p className="font-medium text-sm">{item.filename}</p>
+                                  <p className="font-medium text-sm">{item.file_name}</p>
                                   <p className="text-xs text-gray-500">
-                                    {item.timestamp.toLocaleDateString()} at {item.timestamp.toLocaleTimeString()}
+                                    {item.created_at.toLocaleDateString()} at {item.created_at.toLocaleTimeString()}
                                   </p>
                                   
                                   {/* Show import results if successful */}
-                                  {item.result && item.status === 'success' && (
+                                  {item.status === 'success' && (
                                     <div className="text-sm text-green-600 mt-1 flex items-center gap-2">
-                                      <span>✅ {item.result.imported} imported</span>
-                                      {item.result.skipped > 0 && (
-                                        <span>• {item.result.skipped} skipped</span>
+                                      <span>✅ {item.imported_count} imported</span>
+                                      {item.skipped_count > 0 && (
+                                        <span>• {item.skipped_count} skipped</span>
+                                      )}
+                                      {item.duplicate_count > 0 && (
+                                        <span>• {item.duplicate_count} duplicates detected</span>
                                       )}
-                                      {item.result.duplicates.length > 0 && (
-                                        <span>• {item.result.duplicates.length} duplicates detected</span>
+                                      {item.installments_linked > 0 && (
+                                        <span>• {item.installments_linked} installments linked</span>
                                       )}
+                                      {item.replaced_count > 0 && (
+                                        <span>• {item.replaced_count} replaced</span>
+                                      )}
+                                      {item.merged_count > 0 && (
+                                        <span>• {item.merged_count} notes merged</span>
+                                      )}
+                                    </div>
+                                  )}
+
+                                  {item.status === 'rolled-back' && item.rolled_back_at && (
+                                    <p className="text-sm text-gray-600 mt-1">
+                                      Rolled back on {item.rolled_back_at.toLocaleDateString()}
+                                    </p>
+                                  )}
+
+                                  {/* Show how many transactions each rule labeled */}
+                                  {item.status === 'success' && item.rules_labeled.length > 0 && (
+                                    <div className="text-xs text-gray-600 mt-1 space-y-0.5">
+                                      {item.rules_labeled.map(rule => (
+                                        <div key={rule.ruleId}>
+                                          Rule "{rule.ruleName}" labeled {rule.transactions} transaction{rule.transactions !== 1 ? 's' : ''}
+                                        </div>
+                                      ))}
                                     </div>
                                   )}
                                   
                                   {/* Show error message */}
-                                  {item.errorMessage && (
-                                    <p className="text-sm text-red-600 mt-1">{item.errorMessage}</p>
+                                  {item.status === 'failed' && item.errors.length > 0 && (
+                                    <p className="text-sm text-red-600 mt-1">{ImportService.handleImportErrors(item.errors).summary}</p>
                                   )}
                                   
                                   {/* Show detailed errors if available */}
-                                  {item.result && !item.result.success && item.result.errors.length > 0 && (
+                                  {item.status === 'failed' && item.errors.length > 0 && (
                                     <details className="mt-2 text-sm text-red-600">
                                       <summary className="cursor-pointer hover:text-red-800 text-xs">
-                                        View {item.result.errors.length} error(s)
+                                        View {item.error_count} error(s)
                                       </summary>
                                       <div className="mt-1 pl-2 border-l-2 border-red-200 max-h-32 overflow-y-auto">
-                                        {ImportService.handleImportErrors(item.result.errors).details.slice(0, 5).map((detail, i) => (
+                                        {ImportService.handleImportErrors(item.errors).details.slice(0, 5).map((detail, i) => (
                                           <div key={i} className="text-xs py-0.5">{detail}</div>
                                         ))}
-                                        {item.result.errors.length > 5 && (
-                                          <div className="text-xs text-red-500">... and {item.result.errors.length - 5} more</div>
+                                        {item.error_count > 5 && (
+                                          <div className="text-xs text-red-500">... and {item.error_count - 5} more</div>
                                         )}
                                       </div>
                                     </details>
@@ -368,11 +375,24 @@ export default function ImportExportPage() {
                               
                               <div className="flex items-center gap-2">
                                 <span className="text-sm text-gray-600">
-                                  {item.rowCount} rows
+                                  {item.row_count} rows
                                 </span>
                                 <Badge variant="secondary" className={`text-xs ${getStatusColor(item.status)}`}>
                                   {item.status}
                                 </Badge>
+                                {(ImportService.isStaleImport(item) ||
+                                  (item.status !== 'rolled-back' && item.status !== 'in-progress' &&
+                                    (item.imported_count > 0 || item.restores.length > 0))) && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleRollback(item)}
+                                    disabled={rollingBackId !== null}
+                                  >
+                                    <Undo2 className="h-4 w-4 mr-1" />
+                                    {rollingBackId === item.id ? 'Rolling back...' : 'Roll back'}
+                                  </Button>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -10,7 +10,8 @@ import { createClient } from '@/utils/supabase/client';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { X, Play } from 'lucide-react';
-import { applyRulesToTransaction, applyRulesToTransactions } from '@/lib/rules-engine';
+import { applyRulesToPendingTransactionsOnServer } from '@/lib/rules-engine';
+import { RuleApplicationService } from '@/lib/rule-application-service';
 
 export default function InboxPage() {
   return (
@@ -377,8 +378,8 @@ function InboxContent() {
         return;
       }
 
-      // Apply rules to all pending transactions
-      const { totalProcessed, rulesApplied, labelsApplied } = await applyRulesToTransactions(pendingTransactions);
+      // Apply rules to all pending transactions on the server in one pass
+      const { totalProcessed, rulesApplied, labelsApplied } = await applyRulesToPendingTransactionsOnServer();
       
       // Calculate statistics
       const totalRulesApplied = Object.values(rulesApplied).reduce((sum, rules) => sum + rules.length, 0);
@@ -423,23 +424,28 @@ function InboxContent() {
         async (payload) => {
           console.log('Real-time update:', payload);
           
-          // Handle new transactions with rules engine
+          // Imports and splits run rules when they insert; label transactions created elsewhere here
           if (payload.eventType === 'INSERT' && payload.new) {
             const newTransaction = payload.new as Transaction;
             
-            try {
-              // Apply rules to the new transaction
-              const { rulesApplied, labelsApplied } = await applyRulesToTransaction(newTransaction);
-              
-              // Show informative toast based on rules applied
-              if (rulesApplied.length > 0) {
-                toast.success(`New transaction detected - ${rulesApplied.length} rule${rulesApplied.length !== 1 ? 's' : ''} applied, ${labelsApplied.length} label${labelsApplied.length !== 1 ? 's' : ''} assigned`);
-              } else {
+            if (RuleApplicationService.isRuledOnInsert(newTransaction)) {
+              toast.info('New transaction detected');
+            } else {
+              try {
+                // Returns null when automatic rule execution is turned off
+                const result = await RuleApplicationService.applyToNewTransactions(supabase, user.id, [newTransaction]);
+                const rulesApplied = result?.rulesApplied[newTransaction.id] || [];
+                const labelsApplied = result?.labelsApplied[newTransaction.id] || [];
+                
+                if (rulesApplied.length > 0) {
+                  toast.success(`New transaction detected - ${rulesApplied.length} rule${rulesApplied.length !== 1 ? 's' : ''} applied, ${labelsApplied.length} label${labelsApplied.length !== 1 ? 's' : ''} assigned`);
+                } else {
+                  toast.info('New transaction detected');
+                }
+              } catch (error) {
+                console.error('Error applying rules to new transaction:', error);
                 toast.info('New transaction detected');
               }
-            } catch (error) {
-              console.error('Error applying rules to new transaction:', error);
-              toast.info('New transaction detected');
             }
           }
           
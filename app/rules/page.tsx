@@ -3,17 +3,25 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/context/auth'
 import { supabase } from '@/lib/supabase'
-import { Rule, Label } from '@/types/database'
+import { Rule, Label, RuleSuggestion, CreateRuleInput } from '@/types/database'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Trash2, Edit, Plus, Play, Pause, ArrowUp, ArrowDown, FlaskConical, BarChart3 } from 'lucide-react'
+import { Trash2, Edit, Plus, Play, Pause, ArrowUp, ArrowDown, FlaskConical, BarChart3, Download, Upload, History } from 'lucide-react'
 import { toast } from 'sonner'
 import AuthRequired from '@/components/auth/AuthRequired'
 import RuleForm from '@/components/transactions/RuleForm'
 import RuleTestingInterface from '@/components/transactions/RuleTestingInterface'
 import RulePerformanceAnalytics from '@/components/transactions/RulePerformanceAnalytics'
+import RuleConflictAnalyzer from '@/components/transactions/RuleConflictAnalyzer'
+import RuleSuggestions from '@/components/transactions/RuleSuggestions'
+import RuleImportDialog from '@/components/transactions/RuleImportDialog'
+import RuleHistoryDialog from '@/components/transactions/RuleHistoryDialog'
+import RuleCoverageReport from '@/components/transactions/RuleCoverageReport'
+import { RulePortabilityService } from '@/lib/rule-portability-service'
+import { RuleApplicationService } from '@/lib/rule-application-service'
+import { flattenRuleConditions, formatRuleAction, formatRuleConditions } from '@/lib/rules-engine'
 
 export default function RulesPage() {
   const { user } = useAuth()
@@ -22,14 +30,31 @@ export default function RulesPage() {
   const [loading, setLoading] = useState(true)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [showTestingInterface, setShowTestingInterface] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [ruleDraft, setRuleDraft] = useState<CreateRuleInput | Rule | null>(null)
+  const [historyRule, setHistoryRule] = useState<Rule | null>(null)
+  const [autoApplyRules, setAutoApplyRules] = useState(true)
 
   useEffect(() => {
     if (user) {
       fetchRules()
       fetchLabels()
+      RuleApplicationService.isAutoApplyEnabled().then(setAutoApplyRules)
     }
   }, [user])
 
+  const toggleAutoApply = async (enabled: boolean) => {
+    setAutoApplyRules(enabled)
+    try {
+      await RuleApplicationService.setAutoApplyEnabled(enabled)
+      toast.success(enabled ? 'Rules will run on new transactions' : 'Rules will only run when applied manually')
+    } catch (error) {
+      console.error('Error saving auto-apply preference:', error)
+      toast.error('Failed to save preference')
+      setAutoApplyRules(!enabled)
+    }
+  }
+
   const fetchRules = async () => {
     try {
       const { data, error } = await supabase
@@ -134,6 +159,43 @@ export default function RulesPage() {
     }
   }
 
+  const exportRules = () => {
+    const exportDocument = RulePortabilityService.exportRules(rules, labels)
+    const blob = new Blob([JSON.stringify(exportDocument, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `rules-${new Date().toISOString().split('T')[0]}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+
+    toast.success(`Exported ${rules.length} rule${rules.length !== 1 ? 's' : ''}`)
+  }
+
+  const createRuleFromDraft = (draft: CreateRuleInput) => {
+    setRuleDraft(draft)
+    setShowCreateForm(true)
+  }
+
+  const createRuleFromSuggestion = (suggestion: RuleSuggestion) => {
+    createRuleFromDraft({
+      name: suggestion.name,
+      conditions: suggestion.conditions,
+      labels_to_apply: suggestion.labels_to_apply
+    })
+  }
+
+  const editRule = (rule: Rule) => {
+    setRuleDraft(rule)
+    setShowCreateForm(true)
+  }
+
+  const closeRuleForm = () => {
+    setShowCreateForm(false)
+    setRuleDraft(null)
+  }
+
   const getLabelName = (labelId: string) => {
     const label = labels.find(l => l.id === labelId)
     return label?.name || 'Unknown Label'
@@ -144,18 +206,6 @@ export default function RulesPage() {
     return label?.color || '#3B82F6'
   }
 
-  const formatCondition = (condition: any) => {
-    const field = condition.field.charAt(0).toUpperCase() + condition.field.slice(1)
-    const operator = condition.operator.replace(/_/g, ' ')
-    let value = condition.value
-
-    if (condition.operator === 'between' && Array.isArray(value)) {
-      value = `${value[0]} - ${value[1]}`
-    }
-
-    return `${field} ${operator} "${value}"`
-  }
-
   if (loading) {
     return (
       <AuthRequired>
@@ -180,8 +230,37 @@ export default function RulesPage() {
           <div>
             <h1 className="text-2xl font-semibold">Rules Engine</h1>
             <p className="text-gray-600">Automatically assign labels to transactions based on conditions</p>
+            <div className="flex items-center space-x-2 mt-2">
+              <input
+                type="checkbox"
+                id="auto-apply-rules"
+                checked={autoApplyRules}
+                onChange={(e) => toggleAutoApply(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="auto-apply-rules" className="text-sm cursor-pointer">
+                Run rules automatically on new transactions
+              </label>
+            </div>
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              onClick={() => setShowImportDialog(true)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Upload size={16} />
+              Import
+            </Button>
+            <Button
+              onClick={exportRules}
+              variant="outline"
+              className="flex items-center gap-2"
+              disabled={rules.length === 0}
+            >
+              <Download size={16} />
+              Export
+            </Button>
             <Button 
               onClick={() => setShowTestingInterface(true)}
               variant="outline"
@@ -202,13 +281,21 @@ export default function RulesPage() {
         </div>
 
         <Tabs defaultValue="rules" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="rules">Rules Management</TabsTrigger>
+            <TabsTrigger value="coverage">Coverage</TabsTrigger>
+            <TabsTrigger value="conflicts">Conflicts</TabsTrigger>
             <TabsTrigger value="analytics">Performance Analytics</TabsTrigger>
           </TabsList>
 
           <TabsContent value="rules" className="mt-6">
 
+        <RuleSuggestions
+          key={rules.length}
+          labels={labels}
+          onCreateRule={createRuleFromSuggestion}
+        />
+
         {rules.length === 0 ? (
           <Card>
             <CardContent className="p-8 text-center">
@@ -239,9 +326,13 @@ export default function RulesPage() {
                         {!rule.is_active && (
                           <Badge variant="secondary">Disabled</Badge>
                         )}
+                        {rule.stop_processing && (
+                          <Badge variant="outline">Stops processing</Badge>
+                        )}
                       </CardTitle>
                       <CardDescription>
-                        {rule.conditions.length} condition{rule.conditions.length !== 1 ? 's' : ''} • {rule.labels_to_apply.length} label{rule.labels_to_apply.length !== 1 ? 's' : ''}
+                        {flattenRuleConditions(rule.conditions).length} condition{flattenRuleConditions(rule.conditions).length !== 1 ? 's' : ''} • {rule.labels_to_apply.length} label{rule.labels_to_apply.length !== 1 ? 's' : ''}
+                        {(rule.actions?.length || 0) > 0 && ` • ${rule.actions!.length} action${rule.actions!.length !== 1 ? 's' : ''}`}
                       </CardDescription>
                     </div>
                     <div className="flex items-center gap-2">
@@ -271,7 +362,14 @@ export default function RulesPage() {
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => {/* TODO: Edit rule */}}
+                        onClick={() => setHistoryRule(rule)}
+                      >
+                        <History size={16} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => editRule(rule)}
                       >
                         <Edit size={16} />
                       </Button>
@@ -289,12 +387,8 @@ export default function RulesPage() {
                   <div className="space-y-3">
                     <div>
                       <h4 className="font-medium text-sm mb-2">Conditions:</h4>
-                      <div className="space-y-1">
-                        {rule.conditions.map((condition, i) => (
-                          <div key={i} className="text-sm bg-gray-50 p-2 rounded">
-                            {formatCondition(condition)}
-                          </div>
-                        ))}
+                      <div className="text-sm bg-gray-50 p-2 rounded">
+                        {formatRuleConditions(rule.conditions, getLabelName)}
                       </div>
                     </div>
                     <div>
@@ -311,6 +405,18 @@ export default function RulesPage() {
                         ))}
                       </div>
                     </div>
+                    {rule.actions && rule.actions.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-sm mb-2">Actions:</h4>
+                        <div className="space-y-1">
+                          {rule.actions.map((action, actionIndex) => (
+                            <div key={actionIndex} className="text-sm bg-gray-50 p-2 rounded">
+                              {formatRuleAction(action)}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -320,6 +426,14 @@ export default function RulesPage() {
 
           </TabsContent>
 
+          <TabsContent value="coverage" className="mt-6">
+            <RuleCoverageReport onCreateRule={createRuleFromDraft} />
+          </TabsContent>
+
+          <TabsContent value="conflicts" className="mt-6">
+            <RuleConflictAnalyzer rules={rules} labels={labels} />
+          </TabsContent>
+
           <TabsContent value="analytics" className="mt-6">
             <RulePerformanceAnalytics />
           </TabsContent>
@@ -327,9 +441,35 @@ export default function RulesPage() {
 
         {showCreateForm && (
           <RuleForm
-            onClose={() => setShowCreateForm(false)}
+            initialRule={ruleDraft}
+            onClose={closeRuleForm}
+            onSuccess={() => {
+              closeRuleForm()
+              fetchRules()
+            }}
+          />
+        )}
+
+        {showImportDialog && (
+          <RuleImportDialog
+            rules={rules}
+            labels={labels}
+            onClose={() => setShowImportDialog(false)}
             onSuccess={() => {
-              setShowCreateForm(false)
+              setShowImportDialog(false)
+              fetchRules()
+              fetchLabels()
+            }}
+          />
+        )}
+
+        {historyRule && (
+          <RuleHistoryDialog
+            rule={historyRule}
+            labels={labels}
+            onClose={() => setHistoryRule(null)}
+            onRestore={() => {
+              setHistoryRule(null)
               fetchRules()
             }}
           />
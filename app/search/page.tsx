@@ -9,10 +9,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import FilterBuilder, { Filter } from '@/components/transactions/FilterBuilder'
 import { FilterChips } from '@/components/transactions/FilterChips'
 import { TransactionList } from '@/components/transactions/TransactionList'
-import { applyAdvancedFilterToQuery, testFilter } from '@/lib/advanced-filter-query'
+import RuleForm from '@/components/transactions/RuleForm'
+import { searchTransactions, testFilter } from '@/lib/advanced-filter-query'
+import { filterToRuleConditions, normalizeFilter } from '@/lib/rules-engine'
 import { createClient } from '@/utils/supabase/client'
 import { useAuth } from '@/context/auth'
-import { Transaction, TransactionWithLabels } from '@/types/database'
+import { CreateRuleInput, Transaction, TransactionWithLabels } from '@/types/database'
 import { 
   Search, 
   Filter as FilterIcon, 
@@ -21,7 +23,8 @@ import {
   Star, 
   Play, 
   Loader2, 
-  AlertCircle 
+  AlertCircle,
+  Wand2
 } from 'lucide-react'
 import { toast } from 'sonner'
 
@@ -50,6 +53,7 @@ export default function SearchPage() {
     error?: string
   } | null>(null)
   const [labels, setLabels] = useState<{ id: string; name: string; color: string }[]>([])
+  const [ruleDraft, setRuleDraft] = useState<CreateRuleInput | null>(null)
 
   const supabase = createClient()
 
@@ -86,6 +90,7 @@ export default function SearchPage() {
       if (saved) {
         const parsed = JSON.parse(saved).map((filter: any) => ({
           ...filter,
+          filter: normalizeFilter(filter.filter),
           createdAt: new Date(filter.createdAt),
           lastUsed: filter.lastUsed ? new Date(filter.lastUsed) : undefined,
         }))
@@ -142,13 +147,11 @@ export default function SearchPage() {
 
     setIsSearching(true)
     try {
-      const query = applyAdvancedFilterToQuery(supabase, filter)
-      const { data, error } = await query
-        .order('date', { ascending: false })
-        .limit(50)
-
-      if (error) throw error
-      setSearchResults(transformTransactionData(data || []))
+      const { transactions, scanned, complete } = await searchTransactions(supabase, filter, 50)
+      setSearchResults(transformTransactionData(transactions))
+      if (!complete) {
+        toast.info(`Searched the ${scanned} most recent transactions; narrow the filter to search further back`)
+      }
     } catch (error) {
       console.error('Advanced search error:', error)
       toast.error('Advanced search failed. Please try again.')
@@ -207,6 +210,30 @@ export default function SearchPage() {
     }
   }
 
+  // Searches and rules share one condition model, so the current search becomes the rule's conditions
+  const handleCreateRuleFromSearch = () => {
+    if (activeTab === 'simple') {
+      if (!searchQuery.trim()) return
+      setRuleDraft({
+        name: searchQuery.trim(),
+        conditions: {
+          type: 'group',
+          operator: 'AND',
+          conditions: [{ field: 'description', operator: 'contains', value: searchQuery.trim() }]
+        },
+        labels_to_apply: []
+      })
+      return
+    }
+
+    if (currentFilter.conditions.length === 0) return
+    setRuleDraft({
+      name: currentFilter.name || 'Rule from search',
+      conditions: filterToRuleConditions(currentFilter),
+      labels_to_apply: []
+    })
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSimpleSearch()
@@ -270,6 +297,14 @@ export default function SearchPage() {
                         {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search size={16} />}
                         Search
                       </Button>
+                      <Button
+                        variant="outline"
+                        onClick={handleCreateRuleFromSearch}
+                        disabled={!searchQuery.trim()}
+                      >
+                        <Wand2 size={16} />
+                        Turn into rule
+                      </Button>
                     </div>
                     
                     {searchQuery && (
@@ -318,7 +353,15 @@ export default function SearchPage() {
                     </div>
                   )}
                   
-                  <div className="mt-4 flex justify-end">
+                  <div className="mt-4 flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={handleCreateRuleFromSearch}
+                      disabled={!currentFilter.conditions.length}
+                    >
+                      <Wand2 size={16} />
+                      Turn this search into a rule
+                    </Button>
                     <Button 
                       onClick={() => handleAdvancedSearch(currentFilter)}
                       disabled={isSearching || !currentFilter.conditions.length}
@@ -434,6 +477,14 @@ export default function SearchPage() {
           <p>Try adjusting your search terms or filters</p>
         </div>
       )}
+
+      {ruleDraft && (
+        <RuleForm
+          initialRule={ruleDraft}
+          onClose={() => setRuleDraft(null)}
+          onSuccess={() => setRuleDraft(null)}
+        />
+      )}
     </div>
   )
 } 
\ No newline at end of file
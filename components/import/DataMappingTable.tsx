@@ -5,8 +5,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
-import { AlertCircle, CheckCircle, Eye, EyeOff, RotateCcw } from 'lucide-react'
-import { suggestFieldMappings, normalizeCSVData, CSVParseResult } from '@/utils/importUtils'
+import { AlertCircle, ArrowDownUp, CalendarDays, CheckCircle, Eye, EyeOff, RotateCcw } from 'lucide-react'
+import {
+  suggestFieldMappings,
+  normalizeCSVData,
+  normalizeDate,
+  inferDateFormat,
+  CSVParseResult,
+  DateFormat,
+  NormalizeOptions
+} from '@/utils/importUtils'
 
 interface FieldMapping {
   sourceField: string
@@ -20,6 +28,7 @@ interface DataMappingTableProps {
   parseResult: CSVParseResult
   onMappingChange: (mappings: Record<string, string>) => void
   onValidationChange: (isValid: boolean, errors: string[]) => void
+  onNormalizeOptionsChange?: (options: NormalizeOptions) => void
   initialMappings?: Record<string, string>
 }
 
@@ -27,6 +36,9 @@ interface DataMappingTableProps {
 const TRANSACTION_FIELDS = [
   { key: 'description', label: 'Description', required: true, type: 'text' },
   { key: 'amount', label: 'Amount', required: true, type: 'number' },
+  { key: 'debit', label: 'Debit', required: false, type: 'number' },
+  { key: 'credit', label: 'Credit', required: false, type: 'number' },
+  { key: 'total_amount', label: 'Deal Total', required: false, type: 'number' },
   { key: 'date', label: 'Date', required: true, type: 'date' },
   { key: 'currency', label: 'Currency', required: false, type: 'currency' },
   { key: 'identifier', label: 'Identifier', required: false, type: 'text' },
@@ -34,9 +46,17 @@ const TRANSACTION_FIELDS = [
   { key: 'notes', label: 'Notes', required: false, type: 'text' }
 ]
 
+// Debit and credit are folded into the amount, so the preview leaves them out
+const PREVIEW_FIELDS = TRANSACTION_FIELDS.filter(field => field.key !== 'debit' && field.key !== 'credit')
+
+const DATE_FORMATS: DateFormat[] = ['DD/MM/YYYY', 'DD/MM/YY', 'MM/DD/YYYY', 'YYYY-MM-DD']
+
 const FIELD_COLORS = {
   description: 'bg-blue-100 text-blue-800',
   amount: 'bg-green-100 text-green-800',
+  debit: 'bg-red-100 text-red-800',
+  credit: 'bg-emerald-100 text-emerald-800',
+  total_amount: 'bg-teal-100 text-teal-800',
   date: 'bg-purple-100 text-purple-800',
   currency: 'bg-indigo-100 text-indigo-800',
   identifier: 'bg-orange-100 text-orange-800',
@@ -48,11 +68,14 @@ export default function DataMappingTable({
   parseResult,
   onMappingChange,
   onValidationChange,
+  onNormalizeOptionsChange,
   initialMappings
 }: DataMappingTableProps) {
   const [mappings, setMappings] = useState<Record<string, string>>({})
   const [showPreview, setShowPreview] = useState(false)
   const [previewData, setPreviewData] = useState<Record<string, any>[]>([])
+  const [dateFormatOverride, setDateFormatOverride] = useState<DateFormat | null>(null)
+  const [expensesPositive, setExpensesPositive] = useState(false)
 
   // Initialize mappings with suggestions
   useEffect(() => {
@@ -60,6 +83,47 @@ export default function DataMappingTable({
     setMappings(suggested)
   }, [parseResult.headers, initialMappings])
 
+  // The date column is read with one format, inferred from all of its values
+  const dateColumn = Object.keys(mappings).find(header => mappings[header] === 'date')
+  const dateValues = useMemo(
+    () => dateColumn ? parseResult.data.map(row => row[dateColumn]) : [],
+    [dateColumn, parseResult.data]
+  )
+  const dateInference = useMemo(() => inferDateFormat(dateValues), [dateValues])
+  const dateFormat = dateFormatOverride || dateInference.format
+  const invalidDateCount = useMemo(
+    () => dateValues.filter(value => value && normalizeDate(value, dateFormat) === null).length,
+    [dateValues, dateFormat]
+  )
+
+  // Debit and credit columns are combined into the amount, so the sign toggle only applies to a single amount column
+  const mappedTargets = Object.values(mappings)
+  const hasDebitCredit = mappedTargets.includes('debit') || mappedTargets.includes('credit')
+  const hasAmount = mappedTargets.includes('amount') || hasDebitCredit
+  const normalizeOptions = useMemo((): NormalizeOptions => ({
+    dateFormat,
+    expensesPositive: expensesPositive && !hasDebitCredit
+  }), [dateFormat, expensesPositive, hasDebitCredit])
+
+  useEffect(() => {
+    onNormalizeOptionsChange?.(normalizeOptions)
+  }, [normalizeOptions, onNormalizeOptionsChange])
+
+  // Expense/income split of the whole file with the current amount mappings
+  const signSummary = useMemo(() => {
+    const amountMappings = Object.fromEntries(
+      Object.entries(mappings).filter(([, target]) => ['amount', 'debit', 'credit'].includes(target))
+    )
+    const amounts = normalizeCSVData(parseResult.data, amountMappings, undefined, normalizeOptions)
+      .map(row => row.amount)
+      .filter((amount): amount is number => typeof amount === 'number')
+
+    return {
+      expenses: amounts.filter(amount => amount < 0).length,
+      income: amounts.filter(amount => amount > 0).length
+    }
+  }, [mappings, parseResult.data, normalizeOptions])
+
   // Generate field mappings with validation
   const fieldMappings = useMemo((): FieldMapping[] => {
     return parseResult.headers.map(header => {
@@ -83,8 +147,7 @@ export default function DataMappingTable({
               validationMessage = 'Sample value is not numeric'
             }
           } else if (fieldConfig?.type === 'date') {
-            const date = new Date(sampleValue)
-            if (isNaN(date.getTime())) {
+            if (normalizeDate(sampleValue, dateFormat) === null) {
               isValid = false
               validationMessage = 'Sample value is not a valid date'
             }
@@ -100,7 +163,7 @@ export default function DataMappingTable({
         validationMessage
       }
     })
-  }, [mappings, parseResult.headers, parseResult.data])
+  }, [mappings, parseResult.headers, parseResult.data, dateFormat])
 
   // Update parent components when mappings change
   useEffect(() => {
@@ -116,7 +179,11 @@ export default function DataMappingTable({
     // Check if all required fields are mapped
     const requiredFields = TRANSACTION_FIELDS.filter(f => f.required)
     const mappedTargetFields = Object.values(validMappings)
-    const missingRequired = requiredFields.filter(f => !mappedTargetFields.includes(f.key))
+    // Debit and credit columns stand in for the amount
+    const amountMapped = ['amount', 'debit', 'credit'].some(field => mappedTargetFields.includes(field))
+    const missingRequired = requiredFields.filter(f =>
+      f.key === 'amount' ? !amountMapped : !mappedTargetFields.includes(f.key)
+    )
     const validationErrors = fieldMappings.filter(fm => !fm.isValid).map(fm => fm.validationMessage || '')
     
     const allErrors = [
@@ -128,10 +195,10 @@ export default function DataMappingTable({
     
     // Generate preview data
     if (Object.keys(validMappings).length > 0) {
-      const normalized = normalizeCSVData(parseResult.data.slice(0, 5), validMappings)
+      const normalized = normalizeCSVData(parseResult.data.slice(0, 5), validMappings, undefined, normalizeOptions)
       setPreviewData(normalized)
     }
-  }, [fieldMappings, onMappingChange, onValidationChange, parseResult.data])
+  }, [fieldMappings, onMappingChange, onValidationChange, parseResult.data, normalizeOptions])
 
   const handleMappingChange = (sourceField: string, targetField: string) => {
     setMappings(prev => ({
@@ -141,8 +208,10 @@ export default function DataMappingTable({
   }
 
   const resetMappings = () => {
-    const suggested = suggestFieldMappings(parseResult.headers)
+    const suggested = initialMappings || suggestFieldMappings(parseResult.headers)
     setMappings(suggested)
+    setDateFormatOverride(null)
+    setExpensesPositive(false)
   }
 
   const getAvailableTargetFields = (currentSourceField: string) => {
@@ -254,6 +323,94 @@ export default function DataMappingTable({
         </CardContent>
       </Card>
 
+      {/* Date Format */}
+      {dateColumn && dateInference.format && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <CalendarDays className="h-4 w-4" />
+              Date Format
+            </CardTitle>
+            <CardDescription>
+              Every value in &quot;{dateColumn}&quot; is read with this format
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center gap-4">
+              <Select
+                value={dateFormatOverride || 'auto'}
+                onValueChange={(value) => setDateFormatOverride(value === 'auto' ? null : value as DateFormat)}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto-detect ({dateInference.format})</SelectItem>
+                  {DATE_FORMATS.map(format => (
+                    <SelectItem key={format} value={format}>{format}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!dateFormatOverride && (
+                <Badge variant={dateInference.basis === 'default' ? 'outline' : 'secondary'} className="text-xs">
+                  {dateInference.basis === 'default' ? 'Ambiguous' : 'Detected'}
+                </Badge>
+              )}
+            </div>
+            {!dateFormatOverride && (
+              <p className="text-xs text-gray-500">{dateInference.reason}</p>
+            )}
+            {invalidDateCount > 0 && (
+              <div className="flex items-center gap-1 text-red-500">
+                <AlertCircle className="h-4 w-4" />
+                <span className="text-xs">{invalidDateCount} date(s) do not match {dateFormat}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Amount Signs */}
+      {hasAmount && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <ArrowDownUp className="h-4 w-4" />
+              Amount Signs
+            </CardTitle>
+            <CardDescription>
+              {hasDebitCredit
+                ? 'Debit and credit columns are combined: credit minus debit'
+                : 'Expenses are imported as negative amounts and income as positive'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!hasDebitCredit && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="expenses-positive"
+                  checked={expensesPositive}
+                  onChange={(e) => setExpensesPositive(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <label htmlFor="expenses-positive" className="text-sm font-medium cursor-pointer">
+                  Expenses are positive in this file (typical for credit-card statements)
+                </label>
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="secondary" className="bg-red-100 text-red-800">
+                {signSummary.expenses} expenses
+              </Badge>
+              <Badge variant="secondary" className="bg-green-100 text-green-800">
+                {signSummary.income} income
+              </Badge>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Preview Section */}
       {showPreview && previewData.length > 0 && (
         <Card>
@@ -268,7 +425,7 @@ export default function DataMappingTable({
               <table className="w-full text-sm">
                 <thead>
                   <tr className="border-b">
-                    {TRANSACTION_FIELDS.map(field => (
+                    {PREVIEW_FIELDS.map(field => (
                       <th key={field.key} className="text-left p-2 font-medium">
                         <Badge 
                           variant="secondary" 
@@ -283,10 +440,10 @@ export default function DataMappingTable({
                 <tbody>
                   {previewData.map((row, index) => (
                     <tr key={index} className="border-b">
-                      {TRANSACTION_FIELDS.map(field => (
+                      {PREVIEW_FIELDS.map(field => (
                         <td key={field.key} className="p-2">
                           {row[field.key] !== null && row[field.key] !== undefined ? (
-                            <span className={field.key === 'amount' ? 'font-mono' : ''}>
+                            <span className={field.key === 'amount' ? `font-mono ${row.amount < 0 ? 'text-red-600' : 'text-green-600'}` : ''}>
                               {field.key === 'amount' && typeof row[field.key] === 'number' 
                                 ? row[field.key].toFixed(2)
                                 : String(row[field.key])}
@@ -0,0 +1,152 @@
+'use client'
+
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle, Copy } from 'lucide-react'
+import type { DuplicateResolution, DuplicateReviewItem } from '@/services/importService'
+
+interface DuplicateReviewProps {
+  items: DuplicateReviewItem[]
+  resolutions: Record<number, DuplicateResolution>
+  onResolutionsChange: (resolutions: Record<number, DuplicateResolution>) => void
+}
+
+const RESOLUTION_OPTIONS: { value: DuplicateResolution; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep the existing transaction, drop the row' },
+  { value: 'import', label: 'Import', description: 'Import the row alongside the existing transaction' },
+  { value: 'replace', label: 'Replace', description: 'Overwrite the existing transaction with the row, keeping its labels and status' },
+  { value: 'merge-notes', label: 'Merge notes', description: 'Add the row\'s notes to the existing transaction' }
+]
+
+const formatAmount = (amount: unknown) =>
+  typeof amount === 'number' ? amount.toFixed(2) : String(amount ?? '—')
+
+const amountColor = (amount: unknown) =>
+  typeof amount === 'number' && amount < 0 ? 'text-red-600' : 'text-green-600'
+
+/**
+ * Incoming rows next to the existing transactions they match, with a choice per row
+ */
+export default function DuplicateReview({ items, resolutions, onResolutionsChange }: DuplicateReviewProps) {
+  if (items.length === 0) {
+    return (
+      <div className="flex items-center gap-2 p-4 bg-green-50 border border-green-200 rounded-lg">
+        <CheckCircle className="h-5 w-5 text-green-600" />
+        <div>
+          <p className="font-medium text-green-800">No duplicates found</p>
+          <p className="text-sm text-green-700">
+            None of the rows match transactions you already have
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const setAll = (resolution: DuplicateResolution) => {
+    onResolutionsChange(Object.fromEntries(items.map(item => [item.importIndex, resolution])))
+  }
+
+  const setOne = (importIndex: number, resolution: DuplicateResolution) => {
+    onResolutionsChange({ ...resolutions, [importIndex]: resolution })
+  }
+
+  const counts = RESOLUTION_OPTIONS.map(option => ({
+    ...option,
+    count: items.filter(item => resolutions[item.importIndex] === option.value).length
+  }))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Copy className="h-5 w-5 text-yellow-600" />
+          <span className="font-medium">
+            {items.length} row{items.length !== 1 ? 's' : ''} match existing transactions
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">Apply to all:</span>
+          {RESOLUTION_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              variant="outline"
+              size="sm"
+              onClick={() => setAll(option.value)}
+              title={option.description}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        {counts.filter(option => option.count > 0).map(option => (
+          <Badge key={option.value} variant="secondary" className="text-xs">
+            {option.label}: {option.count}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-2 font-medium">Row</th>
+              <th className="text-left p-2 font-medium">Incoming</th>
+              <th className="text-left p-2 font-medium">Existing transaction</th>
+              <th className="text-left p-2 font-medium">Similarity</th>
+              <th className="text-left p-2 font-medium">Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(({ importIndex, row, match }) => (
+              <tr key={importIndex} className="border-b align-top">
+                <td className="p-2 text-gray-500">{importIndex + 1}</td>
+                <td className="p-2">
+                  <div className="font-medium">{row.description}</div>
+                  <div className="text-xs text-gray-500">
+                    {row.date} · <span className={`font-mono ${amountColor(row.amount)}`}>{formatAmount(row.amount)}</span>
+                  </div>
+                  {row.notes && <div className="text-xs text-gray-500 mt-0.5">{row.notes}</div>}
+                </td>
+                <td className="p-2">
+                  <div className="font-medium">{match.existingTransaction.description}</div>
+                  <div className="text-xs text-gray-500">
+                    {match.existingTransaction.date} · <span className={`font-mono ${amountColor(match.existingTransaction.amount)}`}>
+                      {formatAmount(match.existingTransaction.amount)}
+                    </span>
+                  </div>
+                </td>
+                <td className="p-2">
+                  <Badge variant="outline" className={match.similarity >= 0.95 ? 'border-red-500 text-red-700' : 'border-yellow-500 text-yellow-700'}>
+                    {Math.round(match.similarity * 100)}%
+                  </Badge>
+                </td>
+                <td className="p-2">
+                  <Select
+                    value={resolutions[importIndex]}
+                    onValueChange={(value) => setOne(importIndex, value as DuplicateResolution)}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RESOLUTION_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
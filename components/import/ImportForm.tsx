@@ -14,25 +14,85 @@ import {
   X,
   ArrowRight,
   ArrowLeft,
-  Download
+  Download,
+  Copy
 } from 'lucide-react'
-import { parseCSV, parseJSON, validateCSVStructure, analyzeCurrencyFromCSV, CSVParseResult } from '@/utils/importUtils'
+import { parseCSVFile, parseJSON, validateCSVStructure, analyzeCurrencyFromCSV, CSVParseResult, NormalizeOptions } from '@/utils/importUtils'
+import {
+  BANK_PRESETS,
+  BankPreset,
+  BankPresetId,
+  detectBankPreset,
+  applyBankPreset,
+  getBankPreset,
+  getPresetFieldMappings,
+  describeBankPreset
+} from '@/utils/bankPresets'
+import { parseOFX, isOFXContent, OFX_FIELD_MAPPINGS } from '@/utils/ofxParser'
+import { readWorkbook, parseSpreadsheet, getSheetRows, isSpreadsheetFile } from '@/utils/spreadsheetParser'
+import type { WorkBook } from 'xlsx'
+import { toast } from 'sonner'
 
 import { CurrencyCode } from '@/types/database'
+import { ImportService } from '@/services/importService'
+import type { DuplicateResolution, DuplicateReviewItem, ImportBatchInfo, ImportOptions, ImportProgress } from '@/services/importService'
+import { useAuth } from '@/context/auth'
 import DataMappingTable from './DataMappingTable'
+import DuplicateReview from './DuplicateReview'
 
-type ImportStep = 'upload' | 'mapping' | 'validation' | 'confirmation'
+type ImportStep = 'upload' | 'mapping' | 'validation' | 'duplicates' | 'confirmation'
+
+const IMPORT_STEPS: ImportStep[] = ['upload', 'mapping', 'validation', 'duplicates', 'confirmation']
+
+// Options chosen in the form that the import service applies
+export type ImportFormOptions = NormalizeOptions & Pick<ImportOptions, 'duplicateResolutions'>
+
+type FileFormat = 'csv' | 'json' | 'ofx' | 'spreadsheet'
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.json', '.ofx', '.qfx', '.xlsx', '.xls']
+
+// How many leading rows can be picked as the header of a spreadsheet
+const HEADER_ROW_CHOICES = 30
+
+const isSupportedFile = (file: File) =>
+  SUPPORTED_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))
 
 interface ImportFormProps {
-  onImport: (data: any[], mappings: Record<string, string>, defaultCurrency: CurrencyCode) => Promise<void>
+  onImport: (
+    data: any[],
+    mappings: Record<string, string>,
+    defaultCurrency: CurrencyCode,
+    options: ImportFormOptions,
+    batch: ImportBatchInfo
+  ) => Promise<void>
   onCancel: () => void
 }
 
+interface SpreadsheetState {
+  workbook: WorkBook
+  sheetName: string
+  headerRowIndex: number
+  skippedRows: number
+  rowPreviews: string[] // leading rows, for picking the header row
+}
+
 interface ImportState {
   step: ImportStep
   file: File | null
+  fileFormat: FileFormat
+  parseProgress: ImportProgress | null // while a large CSV file is being read
+  spreadsheet: SpreadsheetState | null
+  rawParseResult: CSVParseResult | null // as parsed, before a preset rewrites dates and amounts
   parseResult: CSVParseResult | null
+  preset: BankPreset | null
+  detectedPresetId: BankPresetId | null
+  presetConfidence: number
+  initialMappings: Record<string, string> | undefined // preset or format mappings, replacing header guesses
   fieldMappings: Record<string, string>
+  normalizeOptions: NormalizeOptions // date format and amount signs chosen in the mapping step
+  duplicates: DuplicateReviewItem[]
+  duplicateResolutions: Record<number, DuplicateResolution> // by row index
+  isCheckingDuplicates: boolean
   validationErrors: string[]
   isValid: boolean
   isImporting: boolean
@@ -46,8 +106,20 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
   const [state, setState] = useState<ImportState>({
     step: 'upload',
     file: null,
+    fileFormat: 'csv',
+    parseProgress: null,
+    spreadsheet: null,
+    rawParseResult: null,
     parseResult: null,
+    preset: null,
+    detectedPresetId: null,
+    presetConfidence: 0,
+    initialMappings: undefined,
     fieldMappings: {},
+    normalizeOptions: {},
+    duplicates: [],
+    duplicateResolutions: {},
+    isCheckingDuplicates: false,
     validationErrors: [],
     isValid: false,
     isImporting: false,
@@ -57,35 +129,140 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
     currencyConfidence: 0
   })
 
+  const { user } = useAuth()
+
+  /**
+   * State for freshly parsed data: detects a statement preset and picks the initial field mappings
+   */
+  const prepareParseResult = (rawParseResult: CSVParseResult, fileFormat: FileFormat) => {
+    // Bank and card statements are recognized by their headers
+    const detection = fileFormat === 'csv' || fileFormat === 'spreadsheet'
+      ? detectBankPreset(rawParseResult.headers)
+      : null
+    const preset = detection?.preset || null
+    const parseResult = preset ? applyBankPreset(rawParseResult, preset) : rawParseResult
+    const structureValidation = validateCSVStructure(parseResult)
+    
+    let initialMappings: Record<string, string> | undefined
+    if (preset) {
+      initialMappings = getPresetFieldMappings(parseResult.headers, preset)
+    } else if (fileFormat === 'ofx') {
+      initialMappings = Object.fromEntries(
+        Object.entries(OFX_FIELD_MAPPINGS).filter(([header]) => parseResult.headers.includes(header))
+      )
+    }
+    
+    return {
+      fileFormat,
+      rawParseResult,
+      parseResult,
+      preset,
+      detectedPresetId: preset?.id || null,
+      presetConfidence: detection?.confidence || 0,
+      initialMappings,
+      validationErrors: structureValidation.errors,
+      isValid: structureValidation.isValid
+    }
+  }
+
+  const loadSheet = (workbook: WorkBook, sheetName: string, headerRowIndex?: number) => {
+    const result = parseSpreadsheet(workbook, sheetName, headerRowIndex)
+    const rowPreviews = getSheetRows(workbook, sheetName)
+      .slice(0, HEADER_ROW_CHOICES)
+      .map(row => row.filter(Boolean).slice(0, 4).join(' | '))
+    
+    return {
+      spreadsheet: {
+        workbook,
+        sheetName,
+        headerRowIndex: result.headerRowIndex,
+        skippedRows: result.skippedRows,
+        rowPreviews
+      },
+      ...prepareParseResult(result, 'spreadsheet')
+    }
+  }
+
   const handleFileUpload = useCallback((file: File) => {
-    const reader = new FileReader()
-    reader.onload = (e) => {
-      const content = e.target?.result as string
-      if (content) {
-        let parseResult: CSVParseResult;
+    if (isSpreadsheetFile(file.name)) {
+      const reader = new FileReader()
+      reader.onload = (e) => {
+        const buffer = e.target?.result as ArrayBuffer
+        if (!buffer) return
         
-        // Detect file type and use appropriate parser
-        if (file.name.toLowerCase().endsWith('.json')) {
-          parseResult = parseJSON(content)
-        } else {
-          parseResult = parseCSV(content)
+        try {
+          const workbook = readWorkbook(buffer)
+          setState(prev => ({
+            ...prev,
+            file,
+            ...loadSheet(workbook, workbook.SheetNames[0]),
+            step: 'mapping'
+          }))
+        } catch (error) {
+          console.error('Failed to read spreadsheet:', error)
+          toast.error(`Could not read ${file.name}`)
         }
-        
-        const structureValidation = validateCSVStructure(parseResult)
-        
+      }
+      reader.readAsArrayBuffer(file)
+      return
+    }
+    
+    const parseTextFile = async (): Promise<[CSVParseResult, FileFormat]> => {
+      // Detect file type and use appropriate parser
+      if (file.name.toLowerCase().endsWith('.json')) {
+        return [parseJSON(await file.text()), 'json']
+      }
+      
+      // Some banks export OFX with a .qfx or even .csv extension
+      if (isOFXContent(await file.slice(0, 1000).text())) {
+        return [parseOFX(await file.text()), 'ofx']
+      }
+      
+      // CSV is read in chunks so large exports show progress
+      const result = await parseCSVFile(file, progress => {
+        setState(prev => ({ ...prev, parseProgress: progress }))
+      })
+      return [result, 'csv']
+    }
+    
+    parseTextFile()
+      .then(([rawParseResult, fileFormat]) => {
         setState(prev => ({
           ...prev,
           file,
-          parseResult,
-          step: 'mapping',
-          validationErrors: structureValidation.errors,
-          isValid: structureValidation.isValid
+          parseProgress: null,
+          spreadsheet: null,
+          ...prepareParseResult(rawParseResult, fileFormat),
+          step: 'mapping'
         }))
-      }
-    }
-    reader.readAsText(file)
+      })
+      .catch(error => {
+        console.error('Failed to read file:', error)
+        toast.error(`Could not read ${file.name}`)
+        setState(prev => ({ ...prev, parseProgress: null }))
+      })
   }, [])
 
+  const handleSheetChange = (sheetName: string, headerRowIndex?: number) => {
+    if (!state.spreadsheet) return
+    const { workbook } = state.spreadsheet
+    setState(prev => ({ ...prev, ...loadSheet(workbook, sheetName, headerRowIndex) }))
+  }
+
+  const handlePresetChange = (presetId: string) => {
+    if (!state.rawParseResult) return
+
+    const preset = getBankPreset(presetId)
+    const parseResult = preset ? applyBankPreset(state.rawParseResult, preset) : state.rawParseResult
+
+    setState(prev => ({
+      ...prev,
+      preset,
+      parseResult,
+      initialMappings: preset ? getPresetFieldMappings(parseResult.headers, preset) : undefined
+    }))
+  }
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
   }
@@ -93,10 +270,7 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     const files = Array.from(e.dataTransfer.files)
-    const dataFile = files.find(file => 
-      file.name.toLowerCase().endsWith('.csv') || 
-      file.name.toLowerCase().endsWith('.json')
-    )
+    const dataFile = files.find(isSupportedFile)
     if (dataFile) {
       handleFileUpload(dataFile)
     }
@@ -104,7 +278,7 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
-    if (file && (file.name.toLowerCase().endsWith('.csv') || file.name.toLowerCase().endsWith('.json'))) {
+    if (file && isSupportedFile(file)) {
       handleFileUpload(file)
     }
   }
@@ -116,6 +290,10 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
     }))
   }, [])
 
+  const handleNormalizeOptionsChange = useCallback((normalizeOptions: NormalizeOptions) => {
+    setState(prev => ({ ...prev, normalizeOptions }))
+  }, [])
+
   const handleValidationChange = useCallback((isValid: boolean, errors: string[]) => {
     setState(prev => ({
       ...prev,
@@ -124,10 +302,42 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
     }))
   }, [])
 
+  /**
+   * Finds rows that match existing transactions; each starts out skipped
+   */
+  const checkDuplicates = async () => {
+    if (!state.parseResult || !user) return
+
+    setState(prev => ({ ...prev, isCheckingDuplicates: true }))
+    try {
+      const importService = new ImportService()
+      const duplicates = await importService.reviewDuplicates(
+        state.parseResult.data,
+        state.fieldMappings,
+        state.defaultCurrency,
+        user.id,
+        state.normalizeOptions
+      )
+      setState(prev => ({
+        ...prev,
+        step: 'duplicates',
+        duplicates,
+        duplicateResolutions: Object.fromEntries(duplicates.map(item => [item.importIndex, 'skip' as const])),
+        isCheckingDuplicates: false
+      }))
+    } catch (error) {
+      console.error('Error checking for duplicates:', error)
+      toast.error('Could not check for duplicates')
+      setState(prev => ({ ...prev, isCheckingDuplicates: false }))
+    }
+  }
+
   const handleNextStep = () => {
     if (state.step === 'mapping') {
       setState(prev => ({ ...prev, step: 'validation' }))
     } else if (state.step === 'validation') {
+      checkDuplicates()
+    } else if (state.step === 'duplicates') {
       setState(prev => ({ ...prev, step: 'confirmation' }))
     }
   }
@@ -135,8 +345,10 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
   const handlePrevStep = () => {
     if (state.step === 'validation') {
       setState(prev => ({ ...prev, step: 'mapping' }))
-    } else if (state.step === 'confirmation') {
+    } else if (state.step === 'duplicates') {
       setState(prev => ({ ...prev, step: 'validation' }))
+    } else if (state.step === 'confirmation') {
+      setState(prev => ({ ...prev, step: 'duplicates' }))
     }
   }
 
@@ -154,7 +366,14 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
         }))
       }, 200)
 
-      await onImport(state.parseResult.data, state.fieldMappings, state.defaultCurrency)
+      await onImport(state.parseResult.data, state.fieldMappings, state.defaultCurrency, {
+        ...state.normalizeOptions,
+        duplicateResolutions: state.duplicateResolutions
+      }, {
+        fileName: state.file?.name || 'import',
+        fileFormat: state.fileFormat,
+        presetId: state.preset?.id || null
+      })
 
       clearInterval(progressInterval)
       setState(prev => ({ ...prev, importProgress: 100 }))
@@ -174,6 +393,7 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
       case 'upload': return <Upload className="h-4 w-4" />
       case 'mapping': return <Settings className="h-4 w-4" />
       case 'validation': return <CheckCircle className="h-4 w-4" />
+      case 'duplicates': return <Copy className="h-4 w-4" />
       case 'confirmation': return <FileText className="h-4 w-4" />
     }
   }
@@ -183,6 +403,7 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
       case 'upload': return 'Upload File'
       case 'mapping': return 'Map Fields'
       case 'validation': return 'Validate Data'
+      case 'duplicates': return 'Review Duplicates'
       case 'confirmation': return 'Confirm Import'
     }
   }
@@ -192,7 +413,7 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
       <div className="text-center">
         <h3 className="text-lg font-semibold mb-2">Upload Data File</h3>
         <p className="text-gray-600">
-          Choose a CSV or JSON file containing your transaction data
+          Choose a CSV, Excel, JSON or OFX/QFX file containing your transaction data
         </p>
       </div>
 
@@ -202,11 +423,11 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
         className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-gray-400 transition-colors"
       >
         <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-        <p className="text-lg font-medium mb-2">Drag and drop your CSV or JSON file here</p>
+        <p className="text-lg font-medium mb-2">Drag and drop your CSV, Excel, JSON or OFX file here</p>
         <p className="text-gray-600 mb-4">or</p>
         <input
           type="file"
-          accept=".csv,.json"
+          accept={SUPPORTED_EXTENSIONS.join(',')}
           onChange={handleFileSelect}
           className="hidden"
           id="file-upload"
@@ -220,6 +441,21 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
         </label>
       </div>
 
+      {state.parseProgress && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">{state.parseProgress.message}</span>
+            <span className="text-sm text-gray-600">{state.parseProgress.percentage}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div 
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${state.parseProgress.percentage}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="bg-blue-50 p-4 rounded-lg">
           <h4 className="font-medium mb-2">CSV Requirements:</h4>
@@ -228,7 +464,9 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
             <li>• Required columns: Description, Amount, Date</li>
             <li>• Optional columns: Identifier, Source, Notes</li>
             <li>• Amounts can include currency symbols</li>
+            <li>• UTF-8 and Windows-1255 (Hebrew) encodings are supported</li>
             <li>• Dates can be in various formats (MM/DD/YYYY, DD/MM/YYYY, etc.)</li>
+            <li>• Leumi, Hapoalim, Discount, Isracard, Max and Cal exports are recognized automatically</li>
           </ul>
         </div>
 
@@ -243,6 +481,22 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
           </ul>
         </div>
       </div>
+
+      <div className="bg-gray-50 p-4 rounded-lg">
+        <h4 className="font-medium mb-2">Excel Statements (XLSX/XLS):</h4>
+        <p className="text-sm text-gray-700">
+          The header row is found below any title rows and total rows are skipped. You can pick another sheet
+          or header row in the next step.
+        </p>
+      </div>
+
+      <div className="bg-gray-50 p-4 rounded-lg">
+        <h4 className="font-medium mb-2">OFX/QFX Statements:</h4>
+        <p className="text-sm text-gray-700">
+          OFX 1.x and 2.x bank and card statements are mapped automatically: FITID becomes the identifier,
+          TRNAMT the amount and CURDEF the currency.
+        </p>
+      </div>
     </div>
   )
 
@@ -260,11 +514,83 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
         </Badge>
       </div>
 
+      {state.spreadsheet && (
+        <div className="flex flex-wrap items-end gap-4 p-4 bg-gray-50 border rounded-lg">
+          {state.spreadsheet.workbook.SheetNames.length > 1 && (
+            <div className="space-y-1">
+              <label className="block font-medium text-sm">Sheet</label>
+              <select
+                value={state.spreadsheet.sheetName}
+                onChange={(e) => handleSheetChange(e.target.value)}
+                className="px-2 py-1 border rounded text-sm"
+              >
+                {state.spreadsheet.workbook.SheetNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-1 min-w-0 flex-1">
+            <label className="block font-medium text-sm">Header row</label>
+            <select
+              value={state.spreadsheet.headerRowIndex}
+              onChange={(e) => handleSheetChange(state.spreadsheet!.sheetName, Number(e.target.value))}
+              className="px-2 py-1 border rounded text-sm w-full max-w-md"
+            >
+              {state.spreadsheet.rowPreviews.map((preview, index) => (
+                <option key={index} value={index}>
+                  Row {index + 1}: {preview || '(empty)'}
+                </option>
+              ))}
+            </select>
+          </div>
+          {state.spreadsheet.skippedRows > 0 && (
+            <p className="text-xs text-gray-600">
+              {state.spreadsheet.skippedRows} title, total or blank row{state.spreadsheet.skippedRows !== 1 ? 's' : ''} skipped
+            </p>
+          )}
+        </div>
+      )}
+
+      {state.rawParseResult && (state.fileFormat === 'csv' || state.fileFormat === 'spreadsheet') && (
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-gray-50 border rounded-lg">
+          <div>
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-sm">Statement preset</span>
+              {state.preset && state.preset.id === state.detectedPresetId && (
+                <Badge variant="secondary" className="text-xs">
+                  Auto-detected ({Math.round(state.presetConfidence * 100)}% header match)
+                </Badge>
+              )}
+            </div>
+            <p className="text-xs text-gray-600">
+              {state.preset
+                ? describeBankPreset(state.preset)
+                : 'Generic CSV: fields are guessed from English headers'}
+            </p>
+          </div>
+          <select
+            value={state.preset?.id || 'none'}
+            onChange={(e) => handlePresetChange(e.target.value)}
+            className="px-2 py-1 border rounded text-sm"
+          >
+            <option value="none">Generic CSV</option>
+            {BANK_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}{preset.id === state.detectedPresetId ? ' (detected)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {state.parseResult && (
         <DataMappingTable
           parseResult={state.parseResult}
           onMappingChange={handleMappingChange}
           onValidationChange={handleValidationChange}
+          onNormalizeOptionsChange={handleNormalizeOptionsChange}
+          initialMappings={state.initialMappings}
         />
       )}
 
@@ -337,8 +663,39 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
         </Button>
         <Button
           onClick={handleNextStep}
-          disabled={!state.isValid}
+          disabled={!state.isValid || state.isCheckingDuplicates}
+        >
+          {state.isCheckingDuplicates ? 'Checking for duplicates...' : 'Next: Review Duplicates'}
+          <ArrowRight className="h-4 w-4 ml-2" />
+        </Button>
+      </div>
+    </div>
+  )
+
+  const renderDuplicatesStep = () => (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Review Duplicates</h3>
+        <p className="text-gray-600">
+          Decide what to do with rows that look like transactions you already have
+        </p>
+      </div>
+
+      <DuplicateReview
+        items={state.duplicates}
+        resolutions={state.duplicateResolutions}
+        onResolutionsChange={(duplicateResolutions) => setState(prev => ({ ...prev, duplicateResolutions }))}
+      />
+
+      <div className="flex justify-between">
+        <Button
+          variant="outline"
+          onClick={handlePrevStep}
         >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Validation
+        </Button>
+        <Button onClick={handleNextStep}>
           Next: Confirm Import
           <ArrowRight className="h-4 w-4 ml-2" />
         </Button>
@@ -375,6 +732,30 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
               <span className="text-sm text-gray-600">Rows:</span>
               <span className="text-sm font-medium">{state.parseResult?.rowCount || 0}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-gray-600">Preset:</span>
+              <span className="text-sm font-medium">{state.preset?.name || 'Generic'}</span>
+            </div>
+            {state.normalizeOptions.dateFormat && (
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Date format:</span>
+                <span className="text-sm font-medium">{state.normalizeOptions.dateFormat}</span>
+              </div>
+            )}
+            {state.duplicates.length > 0 && (
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Duplicates:</span>
+                <span className="text-sm font-medium">
+                  {Object.values(state.duplicateResolutions).filter(resolution => resolution !== 'skip').length} of {state.duplicates.length} kept
+                </span>
+              </div>
+            )}
+            {state.normalizeOptions.expensesPositive && (
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Amount signs:</span>
+                <span className="text-sm font-medium">Expenses positive (flipped)</span>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -417,7 +798,7 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
           disabled={state.isImporting}
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
-          Back to Validation
+          Back to Duplicates
         </Button>
         <Button
           onClick={handleImport}
@@ -446,20 +827,20 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
           {/* Step Indicator */}
           <div className="mb-8">
             <div className="flex items-center justify-between">
-              {(['upload', 'mapping', 'validation', 'confirmation'] as ImportStep[]).map((step, index) => (
+              {IMPORT_STEPS.map((step, index) => (
                 <div key={step} className="flex items-center">
                   <div className={`flex items-center justify-center w-8 h-8 rounded-full border-2 ${
                     state.step === step 
                       ? 'bg-blue-600 border-blue-600 text-white' 
-                      : index < (['upload', 'mapping', 'validation', 'confirmation'] as ImportStep[]).indexOf(state.step)
+                      : index < IMPORT_STEPS.indexOf(state.step)
                       ? 'bg-green-600 border-green-600 text-white'
                       : 'bg-gray-100 border-gray-300 text-gray-600'
                   }`}>
                     {getStepIcon(step)}
                   </div>
-                  {index < 3 && (
+                  {index < IMPORT_STEPS.length - 1 && (
                     <div className={`w-16 h-0.5 ${
-                      index < (['upload', 'mapping', 'validation', 'confirmation'] as ImportStep[]).indexOf(state.step)
+                      index < IMPORT_STEPS.indexOf(state.step)
                         ? 'bg-green-600' 
                         : 'bg-gray-300'
                     }`} />
@@ -468,7 +849,7 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
               ))}
             </div>
             <div className="flex items-center justify-between mt-2">
-              {(['upload', 'mapping', 'validation', 'confirmation'] as ImportStep[]).map((step) => (
+              {IMPORT_STEPS.map((step) => (
                 <div key={step} className="text-xs text-gray-600">
                   {getStepTitle(step)}
                 </div>
@@ -480,6 +861,7 @@ export default function ImportForm({ onImport, onCancel }: ImportFormProps) {
           {state.step === 'upload' && renderUploadStep()}
           {state.step === 'mapping' && renderMappingStep()}
           {state.step === 'validation' && renderValidationStep()}
+          {state.step === 'duplicates' && renderDuplicatesStep()}
           {state.step === 'confirmation' && renderConfirmationStep()}
         </CardContent>
       </Card>
@@ -6,28 +6,17 @@ import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Label, Transaction } from '@/types/database'
-import { Plus, X, Play, Save, Filter, Calendar, DollarSign, FileText, MapPin, Tag, AlertCircle } from 'lucide-react'
+import { Filter, FilterCondition, Label, RuleConditionField, RuleConditionOperator, Transaction } from '@/types/database'
+import { Plus, X, Play, Save, Filter as FilterIcon, Calendar, DollarSign, FileText, MapPin, Tag, AlertCircle } from 'lucide-react'
 import { toast } from 'sonner'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/context/auth'
+import { compileSafeRegex, isMissingValue, isValuelessOperator } from '@/lib/condition-operators'
 
-export type FilterField = 'description' | 'amount' | 'date' | 'source' | 'status' | 'label'
-export type FilterOperator = 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'greater_than' | 'less_than' | 'between' | 'in' | 'not_in'
-
-export interface FilterCondition {
-  id: string
-  field: FilterField
-  operator: FilterOperator
-  value: any
-}
-
-export interface Filter {
-  id?: string
-  name?: string
-  conditions: FilterCondition[]
-  conjunction: 'AND' | 'OR'
-}
+// Filters use the rule condition model, so searches and rules are interchangeable
+export type FilterField = RuleConditionField
+export type FilterOperator = RuleConditionOperator
+export type { Filter, FilterCondition }
 
 interface FilterBuilderProps {
   initialFilter?: Filter
@@ -48,13 +37,19 @@ const FIELD_OPTIONS = [
 
 const TEXT_OPERATORS = [
   { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
   { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
   { value: 'starts_with', label: 'starts with' },
-  { value: 'ends_with', label: 'ends with' }
+  { value: 'ends_with', label: 'ends with' },
+  { value: 'matches_regex', label: 'matches regex' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' }
 ] as const
 
 const NUMBER_OPERATORS = [
   { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
   { value: 'greater_than', label: 'greater than' },
   { value: 'less_than', label: 'less than' },
   { value: 'between', label: 'between' }
@@ -63,7 +58,7 @@ const NUMBER_OPERATORS = [
 const STATUS_OPTIONS = [
   { value: 'pending', label: 'Pending' },
   { value: 'approved', label: 'Approved' },
-  { value: 'cancelled', label: 'Cancelled' }
+  { value: 'ignored', label: 'Ignored' }
 ] as const
 
 export default function FilterBuilder({ 
@@ -140,11 +135,11 @@ export default function FilterBuilder({
   }
 
   const resetConditionValue = (conditionId: string, field: FilterField) => {
-    let defaultValue = ''
+    let defaultValue: FilterCondition['value'] = ''
     
     switch (field) {
       case 'amount':
-        defaultValue = '0'
+        defaultValue = 0
         break
       case 'date':
         defaultValue = new Date().toISOString().split('T')[0]
@@ -188,7 +183,7 @@ export default function FilterBuilder({
         return NUMBER_OPERATORS
       case 'status':
       case 'label':
-        return [{ value: 'equals', label: 'equals' }, { value: 'not_in', label: 'is not' }]
+        return [{ value: 'equals', label: 'is' }, { value: 'not_equals', label: 'is not' }]
       default:
         return TEXT_OPERATORS
     }
@@ -202,17 +197,21 @@ export default function FilterBuilder({
   const renderValueInput = (condition: FilterCondition) => {
     const { field, operator, value } = condition
 
+    if (isValuelessOperator(operator)) {
+      return <span className="flex-1 text-sm text-gray-500">No value needed</span>
+    }
+
     switch (field) {
       case 'amount':
         if (operator === 'between') {
-          const values = Array.isArray(value) ? value : [0, 0]
+          const values = Array.isArray(value) ? value as [number, number] : [0, 0]
           return (
             <div className="flex items-center gap-2">
               <Input
                 type="number"
                 value={values[0] || ''}
                 onChange={(e) => updateCondition(condition.id, { 
-                  value: [Number(e.target.value), values[1]] 
+                  value: [Number(e.target.value), Number(values[1])] 
                 })}
                 placeholder="Min"
                 className="w-20"
@@ -222,7 +221,7 @@ export default function FilterBuilder({
                 type="number"
                 value={values[1] || ''}
                 onChange={(e) => updateCondition(condition.id, { 
-                  value: [values[0], Number(e.target.value)] 
+                  value: [Number(values[0]), Number(e.target.value)] 
                 })}
                 placeholder="Max"
                 className="w-20"
@@ -233,7 +232,7 @@ export default function FilterBuilder({
         return (
           <Input
             type="number"
-            value={value || ''}
+            value={value as number || ''}
             onChange={(e) => updateCondition(condition.id, { value: Number(e.target.value) })}
             placeholder="Amount"
             className="w-24"
@@ -242,14 +241,14 @@ export default function FilterBuilder({
 
       case 'date':
         if (operator === 'between') {
-          const values = Array.isArray(value) ? value : ['', '']
+          const values = Array.isArray(value) ? value as [string, string] : ['', '']
           return (
             <div className="flex items-center gap-2">
               <Input
                 type="date"
                 value={values[0] || ''}
                 onChange={(e) => updateCondition(condition.id, { 
-                  value: [e.target.value, values[1]] 
+                  value: [e.target.value, String(values[1])] 
                 })}
                 className="w-36"
               />
@@ -258,7 +257,7 @@ export default function FilterBuilder({
                 type="date"
                 value={values[1] || ''}
                 onChange={(e) => updateCondition(condition.id, { 
-                  value: [values[0], e.target.value] 
+                  value: [String(values[0]), e.target.value] 
                 })}
                 className="w-36"
               />
@@ -268,7 +267,7 @@ export default function FilterBuilder({
         return (
           <Input
             type="date"
-            value={value || ''}
+            value={value as string || ''}
             onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
             className="w-36"
           />
@@ -277,7 +276,7 @@ export default function FilterBuilder({
       case 'status':
         return (
           <Select 
-            value={value || 'pending'} 
+            value={value as string || 'pending'} 
             onValueChange={(val) => updateCondition(condition.id, { value: val })}
           >
             <SelectTrigger className="w-32">
@@ -296,7 +295,7 @@ export default function FilterBuilder({
       case 'label':
         return (
           <Select 
-            value={value || ''} 
+            value={value as string || ''} 
             onValueChange={(val) => updateCondition(condition.id, { value: val })}
           >
             <SelectTrigger className="w-40">
@@ -322,26 +321,48 @@ export default function FilterBuilder({
         return (
           <Input
             type="text"
-            value={value || ''}
+            value={value as string || ''}
             onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
-            placeholder="Enter value"
+            placeholder={operator === 'matches_regex' ? 'Enter pattern' : 'Enter value'}
             className="flex-1"
           />
         )
     }
   }
 
+  const hasMissingValues = () => {
+    return filter.conditions.some(c => 
+      !isValuelessOperator(c.operator) && (isMissingValue(c.value) || (Array.isArray(c.value) && c.value.some(isMissingValue)))
+    )
+  }
+
+  const getRegexError = (condition: FilterCondition) => {
+    if (condition.operator !== 'matches_regex' || !condition.value) return null
+    return compileSafeRegex(String(condition.value)).error
+  }
+
+  const validateRegexConditions = () => {
+    const regexError = filter.conditions.map(getRegexError).find(Boolean)
+    if (regexError) {
+      toast.error(`Invalid regex: ${regexError}`)
+      return false
+    }
+    return true
+  }
+
   const handleSave = () => {
     if (!filterName.trim()) {
       toast.error('Please enter a filter name')
       return
     }
 
-    if (filter.conditions.some(c => !c.value || (Array.isArray(c.value) && c.value.some(v => !v)))) {
+    if (hasMissingValues()) {
       toast.error('All conditions must have values')
       return
     }
 
+    if (!validateRegexConditions()) return
+
     onSave?.({
       ...filter,
       name: filterName.trim()
@@ -349,11 +370,13 @@ export default function FilterBuilder({
   }
 
   const handleTest = () => {
-    if (filter.conditions.some(c => !c.value || (Array.isArray(c.value) && c.value.some(v => !v)))) {
+    if (hasMissingValues()) {
       toast.error('All conditions must have values to test')
       return
     }
 
+    if (!validateRegexConditions()) return
+
     onTest?.(filter)
   }
 
@@ -361,7 +384,7 @@ export default function FilterBuilder({
     <Card className="w-full">
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
-          <Filter size={20} />
+          <FilterIcon size={20} />
           Filter Builder
         </CardTitle>
         <CardDescription>
@@ -419,59 +442,65 @@ export default function FilterBuilder({
           <div className="space-y-3">
             {filter.conditions.map((condition, index) => {
               const FieldIcon = getFieldIcon(condition.field)
+              const regexError = getRegexError(condition)
               return (
-                <div key={condition.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
-                  {index > 0 && (
-                    <div className="text-xs font-medium text-gray-500 w-8">
-                      {filter.conjunction}
-                    </div>
-                  )}
+                <div key={condition.id} className="p-3 bg-gray-50 rounded-lg space-y-1">
+                  <div className="flex items-center gap-3">
+                    {index > 0 && (
+                      <div className="text-xs font-medium text-gray-500 w-8">
+                        {filter.conjunction}
+                      </div>
+                    )}
                   
-                  <div className="flex items-center gap-2">
-                    <FieldIcon size={16} className="text-gray-500" />
+                    <div className="flex items-center gap-2">
+                      <FieldIcon size={16} className="text-gray-500" />
+                      <Select 
+                        value={condition.field} 
+                        onValueChange={(val) => resetConditionValue(condition.id, val as FilterField)}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FIELD_OPTIONS.map(field => (
+                            <SelectItem key={field.value} value={field.value}>
+                              {field.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <Select 
-                      value={condition.field} 
-                      onValueChange={(val) => resetConditionValue(condition.id, val as FilterField)}
+                      value={condition.operator} 
+                      onValueChange={(val) => updateCondition(condition.id, { operator: val as FilterOperator })}
                     >
-                      <SelectTrigger className="w-28">
+                      <SelectTrigger className="w-32">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {FIELD_OPTIONS.map(field => (
-                          <SelectItem key={field.value} value={field.value}>
-                            {field.label}
+                        {getOperatorsForField(condition.field).map(op => (
+                          <SelectItem key={op.value} value={op.value}>
+                            {op.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
-                  </div>
 
-                  <Select 
-                    value={condition.operator} 
-                    onValueChange={(val) => updateCondition(condition.id, { operator: val as FilterOperator })}
-                  >
-                    <SelectTrigger className="w-32">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {getOperatorsForField(condition.field).map(op => (
-                        <SelectItem key={op.value} value={op.value}>
-                          {op.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-
-                  {renderValueInput(condition)}
-
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeCondition(condition.id)}
-                    disabled={filter.conditions.length === 1}
-                  >
-                    <X size={14} />
-                  </Button>
+                    {renderValueInput(condition)}
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeCondition(condition.id)}
+                      disabled={filter.conditions.length === 1}
+                    >
+                      <X size={14} />
+                    </Button>
+                  </div>
+                  {regexError && (
+                    <p className="text-xs text-red-600">Invalid regex: {regexError}</p>
+                  )}
                 </div>
               )
             })}
@@ -39,6 +39,14 @@ export function FilterChips({ filter, onRemoveCondition, onClearAll, labels = []
   const formatConditionValue = (condition: FilterCondition) => {
     const { field, operator, value } = condition
 
+    if (operator === 'is_empty' || operator === 'is_not_empty') {
+      return ''
+    }
+
+    if (operator === 'matches_regex') {
+      return `/${value}/`
+    }
+
     if (field === 'label') {
       const label = labels.find(l => l.id === value)
       return label ? label.name : value
@@ -69,8 +77,18 @@ export function FilterChips({ filter, onRemoveCondition, onClearAll, labels = []
     switch (operator) {
       case 'equals':
         return '='
+      case 'not_equals':
+        return '≠'
       case 'contains':
         return 'contains'
+      case 'not_contains':
+        return 'does not contain'
+      case 'matches_regex':
+        return 'matches'
+      case 'is_empty':
+        return 'is empty'
+      case 'is_not_empty':
+        return 'is not empty'
       case 'starts_with':
         return 'starts with'
       case 'ends_with':
@@ -81,8 +99,6 @@ export function FilterChips({ filter, onRemoveCondition, onClearAll, labels = []
         return '<'
       case 'between':
         return 'between'
-      case 'not_in':
-        return 'is not'
       default:
         return operator
     }
@@ -0,0 +1,44 @@
+'use client'
+
+import { useState } from 'react'
+import { RuleRegressionService } from '@/lib/rule-regression-service'
+import { Button } from '@/components/ui/button'
+import { Pin } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface PinGoldenExampleButtonProps {
+  transactionId: string
+  expectedLabels: string[]
+  size?: 'default' | 'sm' | 'lg'
+}
+
+export default function PinGoldenExampleButton({ transactionId, expectedLabels, size = 'sm' }: PinGoldenExampleButtonProps) {
+  const [pinning, setPinning] = useState(false)
+
+  const handlePin = async () => {
+    setPinning(true)
+    try {
+      await RuleRegressionService.pinTransaction(transactionId, expectedLabels)
+      toast.success(`Pinned as golden example with ${expectedLabels.length} expected label${expectedLabels.length !== 1 ? 's' : ''}`)
+    } catch (error) {
+      console.error('Error pinning golden example:', error)
+      toast.error('Failed to pin golden example')
+    } finally {
+      setPinning(false)
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size={size}
+      onClick={handlePin}
+      disabled={pinning}
+      className="flex items-center gap-1"
+      title="Pin as golden example: the regression checks that rules keep producing these labels"
+    >
+      <Pin size={14} />
+      {pinning ? 'Pinning...' : 'Pin as golden example'}
+    </Button>
+  )
+}
@@ -0,0 +1,236 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { RetroactiveRuleService } from '@/lib/retroactive-rule-service'
+import { Rule, Label, RetroactiveRunPreview, RuleChangeBatch } from '@/types/database'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { History, Eye, Check, Undo2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface RetroactiveRuleRunProps {
+  rules: Rule[]
+  labels: Label[]
+}
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0]
+
+export default function RetroactiveRuleRun({ rules, labels }: RetroactiveRuleRunProps) {
+  const [selectedRuleId, setSelectedRuleId] = useState('')
+  const [dateFrom, setDateFrom] = useState(() => {
+    const date = new Date()
+    date.setMonth(date.getMonth() - 3)
+    return toDateInput(date)
+  })
+  const [dateTo, setDateTo] = useState(() => toDateInput(new Date()))
+  const [preview, setPreview] = useState<RetroactiveRunPreview | null>(null)
+  const [batches, setBatches] = useState<RuleChangeBatch[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    fetchBatches()
+  }, [])
+
+  const fetchBatches = async () => {
+    setBatches(await RetroactiveRuleService.getRecentBatches())
+  }
+
+  const getLabelById = (labelId: string) => labels.find(label => label.id === labelId)
+
+  const handlePreview = async () => {
+    const rule = rules.find(r => r.id === selectedRuleId)
+    if (!rule) {
+      toast.error('Please select a rule')
+      return
+    }
+    if (dateFrom > dateTo) {
+      toast.error('Start date must be before end date')
+      return
+    }
+
+    setLoading(true)
+    try {
+      setPreview(await RetroactiveRuleService.previewRuleRun(rule, dateFrom, dateTo))
+    } catch (error) {
+      console.error('Error previewing retroactive run:', error)
+      toast.error('Failed to preview rule run')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!preview || preview.changes.length === 0) return
+
+    setLoading(true)
+    try {
+      const batch = await RetroactiveRuleService.commitRuleRun(preview)
+      toast.success(`Updated ${batch.transactions_changed} transaction${batch.transactions_changed !== 1 ? 's' : ''}`)
+      setPreview(null)
+      fetchBatches()
+    } catch (error) {
+      console.error('Error committing retroactive run:', error)
+      toast.error('Failed to apply rule run')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUndo = async (batch: RuleChangeBatch) => {
+    if (!confirm(`Undo all ${batch.labels_added + batch.labels_removed} label changes from this run?`)) return
+
+    setLoading(true)
+    try {
+      await RetroactiveRuleService.undoBatch(batch.id)
+      toast.success('Rule run undone')
+      fetchBatches()
+    } catch (error) {
+      console.error('Error undoing rule run:', error)
+      toast.error('Failed to undo rule run')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const renderLabelBadge = (labelId: string, change: 'added' | 'removed') => {
+    const label = getLabelById(labelId)
+    return (
+      <Badge
+        key={`${change}-${labelId}`}
+        variant="outline"
+        className={change === 'added' ? 'border-green-500 text-green-700' : 'border-red-500 text-red-700 line-through'}
+      >
+        {change === 'added' ? '+' : '−'} {label?.name || 'Unknown Label'}
+      </Badge>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History size={18} />
+          Retroactive Run
+        </CardTitle>
+        <CardDescription>
+          Re-run a rule over approved transactions in a date range. Preview the label changes first, then apply them as one batch you can undo.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Rule</label>
+            <select
+              value={selectedRuleId}
+              onChange={(e) => {
+                setSelectedRuleId(e.target.value)
+                setPreview(null)
+              }}
+              className="px-2 py-2 border rounded text-sm min-w-48"
+            >
+              <option value="">Select a rule</option>
+              {rules.map(rule => (
+                <option key={rule.id} value={rule.id}>{rule.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">From</label>
+            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="w-40" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">To</label>
+            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="w-40" />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={loading || !selectedRuleId}
+            className="flex items-center gap-2"
+          >
+            <Eye size={16} />
+            {loading && !preview ? 'Previewing...' : 'Preview Changes'}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <div className="text-sm text-gray-600">
+                {preview.changes.length} of {preview.transactionsScanned} approved transaction{preview.transactionsScanned !== 1 ? 's' : ''} would change
+              </div>
+              <Button
+                onClick={handleCommit}
+                disabled={loading || preview.changes.length === 0}
+                className="flex items-center gap-2"
+              >
+                <Check size={16} />
+                Apply Changes
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Labels are only removed where this rule applied them in the last {preview.logRetentionDays} days
+              or through an earlier run; older rule logs have been pruned.
+            </p>
+            {preview.changes.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">
+                <p>Labels already match what this rule would apply</p>
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {preview.changes.map(change => (
+                  <div key={change.transaction.id} className="flex justify-between items-center gap-3 p-2 bg-gray-50 rounded">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{change.transaction.description}</div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(change.transaction.date).toLocaleDateString()} • {change.transaction.amount}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {change.added.map(labelId => renderLabelBadge(labelId, 'added'))}
+                      {change.removed.map(labelId => renderLabelBadge(labelId, 'removed'))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {batches.length > 0 && (
+          <div>
+            <h4 className="font-medium text-sm mb-2">Recent Runs</h4>
+            <div className="space-y-2">
+              {batches.map(batch => (
+                <div key={batch.id} className={`flex justify-between items-center p-2 border rounded text-sm ${batch.undone_at ? 'opacity-60' : ''}`}>
+                  <div>
+                    <div className="font-medium">{batch.rule_name}</div>
+                    <div className="text-xs text-gray-500">
+                      {batch.date_from} – {batch.date_to} • +{batch.labels_added} / −{batch.labels_removed} labels • {batch.created_at.toLocaleString()}
+                    </div>
+                  </div>
+                  {batch.undone_at ? (
+                    <Badge variant="secondary">Undone</Badge>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUndo(batch)}
+                      disabled={loading}
+                      className="flex items-center gap-1"
+                    >
+                      <Undo2 size={14} />
+                      Undo
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
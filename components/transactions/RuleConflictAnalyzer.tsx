@@ -0,0 +1,255 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import {
+  analyzeRuleConflicts,
+  exclusiveLabelPairKey,
+  getExclusiveLabelPairs,
+  isContradiction,
+  RuleConflict,
+  setExclusiveLabelPairs
+} from '@/lib/rule-conflict-analyzer'
+import { EvaluatedTransaction, formatRuleAction } from '@/lib/rules-engine'
+import { ExclusiveLabelPair, Rule, Label, RuleAction } from '@/types/database'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, CheckCircle2, EyeOff, RefreshCw, ShieldCheck, Tags } from 'lucide-react'
+import { toast } from 'sonner'
+
+// Most recent transactions used as the test corpus
+const CORPUS_SIZE = 1000
+
+interface RuleConflictAnalyzerProps {
+  rules: Rule[]
+  labels: Label[]
+}
+
+export default function RuleConflictAnalyzer({ rules, labels }: RuleConflictAnalyzerProps) {
+  const [conflicts, setConflicts] = useState<RuleConflict[] | null>(null)
+  const [corpus, setCorpus] = useState<EvaluatedTransaction[]>([])
+  const [exclusivePairs, setExclusivePairs] = useState<ExclusiveLabelPair[]>([])
+  const [corpusSize, setCorpusSize] = useState(0)
+  const [totalTransactions, setTotalTransactions] = useState(0)
+  const [loading, setLoading] = useState(false)
+
+  const runAnalysis = async () => {
+    setLoading(true)
+    try {
+      // Label conditions need each transaction's current labels
+      const [{ data, error, count }, pairs] = await Promise.all([
+        supabase
+          .from('transactions')
+          .select('*, transaction_labels(label_id)', { count: 'exact' })
+          .order('date', { ascending: false })
+          .order('id')
+          .limit(CORPUS_SIZE),
+        getExclusiveLabelPairs()
+      ])
+
+      if (error) throw error
+
+      setCorpus(data || [])
+      setExclusivePairs(pairs)
+      setCorpusSize(data?.length || 0)
+      setTotalTransactions(count ?? data?.length ?? 0)
+      setConflicts(analyzeRuleConflicts(rules, data || [], pairs))
+    } catch (error) {
+      console.error('Error analyzing rule conflicts:', error)
+      toast.error('Failed to analyze rule conflicts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const isExclusive = (labelA: string, labelB: string) =>
+    exclusivePairs.some(([a, b]) => exclusiveLabelPairKey(a, b) === exclusiveLabelPairKey(labelA, labelB))
+
+  const toggleExclusive = async (labelA: string, labelB: string) => {
+    const pairs: ExclusiveLabelPair[] = isExclusive(labelA, labelB)
+      ? exclusivePairs.filter(([a, b]) => exclusiveLabelPairKey(a, b) !== exclusiveLabelPairKey(labelA, labelB))
+      : [...exclusivePairs, [labelA, labelB]]
+
+    try {
+      await setExclusiveLabelPairs(pairs)
+      setExclusivePairs(pairs)
+      setConflicts(analyzeRuleConflicts(rules, corpus, pairs))
+    } catch (error) {
+      console.error('Error saving exclusive labels:', error)
+      toast.error('Failed to save exclusive labels')
+    }
+  }
+
+  const renderLabel = (labelId: string) => {
+    const label = labels.find(l => l.id === labelId)
+    return (
+      <Badge
+        key={labelId}
+        style={{ backgroundColor: label?.color || '#3B82F6' }}
+        className="text-white"
+      >
+        {label?.name || 'Unknown Label'}
+      </Badge>
+    )
+  }
+
+  const renderConflict = (conflict: RuleConflict) => {
+    const contradiction = isContradiction(conflict)
+    const labelsDiffer = conflict.labelsOnlyInA.length > 0
+
+    return (
+      <Card key={`${conflict.ruleA.id}:${conflict.ruleB.id}`} className={conflict.resolvedByStop ? 'opacity-70' : ''}>
+        <CardHeader className="pb-3">
+          <div className="flex justify-between items-start gap-2">
+            <div>
+              <CardTitle className="text-base">
+                {conflict.ruleA.name} <span className="text-gray-400">vs</span> {conflict.ruleB.name}
+              </CardTitle>
+              <CardDescription>
+                Both match {conflict.overlapCount} transaction{conflict.overlapCount !== 1 ? 's' : ''}
+                {!conflict.resolvedByStop && conflict.effectiveOverlapCount < conflict.overlapCount &&
+                  ` (${conflict.effectiveOverlapCount} after stop-processing rules)`}
+              </CardDescription>
+            </div>
+            {conflict.resolvedByStop && (contradiction || labelsDiffer) ? (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <ShieldCheck size={12} />
+                Resolved by stop processing
+              </Badge>
+            ) : contradiction ? (
+              <Badge variant="destructive" className="flex items-center gap-1">
+                <AlertTriangle size={12} />
+                Conflict
+              </Badge>
+            ) : labelsDiffer ? (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Tags size={12} />
+                Different labels
+              </Badge>
+            ) : (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <EyeOff size={12} />
+                Shadowed by stop processing
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {(conflict.shadowedLabels.length > 0 || conflict.shadowedActions.length > 0) && (
+            <div>
+              <h4 className="font-medium text-sm mb-2">
+                {conflict.ruleA.name} stops processing, so {conflict.ruleB.name} never applies where both match:
+              </h4>
+              <div className="flex flex-wrap gap-1">
+                {conflict.shadowedLabels.map(renderLabel)}
+                {conflict.shadowedActions.map((action, index) => (
+                  <Badge key={`${action.type}-${index}`} variant="outline">{formatRuleAction(action)}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {labelsDiffer && (
+            <div>
+              <h4 className="font-medium text-sm mb-2">
+                Different labels (mark the ones a transaction can&apos;t have together):
+              </h4>
+              <div className="space-y-1">
+                {conflict.labelsOnlyInA.flatMap(labelA => conflict.labelsOnlyInB.map(labelB => (
+                  <div key={`${labelA}:${labelB}`} className="text-sm flex items-center justify-between gap-2 bg-gray-50 p-2 rounded">
+                    <div className="flex items-center gap-1">
+                      {renderLabel(labelA)}
+                      <span className="text-gray-400">vs</span>
+                      {renderLabel(labelB)}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => toggleExclusive(labelA, labelB)}>
+                      {isExclusive(labelA, labelB) ? 'Not exclusive' : 'Mark exclusive'}
+                    </Button>
+                  </div>
+                )))}
+              </div>
+            </div>
+          )}
+
+          {conflict.actionConflicts.length > 0 && (
+            <div>
+              <h4 className="font-medium text-sm mb-2">Conflicting actions:</h4>
+              <div className="space-y-1">
+                {conflict.actionConflicts.map(actionConflict => (
+                  <div key={actionConflict.type} className="text-sm bg-gray-50 p-2 rounded">
+                    {formatRuleAction({ type: actionConflict.type, value: actionConflict.valueA } as RuleAction)}
+                    <span className="text-gray-400"> vs </span>
+                    {formatRuleAction({ type: actionConflict.type, value: actionConflict.valueB } as RuleAction)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-medium text-sm mb-2">Example transactions:</h4>
+            <div className="space-y-1">
+              {conflict.sampleTransactions.map(transaction => (
+                <div key={transaction.id} className="text-sm flex justify-between bg-gray-50 p-2 rounded">
+                  <span className="truncate">{transaction.description}</span>
+                  <span className="text-gray-500 ml-2">{transaction.amount}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {!conflict.resolvedByStop && contradiction && (
+            <p className="text-xs text-gray-500">
+              Enable &quot;Stop processing&quot; on {conflict.ruleA.name} to let its priority win, or narrow the conditions of one rule.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Rule Conflicts</CardTitle>
+              <CardDescription>
+                Finds rules that match the same transactions but apply different labels or set a field
+                to different values, or where stop processing keeps a rule from applying.
+                Tested against your {CORPUS_SIZE} most recent transactions
+              </CardDescription>
+            </div>
+            <Button
+              onClick={runAnalysis}
+              disabled={loading || rules.length < 2}
+              className="flex items-center gap-2"
+            >
+              <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+              {conflicts ? 'Re-analyze' : 'Analyze'}
+            </Button>
+          </div>
+        </CardHeader>
+        {conflicts && corpusSize < totalTransactions && (
+          <CardContent className={conflicts.length === 0 ? 'pb-0' : undefined}>
+            <p className="text-xs text-gray-500">
+              Analyzed the {corpusSize} most recent of {totalTransactions} transactions; overlaps in older transactions are not counted.
+            </p>
+          </CardContent>
+        )}
+        {conflicts && conflicts.length === 0 && (
+          <CardContent>
+            <div className="text-center py-4 text-gray-500">
+              <CheckCircle2 size={32} className="mx-auto mb-2 text-green-500" />
+              <p>No conflicts found across {corpusSize} transactions</p>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {conflicts && conflicts.map(renderConflict)}
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { RuleCoverageService, UnlabeledRanking } from '@/lib/rule-coverage-service'
+import { CreateRuleInput, RuleCoverageReport as CoverageReport, UnlabeledDescription } from '@/types/database'
+import { formatCurrency } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PieChart, Plus, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface RuleCoverageReportProps {
+  onCreateRule: (draft: CreateRuleInput) => void
+}
+
+const MONTH_RANGES = [3, 6, 12]
+
+const TOP_UNLABELED_COUNT = 20
+
+const formatShare = (part: number, total: number) =>
+  total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '—'
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+
+export default function RuleCoverageReport({ onCreateRule }: RuleCoverageReportProps) {
+  const [report, setReport] = useState<CoverageReport | null>(null)
+  const [months, setMonths] = useState(6)
+  const [ranking, setRanking] = useState<UnlabeledRanking>('frequency')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadReport()
+  }, [months])
+
+  const loadReport = async () => {
+    setLoading(true)
+    try {
+      setReport(await RuleCoverageService.getCoverageReport(months))
+    } catch (error) {
+      console.error('Error loading coverage report:', error)
+      toast.error('Failed to load coverage report')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const createRuleFor = (description: UnlabeledDescription) => {
+    onCreateRule({
+      name: description.pattern,
+      conditions: {
+        type: 'group',
+        operator: 'AND',
+        conditions: [{ field: 'description', operator: 'contains', value: description.pattern }]
+      },
+      labels_to_apply: []
+    })
+  }
+
+  const formatSpend = (amount: number) => formatCurrency(amount, report?.base_currency || 'ILS')
+
+  const topUnlabeled = report
+    ? RuleCoverageService.rankUnlabeled(report.unlabeled_descriptions, ranking).slice(0, TOP_UNLABELED_COUNT)
+    : []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-start gap-3">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <PieChart size={18} />
+                Rule Coverage
+              </CardTitle>
+              <CardDescription>
+                Transactions and spending that ended up without any label
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={months}
+                onChange={(e) => setMonths(Number(e.target.value))}
+                className="px-2 py-1 border rounded text-sm"
+              >
+                {MONTH_RANGES.map(range => (
+                  <option key={range} value={range}>Last {range} months</option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" onClick={loadReport} disabled={loading}>
+                <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && !report ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+            </div>
+          ) : !report || report.totals.transactions === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No transactions in this period</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-sm text-gray-600">Unlabeled transactions</div>
+                  <div className="text-2xl font-bold">
+                    {formatShare(report.totals.unlabeled_transactions, report.totals.transactions)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {report.totals.unlabeled_transactions} of {report.totals.transactions}
+                  </div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-sm text-gray-600">Unlabeled spend</div>
+                  <div className="text-2xl font-bold">
+                    {formatShare(report.totals.unlabeled_spend, report.totals.spend)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatSpend(report.totals.unlabeled_spend)} of {formatSpend(report.totals.spend)}
+                  </div>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 font-medium">Month</th>
+                    <th className="py-2 font-medium">Unlabeled transactions</th>
+                    <th className="py-2 font-medium">Unlabeled spend</th>
+                    <th className="py-2 font-medium w-1/3">Coverage</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.months.map(month => (
+                    <tr key={month.month} className="border-b">
+                      <td className="py-2">{formatMonth(month.month)}</td>
+                      <td className="py-2">
+                        {month.unlabeled_transactions} / {month.transactions}
+                        <span className="text-gray-500"> ({formatShare(month.unlabeled_transactions, month.transactions)})</span>
+                      </td>
+                      <td className="py-2">
+                        {formatSpend(month.unlabeled_spend)}
+                        <span className="text-gray-500"> ({formatShare(month.unlabeled_spend, month.spend)})</span>
+                      </td>
+                      <td className="py-2">
+                        <div className="h-2 bg-red-200 rounded overflow-hidden">
+                          <div
+                            className="h-full bg-green-500"
+                            style={{ width: `${month.transactions > 0 ? (1 - month.unlabeled_transactions / month.transactions) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && report.unlabeled_descriptions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap justify-between items-start gap-3">
+              <div>
+                <CardTitle>Top Unlabeled Descriptions</CardTitle>
+                <CardDescription>
+                  Merchants that no rule covers yet
+                </CardDescription>
+              </div>
+              <select
+                value={ranking}
+                onChange={(e) => setRanking(e.target.value as UnlabeledRanking)}
+                className="px-2 py-1 border rounded text-sm"
+              >
+                <option value="frequency">By frequency</option>
+                <option value="amount">By total amount</option>
+              </select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {topUnlabeled.map(description => (
+              <div key={description.pattern} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded">
+                <div className="min-w-0">
+                  <div className="font-medium text-sm">{description.pattern}</div>
+                  <div className="text-xs text-gray-500">
+                    {description.transactions} transaction{description.transactions !== 1 ? 's' : ''} • {formatSpend(description.spend)}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    e.g. {description.sample_descriptions.join(', ')}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => createRuleFor(description)}
+                  className="flex items-center gap-1 shrink-0"
+                >
+                  <Plus size={14} />
+                  Create rule for this
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,20 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import React, { useState, useEffect } from 'react'
 import { useAuth } from '@/context/auth'
 import { useAuthenticatedMutation } from '@/hooks/useAuthenticatedMutation'
 import { supabase } from '@/lib/supabase'
-import { Label, RuleCondition, CreateRuleInput } from '@/types/database'
+import { CURRENCY_INFO, CurrencyCode, Label, RuleAction, RuleActionType, RuleCondition, RuleConditionGroup, RuleConditionNode, RuleGroupOperator, CreateRuleInput, UpdateRuleInput, TransactionStatus, Rule, GoldenExampleResult } from '@/types/database'
+import { isConditionGroup, isNumericConditionField, normalizeRuleConditions, flattenRuleConditions, RULE_CONDITION_FIELD_LABELS } from '@/lib/rules-engine'
+import { compileSafeRegex, isMissingValue, isValuelessOperator } from '@/lib/condition-operators'
+import { RuleRegressionService } from '@/lib/rule-regression-service'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { X, Plus, Trash2 } from 'lucide-react'
+import { X, Plus, Trash2, FolderPlus, AlertTriangle } from 'lucide-react'
 import { toast } from 'sonner'
+import { GoldenExampleResultRow } from './RuleRegressionSuite'
 
 interface RuleFormProps {
   onClose: () => void
@@ -18,41 +22,138 @@ interface RuleFormProps {
   initialRule?: any // For editing rules
 }
 
-const CONDITION_FIELDS = [
-  { value: 'description', label: 'Description' },
-  { value: 'amount', label: 'Amount' },
-  { value: 'identifier', label: 'Identifier' },
-  { value: 'date', label: 'Date' },
-  { value: 'source', label: 'Source' }
-] as const
+const CONDITION_FIELDS = ([
+  'description',
+  'amount',
+  'abs_amount',
+  'converted_amount',
+  'original_currency',
+  'identifier',
+  'date',
+  'source',
+  'status',
+  'label'
+] as const).map(value => ({ value, label: RULE_CONDITION_FIELD_LABELS[value] }))
 
 const TEXT_OPERATORS = [
   { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
   { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
   { value: 'starts_with', label: 'starts with' },
-  { value: 'ends_with', label: 'ends with' }
+  { value: 'ends_with', label: 'ends with' },
+  { value: 'matches_regex', label: 'matches regex' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' }
 ] as const
 
 const NUMBER_OPERATORS = [
   { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
   { value: 'greater_than', label: 'greater than' },
   { value: 'less_than', label: 'less than' },
   { value: 'between', label: 'between' }
 ] as const
 
+const CURRENCY_OPERATORS = [
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' }
+] as const
+
+const DATE_OPERATORS = [
+  { value: 'equals', label: 'is on' },
+  { value: 'not_equals', label: 'is not on' },
+  { value: 'greater_than', label: 'is after' },
+  { value: 'less_than', label: 'is before' },
+  { value: 'between', label: 'is between' }
+] as const
+
+const LABEL_OPERATORS = [
+  { value: 'equals', label: 'has' },
+  { value: 'not_equals', label: 'does not have' },
+  { value: 'is_empty', label: 'has no labels' },
+  { value: 'is_not_empty', label: 'has any label' }
+] as const
+
+const GROUP_OPERATORS: { value: RuleGroupOperator; label: string }[] = [
+  { value: 'AND', label: 'ALL of (AND)' },
+  { value: 'OR', label: 'ANY of (OR)' },
+  { value: 'NOT', label: 'NONE of (NOT)' }
+]
+
+const ACTION_TYPES: { value: RuleActionType; label: string }[] = [
+  { value: 'set_status', label: 'Set status' },
+  { value: 'set_description', label: 'Rewrite description' },
+  { value: 'set_source', label: 'Set source' },
+  { value: 'append_note', label: 'Append note' }
+]
+
+const STATUS_OPTIONS: { value: TransactionStatus; label: string }[] = [
+  { value: 'approved', label: 'Approved' },
+  { value: 'ignored', label: 'Ignored' },
+  { value: 'pending', label: 'Pending' }
+]
+
+// Groups can be nested this deep (the root group is depth 0)
+const MAX_GROUP_DEPTH = 3
+
+const createEmptyCondition = (): RuleCondition => ({ field: 'description', operator: 'contains', value: '' })
+
+const createAction = (type: RuleActionType): RuleAction =>
+  type === 'set_status' ? { type, value: 'approved' } : { type, value: '' }
+
+const createEmptyGroup = (operator: RuleGroupOperator = 'AND'): RuleConditionGroup => ({
+  type: 'group',
+  operator,
+  conditions: [createEmptyCondition()]
+})
+
+/**
+ * Returns a copy of the group tree with the group at `path` replaced by `updater(group)`
+ */
+const updateGroupAtPath = (
+  group: RuleConditionGroup,
+  path: number[],
+  updater: (group: RuleConditionGroup) => RuleConditionGroup
+): RuleConditionGroup => {
+  if (path.length === 0) return updater(group)
+
+  const [index, ...rest] = path
+  return {
+    ...group,
+    conditions: group.conditions.map((child, i) =>
+      i === index && isConditionGroup(child) ? updateGroupAtPath(child, rest, updater) : child
+    )
+  }
+}
+
+/**
+ * Checks that no group in the tree is empty
+ */
+const hasEmptyGroup = (group: RuleConditionGroup): boolean => {
+  return group.conditions.length === 0 ||
+    group.conditions.some(child => isConditionGroup(child) && hasEmptyGroup(child))
+}
+
 export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormProps) {
   const { user } = useAuth()
-  const { insert } = useAuthenticatedMutation()
+  const { insert, update } = useAuthenticatedMutation()
+  const isEditing = !!initialRule?.id
   const [ruleName, setRuleName] = useState(initialRule?.name || '')
-  const [conditions, setConditions] = useState<RuleCondition[]>(
-    initialRule?.conditions || [{ field: 'description', operator: 'contains', value: '' }]
-  )
+  const [conditionGroup, setConditionGroup] = useState<RuleConditionGroup>(() => {
+    const initial = normalizeRuleConditions(initialRule?.conditions)
+    return initial.conditions.length > 0 ? initial : createEmptyGroup()
+  })
   const [selectedLabels, setSelectedLabels] = useState<string[]>(
     initialRule?.labels_to_apply || []
   )
+  const [actions, setActions] = useState<RuleAction[]>(initialRule?.actions || [])
+  const [stopProcessing, setStopProcessing] = useState<boolean>(initialRule?.stop_processing || false)
   const [availableLabels, setAvailableLabels] = useState<Label[]>([])
   const [loading, setLoading] = useState(false)
   const [loadingLabels, setLoadingLabels] = useState(true)
+  // Golden examples that pass today but would fail with this change
+  const [regressions, setRegressions] = useState<GoldenExampleResult[] | null>(null)
 
   useEffect(() => {
     if (user) {
@@ -77,34 +178,71 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
     }
   }
 
-  const addCondition = () => {
-    setConditions([...conditions, { field: 'description', operator: 'contains', value: '' }])
+  const addCondition = (groupPath: number[]) => {
+    setConditionGroup(prev => updateGroupAtPath(prev, groupPath, group => ({
+      ...group,
+      conditions: [...group.conditions, createEmptyCondition()]
+    })))
   }
 
-  const removeCondition = (index: number) => {
-    if (conditions.length > 1) {
-      setConditions(conditions.filter((_, i) => i !== index))
-    }
+  const addGroup = (groupPath: number[]) => {
+    setConditionGroup(prev => updateGroupAtPath(prev, groupPath, group => ({
+      ...group,
+      conditions: [...group.conditions, createEmptyGroup(group.operator === 'AND' ? 'OR' : 'AND')]
+    })))
   }
 
-  const updateCondition = (index: number, field: keyof RuleCondition, value: any) => {
-    const updatedConditions = [...conditions]
-    updatedConditions[index] = { ...updatedConditions[index], [field]: value }
+  const removeNode = (groupPath: number[], index: number) => {
+    setConditionGroup(prev => updateGroupAtPath(prev, groupPath, group => ({
+      ...group,
+      conditions: group.conditions.filter((_, i) => i !== index)
+    })))
+  }
 
-    // Reset operator and value when field changes
-    if (field === 'field') {
-      updatedConditions[index].operator = 'contains'
-      updatedConditions[index].value = ''
-    }
+  const setGroupOperator = (groupPath: number[], operator: RuleGroupOperator) => {
+    setConditionGroup(prev => updateGroupAtPath(prev, groupPath, group => ({ ...group, operator })))
+  }
 
-    // Reset value when operator changes to between
-    if (field === 'operator' && value === 'between') {
-      updatedConditions[index].value = [0, 0]
-    } else if (field === 'operator' && updatedConditions[index].operator === 'between') {
-      updatedConditions[index].value = ''
-    }
+  const updateCondition = (groupPath: number[], index: number, field: keyof RuleCondition, value: any) => {
+    setConditionGroup(prev => updateGroupAtPath(prev, groupPath, group => {
+      const current = group.conditions[index] as RuleCondition
+      const updatedCondition: RuleCondition = { ...current, [field]: value }
+
+      // Reset operator and value when field changes
+      if (field === 'field') {
+        if (isNumericConditionField(value)) {
+          updatedCondition.operator = 'greater_than'
+          updatedCondition.value = 0
+        } else if (value === 'original_currency') {
+          updatedCondition.operator = 'equals'
+          updatedCondition.value = 'ILS'
+        } else if (value === 'date') {
+          updatedCondition.operator = 'greater_than'
+          updatedCondition.value = new Date().toISOString().split('T')[0]
+        } else if (value === 'status') {
+          updatedCondition.operator = 'equals'
+          updatedCondition.value = 'pending'
+        } else if (value === 'label') {
+          updatedCondition.operator = 'equals'
+          updatedCondition.value = availableLabels[0]?.id || ''
+        } else {
+          updatedCondition.operator = 'contains'
+          updatedCondition.value = ''
+        }
+      }
+
+      // Reset value when operator changes to between
+      if (field === 'operator' && value === 'between') {
+        updatedCondition.value = current.field === 'date' ? ['', ''] : [0, 0]
+      } else if (field === 'operator' && current.operator === 'between') {
+        updatedCondition.value = ''
+      }
 
-    setConditions(updatedConditions)
+      return {
+        ...group,
+        conditions: group.conditions.map((child, i) => i === index ? updatedCondition : child)
+      }
+    }))
   }
 
   const toggleLabel = (labelId: string) => {
@@ -115,17 +253,123 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
     )
   }
 
-  const getOperatorsForField = (field: string) => {
-    if (field === 'amount') {
+  const addAction = () => {
+    setActions(prev => [...prev, createAction('set_status')])
+  }
+
+  const removeAction = (index: number) => {
+    setActions(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const updateAction = (index: number, action: RuleAction) => {
+    setActions(prev => prev.map((current, i) => i === index ? action : current))
+  }
+
+  const getOperatorsForField = (field: RuleCondition['field']) => {
+    if (isNumericConditionField(field)) {
       return NUMBER_OPERATORS
     }
+    if (field === 'original_currency' || field === 'status') {
+      return CURRENCY_OPERATORS
+    }
+    if (field === 'date') {
+      return DATE_OPERATORS
+    }
+    if (field === 'label') {
+      return LABEL_OPERATORS
+    }
     return TEXT_OPERATORS
   }
 
-  const renderValueInput = (condition: RuleCondition, index: number) => {
-    const isNumberField = condition.field === 'amount'
+  const renderValueInput = (condition: RuleCondition, groupPath: number[], index: number) => {
+    const isNumberField = isNumericConditionField(condition.field)
     const isBetweenOperator = condition.operator === 'between'
 
+    if (isValuelessOperator(condition.operator)) {
+      return <span className="flex-1 text-sm text-gray-500">No value needed</span>
+    }
+
+    if (condition.field === 'original_currency') {
+      return (
+        <select
+          value={condition.value as string}
+          onChange={(e) => updateCondition(groupPath, index, 'value', e.target.value as CurrencyCode)}
+          className="px-2 py-1 border rounded text-sm flex-1"
+        >
+          {Object.values(CURRENCY_INFO).map(currency => (
+            <option key={currency.code} value={currency.code}>
+              {currency.symbol} {currency.code} - {currency.name}
+            </option>
+          ))}
+        </select>
+      )
+    }
+
+    if (condition.field === 'status') {
+      return (
+        <select
+          value={condition.value as string}
+          onChange={(e) => updateCondition(groupPath, index, 'value', e.target.value as TransactionStatus)}
+          className="px-2 py-1 border rounded text-sm flex-1"
+        >
+          {STATUS_OPTIONS.map(status => (
+            <option key={status.value} value={status.value}>
+              {status.label}
+            </option>
+          ))}
+        </select>
+      )
+    }
+
+    if (condition.field === 'label') {
+      return (
+        <select
+          value={condition.value as string}
+          onChange={(e) => updateCondition(groupPath, index, 'value', e.target.value)}
+          className="px-2 py-1 border rounded text-sm flex-1"
+        >
+          <option value="">Select label</option>
+          {availableLabels.map(label => (
+            <option key={label.id} value={label.id}>
+              {label.name}
+            </option>
+          ))}
+        </select>
+      )
+    }
+
+    if (condition.field === 'date') {
+      if (isBetweenOperator) {
+        const value = Array.isArray(condition.value) ? condition.value.map(String) : ['', '']
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={value[0]}
+              onChange={(e) => updateCondition(groupPath, index, 'value', [e.target.value, value[1]])}
+              className="w-36"
+            />
+            <span className="text-sm text-gray-500">and</span>
+            <Input
+              type="date"
+              value={value[1]}
+              onChange={(e) => updateCondition(groupPath, index, 'value', [value[0], e.target.value])}
+              className="w-36"
+            />
+          </div>
+        )
+      }
+
+      return (
+        <Input
+          type="date"
+          value={condition.value as string}
+          onChange={(e) => updateCondition(groupPath, index, 'value', e.target.value)}
+          className="flex-1"
+        />
+      )
+    }
+
     if (isBetweenOperator) {
       const value = Array.isArray(condition.value) ? condition.value : [0, 0]
       return (
@@ -133,7 +377,7 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
           <Input
             type="number"
             value={value[0]}
-            onChange={(e) => updateCondition(index, 'value', [Number(e.target.value), value[1]])}
+            onChange={(e) => updateCondition(groupPath, index, 'value', [Number(e.target.value), value[1]])}
             placeholder="Min"
             className="w-24"
           />
@@ -141,7 +385,7 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
           <Input
             type="number"
             value={value[1]}
-            onChange={(e) => updateCondition(index, 'value', [value[0], Number(e.target.value)])}
+            onChange={(e) => updateCondition(groupPath, index, 'value', [value[0], Number(e.target.value)])}
             placeholder="Max"
             className="w-24"
           />
@@ -153,8 +397,8 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
       <Input
         type={isNumberField ? 'number' : 'text'}
         value={condition.value as string | number}
-        onChange={(e) => updateCondition(index, 'value', isNumberField ? Number(e.target.value) : e.target.value)}
-        placeholder={isNumberField ? 'Enter amount' : 'Enter text'}
+        onChange={(e) => updateCondition(groupPath, index, 'value', isNumberField ? Number(e.target.value) : e.target.value)}
+        placeholder={isNumberField ? (condition.field === 'abs_amount' ? 'Amount, ignoring sign' : 'Enter amount') : condition.operator === 'matches_regex' ? 'Enter pattern, e.g. ^הוראת קבע' : 'Enter text'}
         className="flex-1"
       />
     )
@@ -166,39 +410,115 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
       return false
     }
 
-    if (conditions.some(c => !c.value || (Array.isArray(c.value) && c.value.some(v => v === 0)))) {
+    if (hasEmptyGroup(conditionGroup)) {
+      toast.error('Condition groups cannot be empty')
+      return false
+    }
+
+    const conditionsWithValues = flattenRuleConditions(conditionGroup).filter(c => !isValuelessOperator(c.operator))
+
+    if (conditionsWithValues.some(c => isMissingValue(c.value) || (Array.isArray(c.value) && c.value.some(isMissingValue)))) {
       toast.error('All conditions must have values')
       return false
     }
 
-    if (selectedLabels.length === 0) {
-      toast.error('At least one label must be selected')
+    const invalidRegex = conditionsWithValues
+      .filter(c => c.operator === 'matches_regex')
+      .map(c => compileSafeRegex(String(c.value)).error)
+      .find(Boolean)
+
+    if (invalidRegex) {
+      toast.error(`Invalid regex: ${invalidRegex}`)
+      return false
+    }
+
+    if (selectedLabels.length === 0 && actions.length === 0) {
+      toast.error('Select at least one label or add an action')
+      return false
+    }
+
+    if (actions.some(action => !action.value.trim())) {
+      toast.error('All actions must have values')
       return false
     }
 
     return true
   }
 
-  const handleSubmit = async () => {
+  /**
+   * Runs the golden-example regression with this form's rule in place of the saved one.
+   * Returns true when the change breaks examples that currently pass.
+   */
+  const findRegressions = async () => {
+    const candidate = {
+      ...initialRule,
+      id: initialRule?.id || 'draft',
+      name: ruleName.trim(),
+      conditions: conditionGroup,
+      labels_to_apply: selectedLabels,
+      actions,
+      stop_processing: stopProcessing,
+      order_index: initialRule?.order_index ?? 0,
+      is_active: initialRule?.is_active ?? true
+    } as Rule
+
+    try {
+      const { regressions: broken } = await RuleRegressionService.checkRuleChange(candidate)
+      setRegressions(broken.length > 0 ? broken : null)
+      return broken.length > 0
+    } catch (error) {
+      // The regression is a safety net; it never blocks saving
+      console.error('Error running rule regression:', error)
+      return false
+    }
+  }
+
+  const handleSubmit = async (skipRegressionCheck = false) => {
     if (!validateForm()) return
 
     setLoading(true)
     try {
+      if (skipRegressionCheck) {
+        setRegressions(null)
+      } else if (await findRegressions()) {
+        return
+      }
+
+      if (isEditing) {
+        // Position and active state are managed from the rules list
+        const ruleUpdates: UpdateRuleInput = {
+          name: ruleName.trim(),
+          conditions: conditionGroup,
+          labels_to_apply: selectedLabels,
+          actions,
+          stop_processing: stopProcessing
+        }
+
+        const result = await update('rules', initialRule.id, ruleUpdates)
+        if (!result) throw new Error('Failed to update rule')
+
+        toast.success('Rule updated successfully')
+        onSuccess()
+        return
+      }
+
       const ruleData: CreateRuleInput = {
         name: ruleName.trim(),
-        conditions,
+        conditions: conditionGroup,
         labels_to_apply: selectedLabels,
+        actions,
+        stop_processing: stopProcessing,
         order_index: 0, // Will be set by the backend
         is_active: true
       }
 
-      const result = await insert('rules', ruleData)
+      await insert('rules', ruleData)
 
       toast.success('Rule created successfully')
       onSuccess()
     } catch (error) {
-      console.error('Error creating rule:', error)
-      toast.error('Failed to create rule')
+      console.error(`Error ${isEditing ? 'updating' : 'creating'} rule:`, error)
+      toast.error(`Failed to ${isEditing ? 'update' : 'create'} rule`)
     } finally {
       setLoading(false)
     }
@@ -208,13 +528,125 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
     return availableLabels.find(label => label.id === labelId)
   }
 
+  const renderConditionRow = (condition: RuleCondition, groupPath: number[], index: number, canRemove: boolean) => {
+    const regexError = condition.operator === 'matches_regex' && condition.value
+      ? compileSafeRegex(String(condition.value)).error
+      : null
+
+    return (
+      <div key={index} className="p-3 bg-gray-50 rounded space-y-1">
+        <div className="flex items-center gap-2">
+          <select
+            value={condition.field}
+            onChange={(e) => updateCondition(groupPath, index, 'field', e.target.value)}
+            className="px-2 py-1 border rounded text-sm"
+          >
+            {CONDITION_FIELDS.map(field => (
+              <option key={field.value} value={field.value}>
+                {field.label}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={condition.operator}
+            onChange={(e) => updateCondition(groupPath, index, 'operator', e.target.value)}
+            className="px-2 py-1 border rounded text-sm"
+          >
+            {getOperatorsForField(condition.field).map(op => (
+              <option key={op.value} value={op.value}>
+                {op.label}
+              </option>
+            ))}
+          </select>
+
+          {renderValueInput(condition, groupPath, index)}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeNode(groupPath, index)}
+            disabled={!canRemove}
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+        {regexError && (
+          <p className="text-xs text-red-600">Invalid regex: {regexError}</p>
+        )}
+      </div>
+    )
+  }
+
+  const renderGroup = (group: RuleConditionGroup, groupPath: number[]): React.ReactNode => {
+    const isRoot = groupPath.length === 0
+    const canRemoveChild = !isRoot || group.conditions.length > 1
+
+    return (
+      <div className={`space-y-3 ${isRoot ? '' : 'p-3 border-l-2 border-blue-300 bg-blue-50/40 rounded'}`}>
+        <div className="flex justify-between items-center gap-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">Match</span>
+            <select
+              value={group.operator}
+              onChange={(e) => setGroupOperator(groupPath, e.target.value as RuleGroupOperator)}
+              className="px-2 py-1 border rounded text-sm"
+            >
+              {GROUP_OPERATORS.map(op => (
+                <option key={op.value} value={op.value}>
+                  {op.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => addCondition(groupPath)}
+              className="flex items-center gap-1"
+            >
+              <Plus size={14} />
+              Condition
+            </Button>
+            {groupPath.length < MAX_GROUP_DEPTH && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addGroup(groupPath)}
+                className="flex items-center gap-1"
+              >
+                <FolderPlus size={14} />
+                Group
+              </Button>
+            )}
+            {!isRoot && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeNode(groupPath.slice(0, -1), groupPath[groupPath.length - 1])}
+              >
+                <Trash2 size={14} />
+              </Button>
+            )}
+          </div>
+        </div>
+        {group.conditions.map((child: RuleConditionNode, index) =>
+          isConditionGroup(child)
+            ? <div key={index}>{renderGroup(child, [...groupPath, index])}</div>
+            : renderConditionRow(child, groupPath, index, canRemoveChild)
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
         <CardHeader>
           <div className="flex justify-between items-center">
             <div>
-              <CardTitle>Create New Rule</CardTitle>
+              <CardTitle>{isEditing ? 'Edit Rule' : 'Create New Rule'}</CardTitle>
               <CardDescription>Set up conditions to automatically assign labels to transactions</CardDescription>
             </div>
             <Button variant="ghost" size="sm" onClick={onClose}>
@@ -236,58 +668,8 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
 
           {/* Conditions */}
           <div>
-            <div className="flex justify-between items-center mb-3">
-              <label className="block text-sm font-medium">Conditions</label>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={addCondition}
-                className="flex items-center gap-1"
-              >
-                <Plus size={14} />
-                Add Condition
-              </Button>
-            </div>
-            <div className="space-y-3">
-              {conditions.map((condition, index) => (
-                <div key={index} className="flex items-center gap-2 p-3 bg-gray-50 rounded">
-                  <select
-                    value={condition.field}
-                    onChange={(e) => updateCondition(index, 'field', e.target.value)}
-                    className="px-2 py-1 border rounded text-sm"
-                  >
-                    {CONDITION_FIELDS.map(field => (
-                      <option key={field.value} value={field.value}>
-                        {field.label}
-                      </option>
-                    ))}
-                  </select>
-
-                  <select
-                    value={condition.operator}
-                    onChange={(e) => updateCondition(index, 'operator', e.target.value)}
-                    className="px-2 py-1 border rounded text-sm"
-                  >
-                    {getOperatorsForField(condition.field).map(op => (
-                      <option key={op.value} value={op.value}>
-                        {op.label}
-                      </option>
-                    ))}
-                  </select>
-
-                  {renderValueInput(condition, index)}
-
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeCondition(index)}
-                    disabled={conditions.length === 1}
-                  >
-                    <Trash2 size={14} />
-                  </Button>
-                </div>
-              ))}
-            </div>
+            <label className="block text-sm font-medium mb-3">Conditions</label>
+            {renderGroup(conditionGroup, [])}
           </div>
 
           {/* Labels Selection */}
@@ -325,16 +707,120 @@ export default function RuleForm({ onClose, onSuccess, initialRule }: RuleFormPr
             )}
           </div>
 
+          {/* Actions */}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium">Actions</label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addAction}
+                className="flex items-center gap-1"
+              >
+                <Plus size={14} />
+                Action
+              </Button>
+            </div>
+            {actions.length === 0 ? (
+              <div className="text-sm text-gray-500">No actions. Matching transactions will only be labeled.</div>
+            ) : (
+              <div className="space-y-2">
+                {actions.map((action, index) => (
+                  <div key={index} className="flex items-center gap-2 p-3 bg-gray-50 rounded">
+                    <select
+                      value={action.type}
+                      onChange={(e) => updateAction(index, createAction(e.target.value as RuleActionType))}
+                      className="px-2 py-1 border rounded text-sm"
+                    >
+                      {ACTION_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+
+                    {action.type === 'set_status' ? (
+                      <select
+                        value={action.value}
+                        onChange={(e) => updateAction(index, { type: 'set_status', value: e.target.value as TransactionStatus })}
+                        className="px-2 py-1 border rounded text-sm flex-1"
+                      >
+                        {STATUS_OPTIONS.map(status => (
+                          <option key={status.value} value={status.value}>
+                            {status.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <Input
+                        value={action.value}
+                        onChange={(e) => updateAction(index, { type: action.type, value: e.target.value })}
+                        placeholder={action.type === 'append_note' ? 'Note text' : 'New value'}
+                        className="flex-1"
+                      />
+                    )}
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeAction(index)}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Stop Processing */}
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="stop-processing"
+              checked={stopProcessing}
+              onChange={(e) => setStopProcessing(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="stop-processing" className="text-sm font-medium cursor-pointer">
+              Stop further rules on match
+            </label>
+            <span className="text-xs text-gray-500">Lower-priority rules won&apos;t run on transactions this rule matches</span>
+          </div>
+
+          {/* Regression warning */}
+          {regressions && (
+            <div className="p-3 border border-red-200 bg-red-50 rounded space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium text-red-800">
+                <AlertTriangle size={16} />
+                This change breaks {regressions.length} golden example{regressions.length !== 1 ? 's' : ''} that pass with the saved rules
+              </div>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {regressions.map(result => (
+                  <GoldenExampleResultRow key={result.example.id} result={result} labels={availableLabels} />
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setRegressions(null)}>
+                  Keep editing
+                </Button>
+                <Button variant="destructive" size="sm" onClick={() => handleSubmit(true)} disabled={loading}>
+                  Save anyway
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="flex justify-end gap-2 pt-4">
             <Button variant="outline" onClick={onClose}>
               Cancel
             </Button>
             <Button
-              onClick={handleSubmit}
+              onClick={() => handleSubmit()}
               disabled={loading || loadingLabels}
             >
-              {loading ? 'Creating...' : 'Create Rule'}
+              {loading ? (isEditing ? 'Saving...' : 'Creating...') : (isEditing ? 'Save Changes' : 'Create Rule')}
             </Button>
           </div>
         </CardContent>
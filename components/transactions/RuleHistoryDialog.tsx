@@ -0,0 +1,149 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { RuleHistoryService } from '@/lib/rule-history-service'
+import { RulePerformanceService } from '@/lib/rule-performance-service'
+import { Rule, Label, RuleVersion, RuleVersionChangeType, RuleVersionPerformance } from '@/types/database'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { X, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface RuleHistoryDialogProps {
+  rule: Rule
+  labels: Label[]
+  onClose: () => void
+  onRestore: () => void
+}
+
+const CHANGE_TYPE_LABELS: Record<RuleVersionChangeType, string> = {
+  created: 'Created',
+  edited: 'Edited',
+  toggled: 'Enabled/disabled',
+  reordered: 'Reordered',
+  restored: 'Restored'
+}
+
+export default function RuleHistoryDialog({ rule, labels, onClose, onRestore }: RuleHistoryDialogProps) {
+  const [versions, setVersions] = useState<RuleVersion[]>([])
+  const [performance, setPerformance] = useState<RuleVersionPerformance[]>([])
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState(false)
+
+  useEffect(() => {
+    fetchHistory()
+  }, [rule.id])
+
+  const fetchHistory = async () => {
+    setLoading(true)
+    const [ruleVersions, versionPerformance] = await Promise.all([
+      RuleHistoryService.getRuleVersions(rule.id),
+      RulePerformanceService.getVersionPerformance(rule.id)
+    ])
+    setVersions(ruleVersions)
+    setPerformance(versionPerformance)
+    setLoading(false)
+  }
+
+  const getLabelName = (labelId: string) => {
+    const label = labels.find(l => l.id === labelId)
+    return label?.name || 'Unknown Label'
+  }
+
+  const handleRestore = async (version: RuleVersion) => {
+    if (!confirm(`Restore version ${version.version} of "${rule.name}"?`)) return
+
+    setRestoring(true)
+    try {
+      await RuleHistoryService.restoreVersion(rule, version)
+      toast.success(`Restored version ${version.version}`)
+      onRestore()
+    } catch (error) {
+      console.error('Error restoring rule version:', error)
+      toast.error('Failed to restore rule version')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const currentVersion = versions[0]?.version
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Rule History</CardTitle>
+              <CardDescription>Every change to &quot;{rule.name}&quot; with its match rate while it was in effect</CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X size={16} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No history recorded for this rule yet</p>
+            </div>
+          ) : (
+            versions.map((version, index) => {
+              const changes = RuleHistoryService.diffRuleVersions(versions[index + 1] || null, version, getLabelName)
+              const versionPerformance = performance.find(p => p.version === version.version)
+
+              return (
+                <div key={version.id} className="p-3 border rounded space-y-2">
+                  <div className="flex justify-between items-start gap-3">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm">Version {version.version}</span>
+                        <Badge variant="outline">{CHANGE_TYPE_LABELS[version.change_type]}</Badge>
+                        {version.version === currentVersion && <Badge variant="secondary">Current</Badge>}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {version.created_at.toLocaleString()}
+                        {versionPerformance
+                          ? ` • ${(versionPerformance.match_rate * 100).toFixed(1)}% match rate over ${versionPerformance.executions} execution${versionPerformance.executions !== 1 ? 's' : ''}`
+                          : ' • No executions'}
+                      </div>
+                    </div>
+                    {version.version !== currentVersion && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoring}
+                        className="flex items-center gap-1"
+                      >
+                        <RotateCcw size={14} />
+                        Restore this version
+                      </Button>
+                    )}
+                  </div>
+                  {changes.length > 0 && (
+                    <div className="space-y-1">
+                      {changes.map(change => (
+                        <div key={change.field} className="text-sm bg-gray-50 p-2 rounded">
+                          <span className="font-medium">{change.field}:</span>{' '}
+                          {change.before && <span className="text-red-700 line-through">{change.before}</span>}
+                          {change.before && ' → '}
+                          <span className="text-green-700">{change.after}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  RulePortabilityService,
+  RuleImportPlan,
+  RuleConflictResolution
+} from '@/lib/rule-portability-service'
+import { Rule, Label } from '@/types/database'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { X, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface RuleImportDialogProps {
+  rules: Rule[]
+  labels: Label[]
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const CONFLICT_RESOLUTIONS: { value: RuleConflictResolution; label: string }[] = [
+  { value: 'skip', label: 'Keep existing' },
+  { value: 'replace', label: 'Replace existing' },
+  { value: 'rename', label: 'Import as copy' }
+]
+
+export default function RuleImportDialog({ rules, labels, onClose, onSuccess }: RuleImportDialogProps) {
+  const [plan, setPlan] = useState<RuleImportPlan | null>(null)
+  const [resolutions, setResolutions] = useState<Record<number, RuleConflictResolution>>({})
+  const [createMissingLabels, setCreateMissingLabels] = useState(true)
+  const [loading, setLoading] = useState(false)
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      const exportDocument = RulePortabilityService.parseExport(await file.text())
+      setPlan(RulePortabilityService.planImport(exportDocument, rules, labels))
+      setResolutions({})
+    } catch (error) {
+      console.error('Error reading rules file:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to read rules file')
+      setPlan(null)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+
+    setLoading(true)
+    try {
+      const result = await RulePortabilityService.applyImport(plan, resolutions, rules, labels, createMissingLabels)
+      toast.success(
+        `Imported rules: ${result.created} created, ${result.replaced} replaced, ${result.skipped} skipped` +
+        (result.labelsCreated > 0 ? `, ${result.labelsCreated} labels created` : '')
+      )
+      if (result.skippedForMissingLabels.length > 0) {
+        toast.warning(`Skipped because their conditions use missing labels: ${result.skippedForMissingLabels.join(', ')}`)
+      }
+      onSuccess()
+    } catch (error) {
+      console.error('Error importing rules:', error)
+      toast.error('Failed to import rules')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getStatusBadge = (status: RuleImportPlan['items'][number]['status']) => {
+    switch (status) {
+      case 'new':
+        return <Badge className="bg-green-600 text-white">New</Badge>
+      case 'identical':
+        return <Badge variant="secondary">Already exists</Badge>
+      case 'conflict':
+        return <Badge variant="destructive">Name conflict</Badge>
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Import Rules</CardTitle>
+              <CardDescription>Load a rules export and review it before anything is saved</CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X size={16} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium mb-2">Rules file (.json)</label>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileSelect}
+              className="block w-full text-sm"
+            />
+          </div>
+
+          {plan && (
+            <>
+              <div>
+                <h4 className="font-medium text-sm mb-2">Rules ({plan.items.length})</h4>
+                <div className="space-y-2">
+                  {plan.items.map((item, index) => (
+                    <div key={index} className="flex justify-between items-center gap-3 p-3 bg-gray-50 rounded">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm truncate">{item.rule.name}</span>
+                          {getStatusBadge(item.status)}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          Labels: {item.rule.labels.join(', ') || 'none'}
+                          {item.missingLabels.length > 0 && (
+                            <span className="text-amber-600"> • missing: {item.missingLabels.join(', ')}</span>
+                          )}
+                        </div>
+                      </div>
+                      {item.status === 'conflict' && (
+                        <select
+                          value={resolutions[index] || 'skip'}
+                          onChange={(e) => setResolutions(prev => ({ ...prev, [index]: e.target.value as RuleConflictResolution }))}
+                          className="px-2 py-1 border rounded text-sm"
+                        >
+                          {CONFLICT_RESOLUTIONS.map(resolution => (
+                            <option key={resolution.value} value={resolution.value}>
+                              {resolution.label}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {plan.missingLabels.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="create-missing-labels"
+                      checked={createMissingLabels}
+                      onChange={(e) => setCreateMissingLabels(e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <label htmlFor="create-missing-labels" className="text-sm font-medium cursor-pointer">
+                      Create {plan.missingLabels.length} missing label{plan.missingLabels.length !== 1 ? 's' : ''}
+                    </label>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {plan.missingLabels.map(label => (
+                      <Badge key={label.name} style={{ backgroundColor: label.color }} className="text-white">
+                        {label.name}
+                      </Badge>
+                    ))}
+                  </div>
+                  {!createMissingLabels && (
+                    <p className="text-xs text-gray-500">
+                      Missing labels will be left out of the imported rules; rules whose conditions use them will be skipped
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={loading || !plan}
+              className="flex items-center gap-2"
+            >
+              <Upload size={16} />
+              {loading ? 'Importing...' : 'Import Rules'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
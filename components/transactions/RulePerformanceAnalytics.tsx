@@ -6,7 +6,9 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { RulePerformanceService } from '@/lib/rule-performance-service'
-import { RulePerformanceStats, RulePerformanceWithRule, RuleExecutionLog } from '@/types/database'
+import { RuleStatisticsSettings, getTrendFromSeries } from '@/lib/rule-statistics'
+import { RulePerformanceStats, RulePerformanceWithRule, RuleExecutionLog, RuleTimeSeriesPoint } from '@/types/database'
+import RuleTrendChart from './RuleTrendChart'
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -19,9 +21,23 @@ import {
   AlertTriangle,
   Trophy,
   Calendar,
-  RefreshCw
+  RefreshCw,
+  Archive
 } from 'lucide-react'
 import { formatCurrency } from '@/lib/utils'
+import { toast } from 'sonner'
+
+const RETENTION_OPTIONS = [30, 90, 180, 365]
+
+const TREND_RANGES = [7, 30, 90]
+
+const WEEK_START_OPTIONS = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 6, label: 'Saturday' }
+]
+
+const COMMON_TIME_ZONES = ['Asia/Jerusalem', 'UTC', 'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Los_Angeles']
 
 interface RulePerformanceAnalyticsProps {
   className?: string
@@ -32,6 +48,13 @@ export default function RulePerformanceAnalytics({ className }: RulePerformanceA
   const [allPerformance, setAllPerformance] = useState<RulePerformanceWithRule[]>([])
   const [todayPerformance, setTodayPerformance] = useState<RulePerformanceWithRule[]>([])
   const [underperforming, setUnderperforming] = useState<RulePerformanceWithRule[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [statisticsSettings, setStatisticsSettings] = useState<RuleStatisticsSettings | null>(null)
+  const [trendRuleId, setTrendRuleId] = useState('')
+  const [trendDays, setTrendDays] = useState(30)
+  const [trendPoints, setTrendPoints] = useState<RuleTimeSeriesPoint[]>([])
+  const [trendLoading, setTrendLoading] = useState(false)
+  const [pruning, setPruning] = useState(false)
   const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState('overview')
 
@@ -39,20 +62,36 @@ export default function RulePerformanceAnalytics({ className }: RulePerformanceA
     loadPerformanceData()
   }, [])
 
+  useEffect(() => {
+    if (trendRuleId) loadTrend()
+  }, [trendRuleId, trendDays])
+
+  const loadTrend = async () => {
+    setTrendLoading(true)
+    setTrendPoints(await RulePerformanceService.getRuleTimeSeries(trendRuleId, trendDays))
+    setTrendLoading(false)
+  }
+
   const loadPerformanceData = async () => {
     setLoading(true)
     try {
-      const [statsData, allData, todayData, underData] = await Promise.all([
+      const [statsData, allData, todayData, underData, retentionData, settingsData] = await Promise.all([
         RulePerformanceService.getPerformanceStats(),
         RulePerformanceService.getAllRulePerformance(),
         RulePerformanceService.getTodayPerformance(),
-        RulePerformanceService.getUnderperformingRules()
+        RulePerformanceService.getUnderperformingRules(),
+        RulePerformanceService.getLogRetentionDays(),
+        RulePerformanceService.getStatisticsSettings()
       ])
 
       setStats(statsData)
       setAllPerformance(allData)
       setTodayPerformance(todayData)
       setUnderperforming(underData)
+      setRetentionDays(retentionData)
+      setStatisticsSettings(settingsData)
+      setTrendRuleId(current => current || allData[0]?.rule_id || '')
+      if (trendRuleId) loadTrend()
     } catch (error) {
       console.error('Error loading performance data:', error)
     } finally {
@@ -60,6 +99,43 @@ export default function RulePerformanceAnalytics({ className }: RulePerformanceA
     }
   }
 
+  const handleRetentionChange = async (days: number) => {
+    try {
+      await RulePerformanceService.setLogRetentionDays(days)
+      setRetentionDays(days)
+      toast.success(`Detailed logs will be kept for ${days} days`)
+    } catch (error) {
+      console.error('Error updating log retention:', error)
+      toast.error('Failed to update log retention')
+    }
+  }
+
+  const handleStatisticsSettingsChange = async (settings: RuleStatisticsSettings) => {
+    try {
+      await RulePerformanceService.setStatisticsSettings(settings)
+      setStatisticsSettings(settings)
+      toast.success('Statistics settings updated')
+      loadPerformanceData()
+    } catch (error) {
+      console.error('Error updating statistics settings:', error)
+      toast.error('Failed to update statistics settings')
+    }
+  }
+
+  const handlePrune = async () => {
+    setPruning(true)
+    try {
+      const deleted = await RulePerformanceService.pruneExecutionLogs()
+      toast.success(`Removed ${deleted} old execution log${deleted !== 1 ? 's' : ''}`)
+      loadPerformanceData()
+    } catch (error) {
+      console.error('Error pruning execution logs:', error)
+      toast.error('Failed to prune execution logs')
+    } finally {
+      setPruning(false)
+    }
+  }
+
   const getTrendIcon = (trend: 'improving' | 'declining' | 'stable') => {
     switch (trend) {
       case 'improving':
@@ -237,6 +313,55 @@ export default function RulePerformanceAnalytics({ className }: RulePerformanceA
         </TabsContent>
 
         <TabsContent value="rules" className="space-y-4">
+          {allPerformance.length > 0 && (
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap justify-between items-start gap-3">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      Daily Trend
+                      {trendPoints.length > 0 && getTrendIcon(getTrendFromSeries(trendPoints))}
+                    </CardTitle>
+                    <CardDescription>
+                      Executions and matches per day{statisticsSettings && ` (${statisticsSettings.timeZone})`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={trendRuleId}
+                      onChange={(e) => setTrendRuleId(e.target.value)}
+                      className="px-2 py-1 border rounded text-sm"
+                    >
+                      {allPerformance.map(performance => (
+                        <option key={performance.rule_id} value={performance.rule_id}>
+                          {performance.rule.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={trendDays}
+                      onChange={(e) => setTrendDays(Number(e.target.value))}
+                      className="px-2 py-1 border rounded text-sm"
+                    >
+                      {TREND_RANGES.map(days => (
+                        <option key={days} value={days}>Last {days} days</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {trendLoading ? (
+                  <div className="flex items-center justify-center h-40">
+                    <RefreshCw className="h-5 w-5 animate-spin" />
+                  </div>
+                ) : (
+                  <RuleTrendChart points={trendPoints} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {allPerformance.length === 0 ? (
             <Card className="p-6">
               <div className="text-center">
@@ -408,6 +533,67 @@ export default function RulePerformanceAnalytics({ className }: RulePerformanceA
               </CardContent>
             </Card>
           </div>
+
+          {/* Log Retention */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Archive className="h-5 w-5" />
+                Statistics Settings
+              </CardTitle>
+              <CardDescription>
+                Matched executions are logged in detail for a limited time. Daily totals are kept permanently, so statistics are not affected.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {statisticsSettings && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <label htmlFor="statistics-timezone" className="text-sm font-medium">Timezone</label>
+                  <select
+                    id="statistics-timezone"
+                    value={statisticsSettings.timeZone}
+                    onChange={(e) => handleStatisticsSettingsChange({ ...statisticsSettings, timeZone: e.target.value })}
+                    className="px-2 py-1 border rounded text-sm"
+                  >
+                    {Array.from(new Set([
+                      statisticsSettings.timeZone,
+                      Intl.DateTimeFormat().resolvedOptions().timeZone,
+                      ...COMMON_TIME_ZONES
+                    ])).map(timeZone => (
+                      <option key={timeZone} value={timeZone}>{timeZone}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="statistics-week-start" className="text-sm font-medium">Week starts on</label>
+                  <select
+                    id="statistics-week-start"
+                    value={statisticsSettings.weekStart}
+                    onChange={(e) => handleStatisticsSettingsChange({ ...statisticsSettings, weekStart: Number(e.target.value) })}
+                    className="px-2 py-1 border rounded text-sm"
+                  >
+                    {WEEK_START_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-3">
+                <label htmlFor="log-retention" className="text-sm font-medium">Keep detailed logs for</label>
+                <select
+                  id="log-retention"
+                  value={retentionDays ?? ''}
+                  onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                  className="px-2 py-1 border rounded text-sm"
+                >
+                  {RETENTION_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                </select>
+                <Button variant="outline" size="sm" onClick={handlePrune} disabled={pruning}>
+                  {pruning ? 'Pruning...' : 'Prune now'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,256 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { RuleRegressionService } from '@/lib/rule-regression-service'
+import { GoldenExampleResult, Label, RuleGoldenExample, RuleRegressionReport } from '@/types/database'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle2, XCircle, Play, Pin, Pencil, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface RuleRegressionSuiteProps {
+  labels: Label[]
+}
+
+interface GoldenExampleResultRowProps {
+  result: GoldenExampleResult
+  labels: Label[]
+}
+
+/**
+ * Pass/fail line for one golden example with label differences and the rule trace
+ */
+export function GoldenExampleResultRow({ result, labels }: GoldenExampleResultRowProps) {
+  const [showTrace, setShowTrace] = useState(!result.passed)
+  const getLabelName = (labelId: string) => labels.find(label => label.id === labelId)?.name || 'Unknown Label'
+  const transaction = result.example.transaction
+
+  return (
+    <div className={`p-2 rounded border text-sm ${result.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {result.passed
+            ? <CheckCircle2 size={16} className="text-green-600 shrink-0" />
+            : <XCircle size={16} className="text-red-600 shrink-0" />}
+          <span className="font-medium truncate">{transaction?.description || 'Deleted transaction'}</span>
+        </div>
+        <button
+          onClick={() => setShowTrace(!showTrace)}
+          className="text-xs text-gray-600 hover:text-gray-900 shrink-0"
+        >
+          {showTrace ? 'Hide trace' : 'Show trace'}
+        </button>
+      </div>
+
+      {(result.missing_labels.length > 0 || result.unexpected_labels.length > 0) && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {result.missing_labels.map(labelId => (
+            <Badge key={`missing-${labelId}`} variant="outline" className="border-red-500 text-red-700">
+              missing {getLabelName(labelId)}
+            </Badge>
+          ))}
+          {result.unexpected_labels.map(labelId => (
+            <Badge key={`unexpected-${labelId}`} variant="outline" className="border-orange-500 text-orange-700">
+              unexpected {getLabelName(labelId)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {showTrace && (
+        <div className="mt-2 space-y-0.5 text-xs">
+          {result.trace.length === 0 ? (
+            <div className="text-gray-500">No active rules were evaluated</div>
+          ) : (
+            result.trace.map(step => (
+              <div key={step.rule_id} className={step.matched ? 'text-gray-900' : 'text-gray-400'}>
+                {step.matched ? '✓' : '✗'} {step.rule_name}
+                {step.labels.length > 0 && ` → ${step.labels.map(getLabelName).join(', ')}`}
+                {step.stopped && ' (stopped further rules)'}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function RuleRegressionSuite({ labels }: RuleRegressionSuiteProps) {
+  const [examples, setExamples] = useState<RuleGoldenExample[]>([])
+  const [report, setReport] = useState<RuleRegressionReport | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    fetchExamples()
+  }, [])
+
+  const fetchExamples = async () => {
+    setExamples(await RuleRegressionService.getGoldenExamples())
+  }
+
+  const getLabelById = (labelId: string) => labels.find(label => label.id === labelId)
+
+  const handleRun = async () => {
+    setLoading(true)
+    try {
+      const result = await RuleRegressionService.runSavedRegression()
+      setReport(result)
+      setExamples(result.results.map(item => item.example))
+      if (result.failed > 0) {
+        toast.error(`${result.failed} of ${result.results.length} golden examples failed`)
+      } else {
+        toast.success(`All ${result.results.length} golden examples passed`)
+      }
+    } catch (error) {
+      console.error('Error running regression:', error)
+      toast.error('Failed to run regression')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleExpectedLabel = async (example: RuleGoldenExample, labelId: string) => {
+    const expected = example.expected_labels.includes(labelId)
+      ? example.expected_labels.filter(id => id !== labelId)
+      : [...example.expected_labels, labelId]
+
+    try {
+      await RuleRegressionService.updateExpectedLabels(example.id, expected)
+      setExamples(prev => prev.map(item => item.id === example.id ? { ...item, expected_labels: expected } : item))
+      setReport(null)
+    } catch (error) {
+      console.error('Error updating golden example:', error)
+      toast.error('Failed to update expected labels')
+    }
+  }
+
+  const handleUnpin = async (example: RuleGoldenExample) => {
+    try {
+      await RuleRegressionService.unpin(example.id)
+      setExamples(prev => prev.filter(item => item.id !== example.id))
+      setReport(null)
+      toast.success('Golden example removed')
+    } catch (error) {
+      console.error('Error removing golden example:', error)
+      toast.error('Failed to remove golden example')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Pin size={18} />
+              Golden Examples
+            </CardTitle>
+            <CardDescription>
+              Pinned transactions with the labels your rules should produce. The regression also runs before a rule change is saved.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={handleRun}
+            disabled={loading || examples.length === 0}
+            className="flex items-center gap-2 shrink-0"
+          >
+            <Play size={16} />
+            {loading ? 'Running...' : 'Run Regression'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {report && (
+          <div className="flex items-center gap-2 text-sm">
+            <Badge className="bg-green-600">{report.passed} passed</Badge>
+            <Badge variant={report.failed > 0 ? 'destructive' : 'secondary'}>{report.failed} failed</Badge>
+          </div>
+        )}
+
+        {examples.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">
+            <p>No golden examples yet</p>
+            <p className="text-sm">Pin a tested transaction above or from the transaction details</p>
+          </div>
+        ) : report ? (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {report.results.map(result => (
+              <GoldenExampleResultRow key={result.example.id} result={result} labels={labels} />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {examples.map(example => (
+              <div key={example.id} className="p-2 bg-gray-50 rounded space-y-2">
+                <div className="flex justify-between items-center gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">
+                      {example.transaction?.description || 'Deleted transaction'}
+                    </div>
+                    {example.transaction && (
+                      <div className="text-xs text-gray-500">
+                        {new Date(example.transaction.date).toLocaleDateString()} • {example.transaction.amount}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingId(editingId === example.id ? null : example.id)}
+                    >
+                      <Pencil size={14} />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleUnpin(example)}>
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {editingId === example.id ? (
+                    labels.map(label => {
+                      const selected = example.expected_labels.includes(label.id)
+                      return (
+                        <Badge
+                          key={label.id}
+                          variant={selected ? 'default' : 'outline'}
+                          className="cursor-pointer"
+                          style={{
+                            backgroundColor: selected ? label.color : 'transparent',
+                            borderColor: label.color,
+                            color: selected ? 'white' : label.color
+                          }}
+                          onClick={() => toggleExpectedLabel(example, label.id)}
+                        >
+                          {label.name}
+                        </Badge>
+                      )
+                    })
+                  ) : example.expected_labels.length === 0 ? (
+                    <span className="text-xs text-gray-500">Expects no labels</span>
+                  ) : (
+                    example.expected_labels.map(labelId => {
+                      const label = getLabelById(labelId)
+                      return (
+                        <Badge
+                          key={labelId}
+                          style={{ backgroundColor: label?.color || '#3B82F6' }}
+                          className="text-white"
+                        >
+                          {label?.name || 'Unknown Label'}
+                        </Badge>
+                      )
+                    })
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
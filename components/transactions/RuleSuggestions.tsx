@@ -0,0 +1,97 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { RuleSuggestionService } from '@/lib/rule-suggestion-service'
+import { formatRuleConditions } from '@/lib/rules-engine'
+import { Label, RuleSuggestion } from '@/types/database'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Lightbulb, Plus, X } from 'lucide-react'
+
+interface RuleSuggestionsProps {
+  labels: Label[]
+  onCreateRule: (suggestion: RuleSuggestion) => void
+}
+
+export default function RuleSuggestions({ labels, onCreateRule }: RuleSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<RuleSuggestion[]>([])
+  const [dismissed, setDismissed] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadSuggestions()
+  }, [])
+
+  const loadSuggestions = async () => {
+    setLoading(true)
+    try {
+      setSuggestions(await RuleSuggestionService.getSuggestions())
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getLabel = (labelId: string) => labels.find(l => l.id === labelId)
+
+  const visibleSuggestions = suggestions.filter(s => !dismissed.includes(s.pattern))
+
+  if (loading || visibleSuggestions.length === 0) return null
+
+  return (
+    <Card className="mb-4 border-amber-200 bg-amber-50/40">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Lightbulb size={18} className="text-amber-500" />
+          Suggested Rules ({visibleSuggestions.length})
+        </CardTitle>
+        <CardDescription>
+          Patterns found in transactions you labeled by hand
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {visibleSuggestions.map(suggestion => (
+          <div key={suggestion.pattern} className="flex items-center justify-between gap-3 p-3 bg-white rounded border">
+            <div className="min-w-0 space-y-1">
+              <div className="text-sm font-medium">{formatRuleConditions(suggestion.conditions)}</div>
+              <div className="flex flex-wrap items-center gap-1">
+                {suggestion.labels_to_apply.map(labelId => (
+                  <Badge
+                    key={labelId}
+                    style={{ backgroundColor: getLabel(labelId)?.color || '#3B82F6' }}
+                    className="text-white"
+                  >
+                    {getLabel(labelId)?.name || 'Unknown Label'}
+                  </Badge>
+                ))}
+                <span className="text-xs text-gray-500 ml-1">
+                  {suggestion.support} transactions • {Math.round(suggestion.confidence * 100)}% confidence
+                </span>
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                e.g. {suggestion.sample_descriptions.join(', ')}
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                size="sm"
+                onClick={() => onCreateRule(suggestion)}
+                className="flex items-center gap-1"
+              >
+                <Plus size={14} />
+                Create rule
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDismissed(prev => [...prev, suggestion.pattern])}
+              >
+                <X size={14} />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
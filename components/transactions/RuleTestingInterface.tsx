@@ -3,15 +3,18 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/context/auth'
 import { supabase } from '@/lib/supabase'
-import { Rule, Transaction, Label } from '@/types/database'
-import { testRulesAgainstTransaction } from '@/lib/rules-engine'
+import { Rule, RuleAction, Transaction, Label } from '@/types/database'
+import { testRulesAgainstTransaction, flattenRuleConditions, formatRuleAction, formatRuleCondition, formatRuleConditions } from '@/lib/rules-engine'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { X, Play, AlertCircle, CheckCircle2, Clock, DollarSign, FileText, Calendar, MapPin } from 'lucide-react'
+import { X, Play, AlertCircle, CheckCircle2, Clock, DollarSign, FileText, Calendar, MapPin, Coins } from 'lucide-react'
 import { toast } from 'sonner'
+import RetroactiveRuleRun from '@/components/transactions/RetroactiveRuleRun'
+import RuleRegressionSuite from '@/components/transactions/RuleRegressionSuite'
+import PinGoldenExampleButton from '@/components/transactions/PinGoldenExampleButton'
 
 interface RuleTestingInterfaceProps {
   onClose: () => void
@@ -41,6 +44,7 @@ export default function RuleTestingInterface({ onClose }: RuleTestingInterfacePr
   const [testResults, setTestResults] = useState<{
     matchingRules: Rule[]
     labelsToApply: string[]
+    actionsToApply: RuleAction[]
     transaction: Transaction | null
   } | null>(null)
 
@@ -167,22 +171,13 @@ export default function RuleTestingInterface({ onClose }: RuleTestingInterfacePr
     }
   }
 
-  const formatCondition = (condition: any) => {
-    const field = condition.field.charAt(0).toUpperCase() + condition.field.slice(1)
-    const operator = condition.operator.replace(/_/g, ' ')
-    let value = condition.value
-
-    if (condition.operator === 'between' && Array.isArray(value)) {
-      value = `${value[0]} - ${value[1]}`
-    }
-
-    return `${field} ${operator} "${value}"`
-  }
-
   const getFieldIcon = (field: string) => {
     switch (field) {
       case 'description': return <FileText size={16} />
-      case 'amount': return <DollarSign size={16} />
+      case 'amount':
+      case 'abs_amount':
+      case 'converted_amount': return <DollarSign size={16} />
+      case 'original_currency': return <Coins size={16} />
       case 'identifier': return <AlertCircle size={16} />
       case 'date': return <Calendar size={16} />
       case 'source': return <MapPin size={16} />
@@ -201,7 +196,7 @@ export default function RuleTestingInterface({ onClose }: RuleTestingInterfacePr
                 Rule Testing Interface
               </CardTitle>
               <CardDescription>
-                Test your rules against sample or existing transactions to see which rules would match
+                Test your rules against sample or existing transactions, or re-run a rule over past transactions
               </CardDescription>
             </div>
             <Button variant="ghost" size="sm" onClick={onClose}>
@@ -324,7 +319,7 @@ export default function RuleTestingInterface({ onClose }: RuleTestingInterfacePr
                     <div key={rule.id} className="p-2 bg-gray-50 rounded text-sm">
                       <div className="font-medium">{rule.name}</div>
                       <div className="text-xs text-gray-600">
-                        {rule.conditions.length} condition{rule.conditions.length !== 1 ? 's' : ''} • {rule.labels_to_apply.length} label{rule.labels_to_apply.length !== 1 ? 's' : ''}
+                        {flattenRuleConditions(rule.conditions).length} condition{flattenRuleConditions(rule.conditions).length !== 1 ? 's' : ''} • {rule.labels_to_apply.length} label{rule.labels_to_apply.length !== 1 ? 's' : ''}
                       </div>
                     </div>
                   ))}
@@ -407,12 +402,13 @@ export default function RuleTestingInterface({ onClose }: RuleTestingInterfacePr
                         <div className="space-y-3">
                           {testResults.matchingRules.map(rule => (
                             <div key={rule.id} className="border rounded p-3">
-                              <div className="font-medium text-sm mb-2">{rule.name}</div>
+                              <div className="font-medium text-sm mb-1">{rule.name}</div>
+                              <div className="text-xs text-gray-600 mb-2">{formatRuleConditions(rule.conditions)}</div>
                               <div className="space-y-1">
-                                {rule.conditions.map((condition, index) => (
+                                {flattenRuleConditions(rule.conditions).map((condition, index) => (
                                   <div key={index} className="flex items-center gap-2 text-xs bg-green-50 p-2 rounded">
                                     {getFieldIcon(condition.field)}
-                                    <span className="text-green-700">{formatCondition(condition)}</span>
+                                    <span className="text-green-700">{formatRuleCondition(condition)}</span>
                                   </div>
                                 ))}
                               </div>
@@ -426,7 +422,16 @@ export default function RuleTestingInterface({ onClose }: RuleTestingInterfacePr
                   {/* Labels to Apply */}
                   <Card>
                     <CardHeader>
-                      <CardTitle className="text-lg">Labels to Apply ({testResults.labelsToApply.length})</CardTitle>
+                      <div className="flex justify-between items-center gap-2">
+                        <CardTitle className="text-lg">Labels to Apply ({testResults.labelsToApply.length})</CardTitle>
+                        {/* Only saved transactions can be pinned */}
+                        {testResults.transaction && existingTransactions.some(t => t.id === testResults.transaction?.id) && (
+                          <PinGoldenExampleButton
+                            transactionId={testResults.transaction.id}
+                            expectedLabels={testResults.labelsToApply}
+                          />
+                        )}
+                      </div>
                     </CardHeader>
                     <CardContent>
                       {testResults.labelsToApply.length === 0 ? (
@@ -451,12 +456,44 @@ export default function RuleTestingInterface({ onClose }: RuleTestingInterfacePr
                       )}
                     </CardContent>
                   </Card>
+
+                  {/* Actions to Apply */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Actions to Apply ({testResults.actionsToApply.length})</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {testResults.actionsToApply.length === 0 ? (
+                        <div className="text-center py-4 text-gray-500">
+                          <p>No actions would be applied</p>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          {testResults.actionsToApply.map((action, index) => (
+                            <div key={index} className="text-sm bg-gray-50 p-2 rounded">
+                              {formatRuleAction(action)}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
                 </div>
               )}
             </div>
           </div>
+
+          {/* Retroactive run over approved history */}
+          <div className="mt-8">
+            <RetroactiveRuleRun rules={rules} labels={labels} />
+          </div>
+
+          {/* Golden examples regression */}
+          <div className="mt-8">
+            <RuleRegressionSuite labels={labels} />
+          </div>
         </CardContent>
       </Card>
     </div>
   )
-} 
\ No newline at end of file
+}
\ No newline at end of file
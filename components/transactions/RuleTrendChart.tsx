@@ -0,0 +1,56 @@
+'use client'
+
+import { RuleTimeSeriesPoint } from '@/types/database'
+
+interface RuleTrendChartProps {
+  points: RuleTimeSeriesPoint[]
+  height?: number
+}
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+export default function RuleTrendChart({ points, height = 160 }: RuleTrendChartProps) {
+  const maxExecutions = Math.max(1, ...points.map(point => point.executions))
+  const totalExecutions = points.reduce((sum, point) => sum + point.executions, 0)
+
+  if (totalExecutions === 0) {
+    return (
+      <div className="flex items-center justify-center text-gray-500 text-sm" style={{ height }}>
+        No executions in this period
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-px" style={{ height }}>
+        {points.map(point => (
+          <div
+            key={point.day}
+            className="relative flex-1 bg-gray-200 rounded-t-sm"
+            style={{ height: `${(point.executions / maxExecutions) * 100}%` }}
+            title={`${formatDay(point.day)}: ${point.executions} executions, ${point.matches} matches (${(point.match_rate * 100).toFixed(1)}%)`}
+          >
+            <div
+              className="absolute bottom-0 left-0 right-0 bg-green-500 rounded-t-sm"
+              style={{ height: point.executions > 0 ? `${(point.matches / point.executions) * 100}%` : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{formatDay(points[0].day)}</span>
+        <span>{formatDay(points[points.length - 1].day)}</span>
+      </div>
+      <div className="flex items-center gap-4 text-xs text-gray-600 mt-2">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 bg-gray-200 rounded-sm" /> Executions
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 bg-green-500 rounded-sm" /> Matches
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TransactionWithLabels, SplitTransactionData, Label as DatabaseLabel } from '@/types/database';
 import { formatCurrency } from '@/lib/utils';
 import { createClient } from '@/utils/supabase/client';
+import { RuleApplicationService } from '@/lib/rule-application-service';
 import { toast } from 'sonner';
 import { Plus, Minus, Save, X, Scissors, DollarSign, AlertTriangle } from 'lucide-react';
 
@@ -237,6 +238,20 @@ export function SplitTransactionForm({ transaction, onSave, onCancel }: SplitTra
         }
       }
 
+      // Run active rules on the new parts, on top of the labels picked above
+      try {
+        await RuleApplicationService.applyToNewTransactions(
+          supabase,
+          transaction.user_id,
+          newTransactions.map((newTransaction, i) => ({
+            ...newTransaction,
+            transaction_labels: splits[i].labels.map(labelId => ({ label_id: labelId }))
+          }))
+        );
+      } catch (error) {
+        console.error('Error applying rules to split transactions:', error);
+      }
+
       toast.success(`Transaction split into ${splits.length} parts successfully`);
       onSave();
 
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { formatCurrency, formatDate } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 import { ApprovalActions } from './ApprovalActions';
+import PinGoldenExampleButton from './PinGoldenExampleButton';
 import { Calendar, DollarSign, FileText, Tag, Clock, User } from 'lucide-react';
 
 export interface TransactionDetailsProps {
@@ -167,6 +168,14 @@ export function TransactionDetails({
           </div>
         )}
 
+        {/* Golden example: the rules should keep producing the current labels */}
+        <div className="flex justify-end">
+          <PinGoldenExampleButton
+            transactionId={transaction.id}
+            expectedLabels={(transaction.labels || []).map((label) => label.id)}
+          />
+        </div>
+
         {/* Timestamps */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm text-muted-foreground">
           <div className="space-y-1">
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { InstallmentService } from '@/lib/installment-service'
+import { CurrencyCode, UpcomingInstallmentPlan } from '@/types/database'
+import { formatCurrency } from '@/lib/currency/formatting'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CalendarClock } from 'lucide-react'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+
+const formatMonth = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM yyyy', { locale: he })
+
+/**
+ * Remaining charges of installment purchases ("תשלומים"), shown on the dashboard as commitments
+ */
+export default function UpcomingInstallments() {
+  const [upcoming, setUpcoming] = useState<UpcomingInstallmentPlan[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    InstallmentService.getUpcomingInstallments()
+      .then(setUpcoming)
+      .finally(() => setLoading(false))
+  }, [])
+
+  // Plans can be in different currencies, so totals are kept per currency
+  const remainingByCurrency = useMemo(() => {
+    const totals = new Map<CurrencyCode, number>()
+    upcoming.forEach(({ plan, remaining }) => {
+      const sum = remaining.reduce((total, installment) => total + Math.abs(installment.amount), 0)
+      totals.set(plan.currency, (totals.get(plan.currency) || 0) + sum)
+    })
+    return Array.from(totals.entries())
+  }, [upcoming])
+
+  if (loading || upcoming.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              התחייבויות עתידיות
+            </CardTitle>
+            <CardDescription>
+              תשלומים שנותרו בעסקאות בתשלומים
+            </CardDescription>
+          </div>
+          <div className="text-left">
+            <div className="text-sm text-gray-600">סה"כ נותר לתשלום</div>
+            {remainingByCurrency.map(([currency, total]) => (
+              <div key={currency} className="text-xl font-bold text-red-600 ltr">
+                {formatCurrency(total, currency)}
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="text-right p-3 font-medium">תיאור העסקה</th>
+                <th className="text-right p-3 font-medium">תשלום</th>
+                <th className="text-right p-3 font-medium">חיוב חודשי</th>
+                <th className="text-right p-3 font-medium">נותר לתשלום</th>
+                <th className="text-right p-3 font-medium">תשלום אחרון</th>
+              </tr>
+            </thead>
+            <tbody>
+              {upcoming.map(({ plan, last_index, remaining }) => (
+                <tr key={plan.id} className="border-b hover:bg-gray-50">
+                  <td className="p-3">
+                    <div className="font-medium">{plan.description}</div>
+                    <div className="text-xs text-gray-500">
+                      סכום העסקה: <span className="ltr">{formatCurrency(Math.abs(plan.total_amount), plan.currency)}</span>
+                    </div>
+                  </td>
+                  <td className="p-3">
+                    <Badge variant="outline" className="ltr">
+                      {last_index}/{plan.installment_count}
+                    </Badge>
+                  </td>
+                  <td className="p-3 ltr">
+                    {formatCurrency(Math.abs(plan.installment_amount), plan.currency)}
+                  </td>
+                  <td className="p-3 ltr text-red-600 font-medium">
+                    {formatCurrency(remaining.reduce((total, installment) => total + Math.abs(installment.amount), 0), plan.currency)}
+                    <div className="text-xs text-gray-500">{remaining.length} תשלומים</div>
+                  </td>
+                  <td className="p-3 text-sm text-gray-600">
+                    {formatMonth(remaining[remaining.length - 1].date)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
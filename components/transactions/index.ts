@@ -19,6 +19,16 @@ export { default as RuleTestingInterface } from './RuleTestingInterface';
 export { default as FilterBuilder } from './FilterBuilder';
 export { FilterChips } from './FilterChips';
 export { default as RulePerformanceAnalytics } from './RulePerformanceAnalytics'
+export { default as RuleConflictAnalyzer } from './RuleConflictAnalyzer'
+export { default as RuleSuggestions } from './RuleSuggestions'
+export { default as RetroactiveRuleRun } from './RetroactiveRuleRun'
+export { default as RuleImportDialog } from './RuleImportDialog'
+export { default as RuleHistoryDialog } from './RuleHistoryDialog'
+export { default as RuleTrendChart } from './RuleTrendChart'
+export { default as RuleCoverageReport } from './RuleCoverageReport'
+export { default as RuleRegressionSuite } from './RuleRegressionSuite'
+export { default as PinGoldenExampleButton } from './PinGoldenExampleButton'
+export { default as UpcomingInstallments } from './UpcomingInstallments'
 
 // Import/Export Components
 export { default as DataMappingTable } from '../import/DataMappingTable'
@@ -1,9 +1,39 @@
 import { SupabaseClient } from '@supabase/supabase-js'
-import { Filter, FilterCondition, FilterField, FilterOperator } from '@/components/transactions/FilterBuilder'
+import { Filter, FilterCondition, RuleConditionOperator, TRANSACTION_STATUSES, TransactionStatus } from '@/types/database'
+import { isMissingValue, isValuelessOperator } from '@/lib/condition-operators'
+import { EvaluatedTransaction, evaluateConditions, filterToRuleConditions, normalizeFilter } from '@/lib/rules-engine'
+
+type FilterOperator = RuleConditionOperator
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000
+
+// Filters the query can't narrow are evaluated on the client, over at most this many recent transactions
+const MAX_SCANNED_TRANSACTIONS = 5000
+
+export interface TransactionSearchResult {
+  transactions: EvaluatedTransaction[]
+  scanned: number // transactions evaluated
+  complete: boolean // false when the scan stopped at MAX_SCANNED_TRANSACTIONS
+}
+
+const TRANSACTION_SELECT = `
+  *,
+  transaction_labels (
+    label_id,
+    labels (
+      id,
+      name,
+      color
+    )
+  )
+`
 
 /**
- * Converts a complex filter object into a Supabase query
- * Supports multiple conditions with AND/OR logic
+ * Builds a query that narrows the transactions a filter can match.
+ * The query only pushes down conditions whose SQL form matches at least the rows the
+ * rules engine would, and only for AND filters; `searchTransactions` decides the
+ * actual matches with the rules evaluator, so searches and rules always agree.
  */
 export function applyAdvancedFilterToQuery(
   supabase: SupabaseClient,
@@ -12,120 +42,95 @@ export function applyAdvancedFilterToQuery(
 ) {
   let query = supabase
     .from(tableName)
-    .select(`
-      *,
-      transaction_labels (
-        label_id,
-        labels (
-          id,
-          name,
-          color
-        )
-      )
-    `)
+    .select(TRANSACTION_SELECT)
 
-  // If no conditions, return the base query
-  if (!filter.conditions || filter.conditions.length === 0) {
+  if (!filter.conditions || filter.conditions.length === 0 || filter.conjunction !== 'AND') {
     return query
   }
 
-  // Apply conditions based on conjunction (AND/OR)
-  if (filter.conjunction === 'AND') {
-    // For AND, we apply each condition directly to the query
-    filter.conditions.forEach(condition => {
-      query = applyConditionToQuery(query, condition)
-    })
-  } else {
-    // For OR, we need to use the .or() method
-    const orConditions = filter.conditions.map(condition => 
-      buildConditionString(condition)
-    ).filter(Boolean)
-    
-    if (orConditions.length > 0) {
-      query = query.or(orConditions.join(','))
-    }
-  }
+  normalizeFilter(filter).conditions.forEach(condition => {
+    query = applyConditionToQuery(query, condition)
+  })
 
   return query
 }
 
 /**
- * Applies a single condition to a query (for AND logic)
+ * Finds the most recent transactions matching a filter, evaluated exactly like rule conditions.
+ * Pages through the prefiltered transactions until `limit` matches are found or
+ * MAX_SCANNED_TRANSACTIONS have been evaluated.
  */
-function applyConditionToQuery(query: any, condition: FilterCondition) {
-  const { field, operator, value } = condition
-
-  if (!value || (Array.isArray(value) && value.some(v => !v))) {
-    return query
+export async function searchTransactions(
+  supabase: SupabaseClient,
+  filter: Filter,
+  limit: number = 50
+): Promise<TransactionSearchResult> {
+  const conditions = filterToRuleConditions(filter)
+  const matches: EvaluatedTransaction[] = []
+  let scanned = 0
+  let complete = false
+
+  while (matches.length < limit && scanned < MAX_SCANNED_TRANSACTIONS) {
+    const { data, error } = await applyAdvancedFilterToQuery(supabase, filter)
+      .order('date', { ascending: false })
+      .order('id')
+      .range(scanned, scanned + PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    const page = (data || []) as EvaluatedTransaction[]
+    scanned += page.length
+    matches.push(...page.filter(transaction => evaluateConditions(transaction, conditions)))
+    if (page.length < PAGE_SIZE) {
+      complete = true
+      break
+    }
   }
 
-  switch (field) {
-    case 'description':
-      return applyTextCondition(query, 'description', operator, value)
-    
-    case 'amount':
-      return applyNumberCondition(query, 'amount', operator, value)
-    
-    case 'date':
-      return applyDateCondition(query, 'date', operator, value)
-    
-    case 'source':
-      return applyTextCondition(query, 'source', operator, value)
-    
-    case 'status':
-      return applyStatusCondition(query, operator, value)
-    
-    case 'label':
-      return applyLabelCondition(query, operator, value)
-    
-    default:
-      return query
-  }
+  // Enough matches found: the older transactions can't change the results
+  if (matches.length >= limit) complete = true
+
+  return { transactions: matches.slice(0, limit), scanned, complete }
 }
 
 /**
- * Builds a condition string for OR logic
+ * Narrows the query for one AND condition. Conditions without a pushdown that is
+ * at least as broad as the rules engine (negations, regex, dates, labels,
+ * converted amounts, empty checks) are left to the evaluator.
  */
-function buildConditionString(condition: FilterCondition): string {
+function applyConditionToQuery(query: any, condition: FilterCondition) {
   const { field, operator, value } = condition
 
-  if (!value || (Array.isArray(value) && value.some(v => !v))) {
-    return ''
-  }
+  if (isValuelessOperator(operator)) return query
+  if (isMissingValue(value)) return query
+  if (Array.isArray(value) && value.some(isMissingValue)) return query
 
   switch (field) {
     case 'description':
-      return buildTextConditionString('description', operator, value)
-    
-    case 'amount':
-      return buildNumberConditionString('amount', operator, value)
-    
-    case 'date':
-      return buildDateConditionString('date', operator, value)
-    
     case 'source':
-      return buildTextConditionString('source', operator, value)
-    
+    case 'identifier':
+    case 'original_currency':
+      return applyTextCondition(query, field, operator, String(value))
+
     case 'status':
-      return buildStatusConditionString(operator, value)
-    
-    case 'label':
-      // Label conditions are complex and need special handling
-      // For now, we'll skip them in OR conditions
-      return ''
-    
+      return applyStatusCondition(query, operator, String(value))
+
+    case 'amount':
+      return applyAmountCondition(query, operator, value as number | number[])
+
     default:
-      return ''
+      return query
   }
 }
 
 /**
- * Text field condition handlers
+ * Text conditions compare case-insensitively in the engine, so they go through ILIKE.
+ * LIKE wildcards in the value only widen the match; the evaluator removes the extra rows.
  */
 function applyTextCondition(query: any, field: string, operator: FilterOperator, value: string) {
   switch (operator) {
     case 'equals':
-      return query.eq(field, value)
+      return query.ilike(field, value)
     case 'contains':
       return query.ilike(field, `%${value}%`)
     case 'starts_with':
@@ -137,135 +142,28 @@ function applyTextCondition(query: any, field: string, operator: FilterOperator,
   }
 }
 
-function buildTextConditionString(field: string, operator: FilterOperator, value: string): string {
-  switch (operator) {
-    case 'equals':
-      return `${field}.eq."${value}"`
-    case 'contains':
-      return `${field}.ilike."%${value}%"`
-    case 'starts_with':
-      return `${field}.ilike."${value}%"`
-    case 'ends_with':
-      return `${field}.ilike."%${value}"`
-    default:
-      return ''
-  }
-}
-
 /**
- * Number field condition handlers
+ * Status is an enum column, so only a known status is pushed down (the engine compares lowercased)
  */
-function applyNumberCondition(query: any, field: string, operator: FilterOperator, value: number | number[]) {
-  switch (operator) {
-    case 'equals':
-      return query.eq(field, value)
-    case 'greater_than':
-      return query.gt(field, value)
-    case 'less_than':
-      return query.lt(field, value)
-    case 'between':
-      if (Array.isArray(value) && value.length === 2) {
-        return query.gte(field, value[0]).lte(field, value[1])
-      }
-      return query
-    default:
-      return query
-  }
-}
-
-function buildNumberConditionString(field: string, operator: FilterOperator, value: number | number[]): string {
-  switch (operator) {
-    case 'equals':
-      return `${field}.eq.${value}`
-    case 'greater_than':
-      return `${field}.gt.${value}`
-    case 'less_than':
-      return `${field}.lt.${value}`
-    case 'between':
-      if (Array.isArray(value) && value.length === 2) {
-        return `${field}.gte.${value[0]},${field}.lte.${value[1]}`
-      }
-      return ''
-    default:
-      return ''
-  }
-}
-
-/**
- * Date field condition handlers
- */
-function applyDateCondition(query: any, field: string, operator: FilterOperator, value: string | string[]) {
-  switch (operator) {
-    case 'equals':
-      return query.eq(field, value)
-    case 'greater_than':
-      return query.gt(field, value)
-    case 'less_than':
-      return query.lt(field, value)
-    case 'between':
-      if (Array.isArray(value) && value.length === 2) {
-        return query.gte(field, value[0]).lte(field, value[1])
-      }
-      return query
-    default:
-      return query
-  }
+function applyStatusCondition(query: any, operator: FilterOperator, value: string) {
+  const status = value.toLowerCase() as TransactionStatus
+  if (operator !== 'equals' || !TRANSACTION_STATUSES.includes(status)) return query
+  return query.eq('status', status)
 }
 
-function buildDateConditionString(field: string, operator: FilterOperator, value: string | string[]): string {
+function applyAmountCondition(query: any, operator: FilterOperator, value: number | number[]) {
   switch (operator) {
     case 'equals':
-      return `${field}.eq."${value}"`
+      return query.eq('amount', value)
     case 'greater_than':
-      return `${field}.gt."${value}"`
+      return query.gt('amount', value)
     case 'less_than':
-      return `${field}.lt."${value}"`
+      return query.lt('amount', value)
     case 'between':
       if (Array.isArray(value) && value.length === 2) {
-        return `${field}.gte."${value[0]}",${field}.lte."${value[1]}"`
+        return query.gte('amount', value[0]).lte('amount', value[1])
       }
-      return ''
-    default:
-      return ''
-  }
-}
-
-/**
- * Status field condition handlers
- */
-function applyStatusCondition(query: any, operator: FilterOperator, value: string) {
-  switch (operator) {
-    case 'equals':
-      return query.eq('status', value)
-    case 'not_in':
-      return query.neq('status', value)
-    default:
       return query
-  }
-}
-
-function buildStatusConditionString(operator: FilterOperator, value: string): string {
-  switch (operator) {
-    case 'equals':
-      return `status.eq."${value}"`
-    case 'not_in':
-      return `status.neq."${value}"`
-    default:
-      return ''
-  }
-}
-
-/**
- * Label field condition handlers
- */
-function applyLabelCondition(query: any, operator: FilterOperator, value: string) {
-  switch (operator) {
-    case 'equals':
-      // Filter transactions that have this specific label
-      return query.filter('transaction_labels.label_id', 'eq', value)
-    case 'not_in':
-      // Filter transactions that don't have this specific label
-      return query.not('transaction_labels.label_id', 'eq', value)
     default:
       return query
   }
@@ -289,15 +187,9 @@ export async function testFilter(
       const matches = evaluateFilterAgainstTransaction(filter, sampleTransaction)
       return { matches }
     } else {
-      // Test against actual database with a limit
-      const query = applyAdvancedFilterToQuery(supabase, filter)
-      const { data, error } = await query.limit(10)
-      
-      if (error) {
-        return { matches: false, error: error.message }
-      }
-      
-      return { matches: (data?.length || 0) > 0, results: data || [] }
+      // Test against actual transactions with a limit
+      const { transactions } = await searchTransactions(supabase, filter, 10)
+      return { matches: transactions.length > 0, results: transactions }
     }
   } catch (error) {
     return { matches: false, error: error instanceof Error ? error.message : 'Unknown error' }
@@ -305,132 +197,13 @@ export async function testFilter(
 }
 
 /**
- * Evaluate a filter against a single transaction object
+ * Evaluate a filter against a single transaction object,
+ * using the same evaluator as rules
  */
 function evaluateFilterAgainstTransaction(filter: Filter, transaction: any): boolean {
   if (!filter.conditions || filter.conditions.length === 0) {
     return true
   }
 
-  const results = filter.conditions.map(condition => 
-    evaluateConditionAgainstTransaction(condition, transaction)
-  )
-
-  if (filter.conjunction === 'AND') {
-    return results.every(Boolean)
-  } else {
-    return results.some(Boolean)
-  }
+  return evaluateConditions(transaction, filterToRuleConditions(filter))
 }
-
-/**
- * Evaluate a single condition against a transaction
- */
-function evaluateConditionAgainstTransaction(condition: FilterCondition, transaction: any): boolean {
-  const { field, operator, value } = condition
-  
-  if (!value || (Array.isArray(value) && value.some(v => !v))) {
-    return false
-  }
-
-  const fieldValue = transaction[field]
-
-  switch (field) {
-    case 'description':
-    case 'source':
-      return evaluateTextCondition(fieldValue, operator, value)
-    case 'amount':
-      return evaluateNumberCondition(parseFloat(fieldValue), operator, value)
-    case 'date':
-      return evaluateDateCondition(fieldValue, operator, value)
-    case 'status':
-      return evaluateStatusCondition(fieldValue, operator, value)
-    case 'label':
-      return evaluateLabelCondition(transaction.transaction_labels, operator, value)
-    default:
-      return false
-  }
-}
-
-function evaluateTextCondition(fieldValue: string, operator: FilterOperator, value: string): boolean {
-  if (!fieldValue) return false
-  
-  switch (operator) {
-    case 'equals':
-      return fieldValue.toLowerCase() === value.toLowerCase()
-    case 'contains':
-      return fieldValue.toLowerCase().includes(value.toLowerCase())
-    case 'starts_with':
-      return fieldValue.toLowerCase().startsWith(value.toLowerCase())
-    case 'ends_with':
-      return fieldValue.toLowerCase().endsWith(value.toLowerCase())
-    default:
-      return false
-  }
-}
-
-function evaluateNumberCondition(fieldValue: number, operator: FilterOperator, value: number | number[]): boolean {
-  switch (operator) {
-    case 'equals':
-      return fieldValue === value
-    case 'greater_than':
-      return fieldValue > (value as number)
-    case 'less_than':
-      return fieldValue < (value as number)
-    case 'between':
-      if (Array.isArray(value) && value.length === 2) {
-        return fieldValue >= value[0] && fieldValue <= value[1]
-      }
-      return false
-    default:
-      return false
-  }
-}
-
-function evaluateDateCondition(fieldValue: string, operator: FilterOperator, value: string | string[]): boolean {
-  const fieldDate = new Date(fieldValue)
-  
-  switch (operator) {
-    case 'equals':
-      return fieldDate.toISOString().split('T')[0] === value
-    case 'greater_than':
-      return fieldDate > new Date(value as string)
-    case 'less_than':
-      return fieldDate < new Date(value as string)
-    case 'between':
-      if (Array.isArray(value) && value.length === 2) {
-        return fieldDate >= new Date(value[0]) && fieldDate <= new Date(value[1])
-      }
-      return false
-    default:
-      return false
-  }
-}
-
-function evaluateStatusCondition(fieldValue: string, operator: FilterOperator, value: string): boolean {
-  switch (operator) {
-    case 'equals':
-      return fieldValue === value
-    case 'not_in':
-      return fieldValue !== value
-    default:
-      return false
-  }
-}
-
-function evaluateLabelCondition(transactionLabels: any[], operator: FilterOperator, value: string): boolean {
-  if (!transactionLabels || transactionLabels.length === 0) {
-    return operator === 'not_in'
-  }
-  
-  const hasLabel = transactionLabels.some(tl => tl.label_id === value)
-  
-  switch (operator) {
-    case 'equals':
-      return hasLabel
-    case 'not_in':
-      return !hasLabel
-    default:
-      return false
-  }
-} 
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * Shared helpers for condition operators used by both rules and search filters
+ */
+
+// Operators that only inspect the field and ignore the condition value
+export const VALUELESS_OPERATORS = ['is_empty', 'is_not_empty'] as const
+
+// Longest pattern accepted by matches_regex
+const MAX_REGEX_LENGTH = 200
+
+// A quantified group that itself contains a quantifier, e.g. (a+)+ or (\w*)*
+const NESTED_QUANTIFIER_PATTERN = /\((?:[^()\\]|\\.)*[+*}]\)[+*{]/
+
+const regexCache = new Map<string, { regex: RegExp | null; error: string | null }>()
+
+/**
+ * Checks whether an operator is evaluated without a condition value
+ */
+export const isValuelessOperator = (operator: string): boolean => {
+  return (VALUELESS_OPERATORS as readonly string[]).includes(operator)
+}
+
+/**
+ * Checks whether a condition value was left blank; 0 is a value
+ */
+export const isMissingValue = (value: unknown): boolean => value === '' || value === null || value === undefined
+
+/**
+ * Checks whether a field value counts as empty for is_empty / is_not_empty
+ */
+export const isEmptyValue = (value: unknown): boolean => {
+  if (value === null || value === undefined) return true
+  if (typeof value === 'number') return isNaN(value)
+  return String(value).trim() === ''
+}
+
+/**
+ * Compiles a user-supplied pattern into a case-insensitive RegExp.
+ * Returns an error instead of throwing for invalid, overly long or
+ * backtracking-prone patterns so callers can report it to the user.
+ */
+export const compileSafeRegex = (pattern: string): { regex: RegExp | null; error: string | null } => {
+  const cached = regexCache.get(pattern)
+  if (cached) return cached
+
+  let result: { regex: RegExp | null; error: string | null }
+
+  if (!pattern) {
+    result = { regex: null, error: 'Pattern is empty' }
+  } else if (pattern.length > MAX_REGEX_LENGTH) {
+    result = { regex: null, error: `Pattern is longer than ${MAX_REGEX_LENGTH} characters` }
+  } else if (NESTED_QUANTIFIER_PATTERN.test(pattern)) {
+    result = { regex: null, error: 'Nested quantifiers like (a+)+ are not allowed' }
+  } else {
+    try {
+      result = { regex: new RegExp(pattern, 'i'), error: null }
+    } catch (error) {
+      result = { regex: null, error: error instanceof Error ? error.message : 'Invalid regular expression' }
+    }
+  }
+
+  regexCache.set(pattern, result)
+  return result
+}
+
+/**
+ * Tests a value against a pattern, treating invalid patterns as non-matching
+ */
+export const matchesSafeRegex = (value: string, pattern: string): boolean => {
+  const { regex } = compileSafeRegex(pattern)
+  return regex ? regex.test(value) : false
+}
@@ -0,0 +1,160 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { format } from 'date-fns'
+import { supabase } from './supabase'
+import { CurrencyCode, InstallmentPlan, Transaction, UpcomingInstallmentPlan } from '@/types/database'
+import { detectInstallment, getFirstChargeDate, scheduleRemainingInstallments } from '@/utils/installments'
+
+// Descriptions go into the query string for .in() filters, so keep the lists short
+const DESCRIPTION_CHUNK_SIZE = 100
+
+// Ids go into the query string for .in() filters, so keep the lists short
+const ID_CHUNK_SIZE = 200
+
+// Plans whose deal totals differ by less than this are the same deal
+const AMOUNT_TOLERANCE = 0.01
+
+interface PlanWithIndices extends InstallmentPlan {
+  indices: Set<number> // charge numbers already linked
+}
+
+/**
+ * Stores installment plans detected in imported card statements and
+ * lists the charges still to come
+ */
+export class InstallmentService {
+  /**
+   * Links imported transactions that are installment charges to their plan,
+   * creating the plan on its first charge. `rows` are the normalized import rows
+   * the transactions were built from, in the same order; the transactions are updated in place.
+   * Returns the ids of the plans created, so the caller can remove those whose charges never land.
+   */
+  static async linkImportedInstallments(
+    client: SupabaseClient,
+    userId: string,
+    rows: Record<string, any>[],
+    transactions: Partial<Transaction>[]
+  ): Promise<string[]> {
+    const detected = rows.map(row => detectInstallment(row))
+    const descriptions = Array.from(new Set(
+      detected.flatMap((installment, i) => installment ? [transactions[i].description || ''] : [])
+    ))
+    if (descriptions.length === 0) return []
+
+    // A plan already seen in earlier statements gets the new charges
+    const plans: PlanWithIndices[] = []
+    for (let i = 0; i < descriptions.length; i += DESCRIPTION_CHUNK_SIZE) {
+      const { data, error } = await client
+        .from('installment_plans')
+        .select('*, transactions(installment_index)')
+        .eq('user_id', userId)
+        .in('description', descriptions.slice(i, i + DESCRIPTION_CHUNK_SIZE))
+
+      if (error) throw error
+      for (const { transactions: linked, ...plan } of data || []) {
+        plans.push({
+          ...plan,
+          total_amount: Number(plan.total_amount),
+          installment_amount: Number(plan.installment_amount),
+          indices: new Set((linked || []).map((t: { installment_index: number | null }) => t.installment_index))
+        })
+      }
+    }
+
+    const createdPlanIds: string[] = []
+
+    for (let i = 0; i < transactions.length; i++) {
+      const installment = detected[i]
+      const transaction = transactions[i]
+      if (!installment) continue
+
+      // Identical purchases running side by side are told apart by the charge numbers they already have
+      let plan = plans.find(candidate =>
+        candidate.description === transaction.description &&
+        candidate.installment_count === installment.count &&
+        Math.abs(candidate.total_amount - installment.totalAmount) < AMOUNT_TOLERANCE &&
+        !candidate.indices.has(installment.index)
+      )
+
+      if (!plan) {
+        const { data, error } = await client
+          .from('installment_plans')
+          .insert({
+            user_id: userId,
+            description: transaction.description,
+            total_amount: installment.totalAmount,
+            installment_count: installment.count,
+            installment_amount: installment.installmentAmount,
+            currency: (transaction.original_currency || 'ILS') as CurrencyCode,
+            first_charge_date: getFirstChargeDate(String(transaction.date), installment.index)
+          })
+          .select()
+          .single()
+
+        if (error) throw error
+        const created: PlanWithIndices = {
+          ...data,
+          total_amount: Number(data.total_amount),
+          installment_amount: Number(data.installment_amount),
+          indices: new Set<number>()
+        }
+        plans.push(created)
+        createdPlanIds.push(created.id)
+        plan = created
+      }
+
+      plan.indices.add(installment.index)
+      transaction.installment_plan_id = plan.id
+      transaction.installment_index = installment.index
+    }
+
+    return createdPlanIds
+  }
+
+  /**
+   * Deletes plans that ended up without charges, e.g. when their charges failed to insert
+   */
+  static async deletePlans(client: SupabaseClient, planIds: string[]): Promise<void> {
+    for (let i = 0; i < planIds.length; i += ID_CHUNK_SIZE) {
+      const { error } = await client
+        .from('installment_plans')
+        .delete()
+        .in('id', planIds.slice(i, i + ID_CHUNK_SIZE))
+
+      if (error) throw error
+    }
+  }
+
+  /**
+   * Plans that still have charges to come, with the estimated remaining charges.
+   * Estimated charges already past are left out: their statements were just never imported.
+   */
+  static async getUpcomingInstallments(): Promise<UpcomingInstallmentPlan[]> {
+    try {
+      const { data, error } = await supabase
+        .from('installment_plans')
+        .select('*, transactions(installment_index)')
+        .order('first_charge_date', { ascending: true })
+
+      if (error) throw error
+
+      const today = format(new Date(), 'yyyy-MM-dd')
+
+      return (data || [])
+        .map(({ transactions: linked, ...row }) => {
+          const plan: InstallmentPlan = {
+            ...row,
+            total_amount: Number(row.total_amount),
+            installment_amount: Number(row.installment_amount)
+          }
+          const lastIndex = Math.max(0, ...(linked || []).map((t: { installment_index: number | null }) => t.installment_index || 0))
+          const remaining = scheduleRemainingInstallments(plan, lastIndex).filter(charge => charge.date >= today)
+
+          return { plan, last_index: lastIndex, remaining }
+        })
+        .filter(upcoming => upcoming.remaining.length > 0)
+    } catch (error) {
+      console.error('Error fetching upcoming installments:', error)
+      return []
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import { supabase } from './supabase'
+import { RetroactiveLabelChange, RetroactiveRunPreview, Rule, RuleChangeBatch, RuleChangeBatchItem, Transaction } from '@/types/database'
+import { findMatchingRules } from './rules-engine'
+import { RulePerformanceService } from './rule-performance-service'
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000
+
+// Ids go into the query string for .in() filters, so keep the lists short
+const ID_CHUNK_SIZE = 200
+
+type LabeledTransaction = Transaction & { transaction_labels?: { label_id: string }[] }
+
+/**
+ * Re-runs a rule over historical transactions with a dry-run preview,
+ * records each committed run as a change batch and can undo a batch
+ */
+export class RetroactiveRuleService {
+  /**
+   * Fetches every page of a query built by `buildQuery(from, to)`
+   */
+  private static async fetchAllPages<T>(
+    buildQuery: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+  ): Promise<T[]> {
+    const rows: T[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1)
+      if (error) throw error
+
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows
+  }
+
+  /**
+   * Returns "transactionId:labelId" keys for labels this rule applied before,
+   * from execution logs and from earlier batches that were not undone
+   */
+  private static async getRuleLabelProvenance(ruleId: string): Promise<Set<string>> {
+    const provenance = new Set<string>()
+
+    const logs = await this.fetchAllPages<{ transaction_id: string; labels_applied: string[] | null }>((from, to) =>
+      supabase
+        .from('rule_execution_logs')
+        .select('transaction_id, labels_applied')
+        .eq('rule_id', ruleId)
+        .eq('matched', true)
+        .range(from, to)
+    )
+    logs.forEach(log => (log.labels_applied || []).forEach(labelId => provenance.add(`${log.transaction_id}:${labelId}`)))
+
+    const items = await this.fetchAllPages<{ transaction_id: string; label_id: string }>((from, to) =>
+      supabase
+        .from('rule_change_batch_items')
+        .select('transaction_id, label_id, rule_change_batches!inner(rule_id, undone_at)')
+        .eq('change', 'added')
+        .eq('rule_change_batches.rule_id', ruleId)
+        .is('rule_change_batches.undone_at', null)
+        .range(from, to)
+    )
+    items.forEach(item => provenance.add(`${item.transaction_id}:${item.label_id}`))
+
+    return provenance
+  }
+
+  /**
+   * Computes label changes for one rule over a set of labeled transactions.
+   * Labels are added where the rule matches (honoring stop-processing rules ahead of it) and
+   * removed where the rule applied them before but no longer would, unless another matching
+   * rule also applies them.
+   */
+  static diffRuleRun(
+    rule: Rule,
+    allRules: Rule[],
+    transactions: LabeledTransaction[],
+    provenance: Set<string>
+  ): RetroactiveLabelChange[] {
+    const activeRules = allRules
+      .filter(r => r.is_active || r.id === rule.id)
+      .map(r => r.id === rule.id ? rule : r)
+      .sort((a, b) => a.order_index - b.order_index)
+
+    const changes: RetroactiveLabelChange[] = []
+
+    for (const transaction of transactions) {
+      const currentLabels = new Set((transaction.transaction_labels || []).map(tl => tl.label_id))
+      const matchingRules = findMatchingRules(transaction, activeRules)
+      const ruleMatches = matchingRules.some(r => r.id === rule.id)
+      const wanted = new Set(ruleMatches ? rule.labels_to_apply : [])
+      const appliedByOthers = new Set(
+        matchingRules.filter(r => r.id !== rule.id).flatMap(r => r.labels_to_apply)
+      )
+
+      const added = Array.from(wanted).filter(labelId => !currentLabels.has(labelId))
+      const removed = Array.from(currentLabels).filter(labelId =>
+        !wanted.has(labelId) &&
+        !appliedByOthers.has(labelId) &&
+        provenance.has(`${transaction.id}:${labelId}`)
+      )
+
+      if (added.length > 0 || removed.length > 0) {
+        const { transaction_labels, ...plainTransaction } = transaction
+        changes.push({ transaction: plainTransaction, added, removed })
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * Dry run: computes the label changes re-running a rule over approved
+   * transactions in a date range would make, without writing anything
+   */
+  static async previewRuleRun(rule: Rule, dateFrom: string, dateTo: string): Promise<RetroactiveRunPreview> {
+    const [transactions, rulesResult, provenance, logRetentionDays] = await Promise.all([
+      this.fetchAllPages<LabeledTransaction>((from, to) =>
+        supabase
+          .from('transactions')
+          .select('*, transaction_labels(label_id)')
+          .eq('status', 'approved')
+          .gte('date', dateFrom)
+          .lte('date', `${dateTo}T23:59:59.999Z`)
+          .order('date', { ascending: false })
+          .order('id')
+          .range(from, to)
+      ),
+      supabase
+        .from('rules')
+        .select('*')
+        .order('order_index', { ascending: true }),
+      this.getRuleLabelProvenance(rule.id),
+      // Provenance from pruned execution logs is gone, so older labels can't be traced to the rule
+      RulePerformanceService.getLogRetentionDays()
+    ])
+
+    if (rulesResult.error) throw rulesResult.error
+
+    return {
+      rule,
+      dateFrom,
+      dateTo,
+      transactionsScanned: transactions.length,
+      changes: this.diffRuleRun(rule, rulesResult.data || [], transactions, provenance),
+      logRetentionDays
+    }
+  }
+
+  /**
+   * Writes label additions for the given items
+   */
+  private static async addLabels(items: Pick<RuleChangeBatchItem, 'transaction_id' | 'label_id'>[]): Promise<void> {
+    if (items.length === 0) return
+
+    const { error } = await supabase
+      .from('transaction_labels')
+      .upsert(
+        items.map(({ transaction_id, label_id }) => ({ transaction_id, label_id })),
+        { onConflict: 'transaction_id,label_id', ignoreDuplicates: true }
+      )
+
+    if (error) throw error
+  }
+
+  /**
+   * Deletes label assignments for the given items, grouped by label
+   */
+  private static async removeLabels(items: Pick<RuleChangeBatchItem, 'transaction_id' | 'label_id'>[]): Promise<void> {
+    const byLabel = new Map<string, string[]>()
+    items.forEach(item => byLabel.set(item.label_id, [...(byLabel.get(item.label_id) || []), item.transaction_id]))
+
+    for (const [labelId, transactionIds] of byLabel) {
+      for (let i = 0; i < transactionIds.length; i += ID_CHUNK_SIZE) {
+        const { error } = await supabase
+          .from('transaction_labels')
+          .delete()
+          .eq('label_id', labelId)
+          .in('transaction_id', transactionIds.slice(i, i + ID_CHUNK_SIZE))
+
+        if (error) throw error
+      }
+    }
+  }
+
+  /**
+   * Applies a previewed run and records it as a change batch
+   */
+  static async commitRuleRun(preview: RetroactiveRunPreview): Promise<RuleChangeBatch> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const items: Omit<RuleChangeBatchItem, 'batch_id'>[] = preview.changes.flatMap(change => [
+      ...change.added.map(label_id => ({ transaction_id: change.transaction.id, label_id, change: 'added' as const })),
+      ...change.removed.map(label_id => ({ transaction_id: change.transaction.id, label_id, change: 'removed' as const }))
+    ])
+
+    const { data: batch, error: batchError } = await supabase
+      .from('rule_change_batches')
+      .insert({
+        user_id: user.id,
+        rule_id: preview.rule.id,
+        rule_name: preview.rule.name,
+        date_from: preview.dateFrom,
+        date_to: preview.dateTo,
+        transactions_changed: preview.changes.length,
+        labels_added: items.filter(item => item.change === 'added').length,
+        labels_removed: items.filter(item => item.change === 'removed').length
+      })
+      .select()
+      .single()
+
+    if (batchError) throw batchError
+
+    // Record the batch contents before touching labels so a failed run can still be undone
+    for (let i = 0; i < items.length; i += PAGE_SIZE) {
+      const { error } = await supabase
+        .from('rule_change_batch_items')
+        .insert(items.slice(i, i + PAGE_SIZE).map(item => ({ ...item, batch_id: batch.id })))
+
+      if (error) throw error
+    }
+
+    await this.addLabels(items.filter(item => item.change === 'added'))
+    await this.removeLabels(items.filter(item => item.change === 'removed'))
+
+    return {
+      ...batch,
+      created_at: new Date(batch.created_at),
+      undone_at: null
+    }
+  }
+
+  /**
+   * Reverts every label change made by a batch. A batch can only be undone once:
+   * undoing it again would remove labels added back since, so the batch is claimed
+   * with a conditional update before any label changes.
+   */
+  static async undoBatch(batchId: string): Promise<void> {
+    const { data: claimed, error: claimError } = await supabase
+      .from('rule_change_batches')
+      .update({ undone_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .is('undone_at', null)
+      .select('id')
+
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) throw new Error('This rule run has already been undone')
+
+    try {
+      const items = await this.fetchAllPages<RuleChangeBatchItem>((from, to) =>
+        supabase
+          .from('rule_change_batch_items')
+          .select('*')
+          .eq('batch_id', batchId)
+          .order('transaction_id')
+          .order('label_id')
+          .range(from, to)
+      )
+
+      await this.removeLabels(items.filter(item => item.change === 'added'))
+      await this.addLabels(items.filter(item => item.change === 'removed'))
+    } catch (error) {
+      // Release the claim so the undo can be retried; reverting labels again is harmless
+      await supabase
+        .from('rule_change_batches')
+        .update({ undone_at: null })
+        .eq('id', batchId)
+      throw error
+    }
+  }
+
+  /**
+   * Retrieves recent change batches, newest first
+   */
+  static async getRecentBatches(limit: number = 10): Promise<RuleChangeBatch[]> {
+    try {
+      const { data, error } = await supabase
+        .from('rule_change_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching rule change batches:', error)
+        return []
+      }
+
+      return data ? data.map(item => ({
+        ...item,
+        created_at: new Date(item.created_at),
+        undone_at: item.undone_at ? new Date(item.undone_at) : null
+      })) : []
+    } catch (error) {
+      console.error('Error fetching rule change batches:', error)
+      return []
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { Rule, RuleAction } from '@/types/database'
+import { EvaluatedTransaction, evaluateRule, resolveRuleActions, RuleActionUpdates } from './rules-engine'
+import { RuleExecutionEntry, RuleExecutionLogger } from './rule-execution-logger'
+
+// Ids go into the query string for .in() filters, so keep the lists short
+const ID_CHUNK_SIZE = 200
+
+// How many transactions a rule added at least one label to
+export interface RuleLabelCount {
+  ruleId: string
+  ruleName: string
+  transactions: number
+}
+
+export interface RuleApplicationResult {
+  totalProcessed: number
+  rulesApplied: Record<string, string[]>
+  labelsApplied: Record<string, string[]>
+  actionsApplied: Record<string, RuleAction[]>
+  labeledByRule: RuleLabelCount[] // in rule priority order, rules that labeled nothing are left out
+}
+
+/**
+ * Runs rules over many transactions at once: matching happens in memory,
+ * labels are written with one upsert and identical action updates are grouped.
+ * Works with both the browser and the server Supabase client.
+ */
+export class RuleApplicationService {
+  /**
+   * Applies rules (in priority order) to transactions and logs every execution
+   */
+  static async applyRules(
+    client: SupabaseClient,
+    userId: string,
+    rules: Rule[],
+    transactions: EvaluatedTransaction[]
+  ): Promise<RuleApplicationResult> {
+    const result: RuleApplicationResult = {
+      totalProcessed: transactions.length,
+      rulesApplied: {},
+      labelsApplied: {},
+      actionsApplied: {},
+      labeledByRule: []
+    }
+
+    if (rules.length === 0 || transactions.length === 0) return result
+
+    const labelRows: { transaction_id: string; label_id: string }[] = []
+    const executionLogs: RuleExecutionEntry[] = []
+    const pendingUpdates = new Map<string, { updates: RuleActionUpdates; transactionIds: string[] }>()
+    const pendingActions: Record<string, RuleAction[]> = {}
+
+    for (const transaction of transactions) {
+      const matchingRules: Rule[] = []
+      const transactionLabels = new Set<string>()
+
+      for (const rule of rules) {
+        const startTime = performance.now()
+        const matched = evaluateRule(transaction, rule)
+        const executionTime = performance.now() - startTime
+
+        if (matched) {
+          matchingRules.push(rule)
+          rule.labels_to_apply.forEach(labelId => transactionLabels.add(labelId))
+        }
+
+        executionLogs.push({
+          userId,
+          ruleId: rule.id,
+          ruleVersion: rule.version,
+          transactionId: transaction.id,
+          matched,
+          executionTimeMs: executionTime,
+          labelsApplied: [],
+          transactionData: {
+            id: transaction.id,
+            description: transaction.description,
+            amount: transaction.amount,
+            date: transaction.date,
+            source: transaction.source
+          }
+        })
+
+        // Lower-priority rules are skipped once a stop-processing rule matches
+        if (matched && rule.stop_processing) break
+      }
+
+      if (matchingRules.length === 0) continue
+
+      result.rulesApplied[transaction.id] = matchingRules.map(rule => rule.id)
+      transactionLabels.forEach(labelId => labelRows.push({ transaction_id: transaction.id, label_id: labelId }))
+
+      // Transactions that end up with identical updates are written together
+      const { updates, actionsApplied } = resolveRuleActions(transaction, matchingRules)
+      if (Object.keys(updates).length > 0) {
+        const key = JSON.stringify(updates)
+        const group = pendingUpdates.get(key) || { updates, transactionIds: [] }
+        group.transactionIds.push(transaction.id)
+        pendingUpdates.set(key, group)
+        pendingActions[transaction.id] = actionsApplied
+      }
+    }
+
+    if (labelRows.length > 0) {
+      // Existing assignments are skipped; only newly inserted rows come back
+      const { data: insertedLabels, error } = await client
+        .from('transaction_labels')
+        .upsert(labelRows, { onConflict: 'transaction_id,label_id', ignoreDuplicates: true })
+        .select('transaction_id, label_id')
+
+      if (error) throw error
+
+      for (const row of insertedLabels || []) {
+        (result.labelsApplied[row.transaction_id] ||= []).push(row.label_id)
+      }
+
+      // Credit each new label to the first matching rule that applies it
+      const credited = new Set<string>()
+      const labeledCounts = new Map<string, number>()
+      for (const log of executionLogs) {
+        if (!log.matched) continue
+
+        const rule = rules.find(r => r.id === log.ruleId)
+        const newLabels = result.labelsApplied[log.transactionId] || []
+        log.labelsApplied = (rule?.labels_to_apply || []).filter(labelId => {
+          const key = `${log.transactionId}:${labelId}`
+          if (!newLabels.includes(labelId) || credited.has(key)) return false
+          credited.add(key)
+          return true
+        })
+
+        if (log.labelsApplied.length > 0) {
+          labeledCounts.set(log.ruleId, (labeledCounts.get(log.ruleId) || 0) + 1)
+        }
+      }
+
+      result.labeledByRule = rules
+        .filter(rule => labeledCounts.has(rule.id))
+        .map(rule => ({ ruleId: rule.id, ruleName: rule.name, transactions: labeledCounts.get(rule.id)! }))
+    }
+
+    for (const { updates, transactionIds } of pendingUpdates.values()) {
+      for (let i = 0; i < transactionIds.length; i += ID_CHUNK_SIZE) {
+        const ids = transactionIds.slice(i, i + ID_CHUNK_SIZE)
+        const { error } = await client
+          .from('transactions')
+          .update(updates)
+          .in('id', ids)
+
+        if (error) {
+          console.error('Error applying rule actions:', error)
+          continue
+        }
+
+        ids.forEach(id => { result.actionsApplied[id] = pendingActions[id] })
+      }
+    }
+
+    // Performance logging never fails the run; the logger only reports errors
+    const logger = new RuleExecutionLogger(client)
+    executionLogs.forEach(log => logger.log(log))
+    await logger.flush()
+
+    return result
+  }
+
+  /**
+   * Applies the user's active rules to transactions that were just inserted.
+   * Returns null when automatic rule execution is turned off.
+   */
+  static async applyToNewTransactions(
+    client: SupabaseClient,
+    userId: string,
+    transactions: EvaluatedTransaction[]
+  ): Promise<RuleApplicationResult | null> {
+    if (!(await this.isAutoApplyEnabled(client))) return null
+
+    const { data: rules, error } = await client
+      .from('rules')
+      .select('*')
+      .eq('is_active', true)
+      .order('order_index', { ascending: true })
+
+    if (error) throw error
+
+    return this.applyRules(client, userId, rules || [], transactions)
+  }
+
+  /**
+   * Whether the app's own insert path already ran rules on a new transaction:
+   * imports tag their rows with a batch, split parts get a SPLIT_ identifier.
+   * Rows created any other way (the API, the database) still need rules applied.
+   */
+  static isRuledOnInsert(transaction: Pick<EvaluatedTransaction, 'batch_id' | 'identifier'>): boolean {
+    return !!transaction.batch_id || !!transaction.identifier?.startsWith('SPLIT_')
+  }
+
+  /**
+   * Whether active rules run automatically on newly inserted transactions (default on)
+   */
+  static async isAutoApplyEnabled(client: SupabaseClient = supabase): Promise<boolean> {
+    try {
+      const { data, error } = await client
+        .from('user_preferences')
+        .select('auto_apply_rules')
+        .single()
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('Error fetching auto-apply preference:', error)
+      }
+
+      return data?.auto_apply_rules ?? true
+    } catch (error) {
+      console.error('Error fetching auto-apply preference:', error)
+      return true
+    }
+  }
+
+  /**
+   * Turns automatic rule execution on newly inserted transactions on or off
+   */
+  static async setAutoApplyEnabled(enabled: boolean): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({ user_id: user.id, auto_apply_rules: enabled }, { onConflict: 'user_id' })
+
+    if (error) throw error
+  }
+}
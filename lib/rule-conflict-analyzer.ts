@@ -0,0 +1,208 @@
+import { ExclusiveLabelPair, Rule, RuleAction } from '@/types/database'
+import { evaluateRule, findMatchingRules, EvaluatedTransaction } from './rules-engine'
+import { supabase } from './supabase'
+
+// Number of example transactions kept per conflict
+const MAX_SAMPLE_TRANSACTIONS = 3
+
+// Actions that set a field; two different values for the same field contradict each other
+const SETTING_ACTIONS: RuleAction['type'][] = ['set_status', 'set_description', 'set_source']
+
+export interface RuleActionConflict {
+  type: RuleAction['type']
+  valueA: string
+  valueB: string
+}
+
+export interface RuleLabelConflict {
+  labelA: string // applied by ruleA only
+  labelB: string // applied by ruleB only
+}
+
+export interface RuleConflict {
+  ruleA: Rule // higher priority (lower order_index)
+  ruleB: Rule
+  overlapCount: number // transactions matched by both rules
+  effectiveOverlapCount: number // overlaps left after stop-processing rules are honored
+  sampleTransactions: EvaluatedTransaction[]
+  actionConflicts: RuleActionConflict[]
+  labelsOnlyInA: string[] // set when both rules apply labels the other doesn't
+  labelsOnlyInB: string[]
+  labelConflicts: RuleLabelConflict[] // label pairs the user marked as mutually exclusive
+  shadowedLabels: string[] // labels of ruleB that ruleA's stop processing keeps off the overlap
+  shadowedActions: RuleAction[] // actions of ruleB that ruleA's stop processing keeps off the overlap
+  resolvedByStop: boolean
+}
+
+type RuleDefinitionConflict = Pick<
+  RuleConflict,
+  'actionConflicts' | 'labelsOnlyInA' | 'labelsOnlyInB' | 'labelConflicts' | 'shadowedLabels' | 'shadowedActions'
+>
+
+/**
+ * Key of a label pair, independent of the order of the labels
+ */
+export const exclusiveLabelPairKey = (labelA: string, labelB: string): string =>
+  [labelA, labelB].sort().join(':')
+
+/**
+ * Compares what two rules would do to the same transaction.
+ * Rules that apply different labels are reported for review; they conflict when the
+ * user marked one label of each rule as mutually exclusive. Actions conflict when both
+ * rules set the same field to different values, and the order matters when ruleA
+ * stops processing before ruleB adds something of its own.
+ */
+const compareRuleOutcomes = (
+  ruleA: Rule,
+  ruleB: Rule,
+  exclusivePairs: Set<string>
+): RuleDefinitionConflict | null => {
+  const actionsA = ruleA.actions || []
+  const actionsB = ruleB.actions || []
+
+  const actionConflicts: RuleActionConflict[] = []
+  for (const actionA of actionsA) {
+    if (!SETTING_ACTIONS.includes(actionA.type)) continue
+
+    const actionB = actionsB.find(action => action.type === actionA.type)
+    if (actionB && actionB.value !== actionA.value) {
+      actionConflicts.push({ type: actionA.type, valueA: actionA.value, valueB: actionB.value })
+    }
+  }
+
+  const onlyInA = ruleA.labels_to_apply.filter(id => !ruleB.labels_to_apply.includes(id))
+  const onlyInB = ruleB.labels_to_apply.filter(id => !ruleA.labels_to_apply.includes(id))
+  const labelsDiffer = onlyInA.length > 0 && onlyInB.length > 0
+  const labelsOnlyInA = labelsDiffer ? onlyInA : []
+  const labelsOnlyInB = labelsDiffer ? onlyInB : []
+  const labelConflicts = labelsOnlyInA.flatMap(labelA => labelsOnlyInB
+    .filter(labelB => exclusivePairs.has(exclusiveLabelPairKey(labelA, labelB)))
+    .map(labelB => ({ labelA, labelB }))
+  )
+
+  const shadowedLabels = ruleA.stop_processing
+    ? ruleB.labels_to_apply.filter(id => !ruleA.labels_to_apply.includes(id))
+    : []
+  const shadowedActions = ruleA.stop_processing
+    ? actionsB.filter(actionB =>
+        !actionsA.some(actionA => actionA.type === actionB.type && actionA.value === actionB.value) &&
+        !actionConflicts.some(conflict => conflict.type === actionB.type)
+      )
+    : []
+
+  if (!labelsDiffer && actionConflicts.length === 0 && shadowedLabels.length === 0 && shadowedActions.length === 0) {
+    return null
+  }
+
+  return { actionConflicts, labelsOnlyInA, labelsOnlyInB, labelConflicts, shadowedLabels, shadowedActions }
+}
+
+/**
+ * Whether a pair holds a contradiction rather than labels left for the user to review
+ */
+export const isContradiction = (conflict: RuleConflict): boolean =>
+  conflict.actionConflicts.length > 0 || conflict.labelConflicts.length > 0
+
+/**
+ * Finds pairs of active rules that match the same transactions in the corpus and
+ * apply different labels, apply labels marked as mutually exclusive, set a field to
+ * different values, or where a stop-processing rule keeps the other rule from applying.
+ * Results are sorted with unresolved contradictions first, then by overlap size.
+ */
+export const analyzeRuleConflicts = (
+  rules: Rule[],
+  transactions: EvaluatedTransaction[],
+  exclusiveLabelPairs: ExclusiveLabelPair[] = []
+): RuleConflict[] => {
+  const exclusivePairs = new Set(exclusiveLabelPairs.map(([labelA, labelB]) => exclusiveLabelPairKey(labelA, labelB)))
+  const activeRules = rules
+    .filter(rule => rule.is_active)
+    .sort((a, b) => a.order_index - b.order_index)
+
+  const definitionConflicts = new Map<string, RuleDefinitionConflict | null>()
+  const conflicts = new Map<string, RuleConflict>()
+
+  for (const transaction of transactions) {
+    const matched = activeRules.filter(rule => evaluateRule(transaction, rule))
+    if (matched.length < 2) continue
+
+    const effectiveIds = new Set(findMatchingRules(transaction, activeRules).map(rule => rule.id))
+
+    for (let i = 0; i < matched.length; i++) {
+      for (let j = i + 1; j < matched.length; j++) {
+        const ruleA = matched[i]
+        const ruleB = matched[j]
+        const key = `${ruleA.id}:${ruleB.id}`
+
+        if (!definitionConflicts.has(key)) {
+          definitionConflicts.set(key, compareRuleOutcomes(ruleA, ruleB, exclusivePairs))
+        }
+        const definition = definitionConflicts.get(key)
+        if (!definition) continue
+
+        const conflict = conflicts.get(key) || {
+          ruleA,
+          ruleB,
+          overlapCount: 0,
+          effectiveOverlapCount: 0,
+          sampleTransactions: [],
+          ...definition,
+          resolvedByStop: false
+        }
+
+        conflict.overlapCount++
+        if (effectiveIds.has(ruleA.id) && effectiveIds.has(ruleB.id)) {
+          conflict.effectiveOverlapCount++
+        }
+        if (conflict.sampleTransactions.length < MAX_SAMPLE_TRANSACTIONS) {
+          conflict.sampleTransactions.push(transaction)
+        }
+
+        conflicts.set(key, conflict)
+      }
+    }
+  }
+
+  return Array.from(conflicts.values())
+    .map(conflict => ({ ...conflict, resolvedByStop: conflict.effectiveOverlapCount === 0 }))
+    .sort((a, b) =>
+      Number(a.resolvedByStop) - Number(b.resolvedByStop) ||
+      Number(isContradiction(b)) - Number(isContradiction(a)) ||
+      b.overlapCount - a.overlapCount
+    )
+}
+
+/**
+ * Label pairs the user marked as mutually exclusive
+ */
+export const getExclusiveLabelPairs = async (): Promise<ExclusiveLabelPair[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('exclusive_label_pairs')
+      .single()
+
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching exclusive label pairs:', error)
+    }
+
+    return data?.exclusive_label_pairs || []
+  } catch (error) {
+    console.error('Error fetching exclusive label pairs:', error)
+    return []
+  }
+}
+
+/**
+ * Stores the label pairs the user marked as mutually exclusive
+ */
+export const setExclusiveLabelPairs = async (pairs: ExclusiveLabelPair[]): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert({ user_id: user.id, exclusive_label_pairs: pairs }, { onConflict: 'user_id' })
+
+  if (error) throw error
+}
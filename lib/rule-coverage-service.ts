@@ -0,0 +1,127 @@
+import { supabase } from './supabase'
+import {
+  CurrencyCode,
+  RuleCoverageMonth,
+  RuleCoverageReport,
+  Transaction,
+  UnlabeledDescription
+} from '@/types/database'
+import { RuleSuggestionService } from './rule-suggestion-service'
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000
+
+type LabeledTransaction = Transaction & { transaction_labels?: { label_id: string }[] }
+
+export type UnlabeledRanking = 'frequency' | 'amount'
+
+/**
+ * Measures how much of the user's transactions and spending end up without any label
+ */
+export class RuleCoverageService {
+  /**
+   * Orders unlabeled descriptions by how often they occur or by how much was spent
+   */
+  static rankUnlabeled(descriptions: UnlabeledDescription[], ranking: UnlabeledRanking): UnlabeledDescription[] {
+    return [...descriptions].sort((a, b) => ranking === 'amount'
+      ? b.spend - a.spend || b.transactions - a.transactions
+      : b.transactions - a.transactions || b.spend - a.spend
+    )
+  }
+
+  /**
+   * Builds the coverage report from transactions with their label assignments.
+   * Spend counts expenses only, in base currency. Ignored transactions (transfers and
+   * the like) are left out entirely.
+   */
+  static buildCoverageReport(transactions: LabeledTransaction[]): RuleCoverageReport {
+    const months = new Map<string, RuleCoverageMonth>()
+    const unlabeled = new Map<string, UnlabeledDescription>()
+    const unlabeledTexts = new Map<string, Set<string>>() // merchant key -> distinct descriptions
+
+    for (const transaction of transactions) {
+      if (transaction.status === 'ignored') continue
+
+      const date = new Date(transaction.date)
+      const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+      const entry = months.get(month) ||
+        { month, transactions: 0, unlabeled_transactions: 0, spend: 0, unlabeled_spend: 0 }
+      const amount = transaction.converted_amount ?? transaction.amount
+      const spend = amount < 0 ? Math.abs(amount) : 0
+      const isUnlabeled = (transaction.transaction_labels || []).length === 0
+
+      entry.transactions++
+      entry.spend += spend
+      if (isUnlabeled) {
+        entry.unlabeled_transactions++
+        entry.unlabeled_spend += spend
+      }
+      months.set(month, entry)
+
+      if (!isUnlabeled) continue
+
+      const key = RuleSuggestionService.extractPattern(transaction.description)
+      if (!key) continue
+
+      const group = unlabeled.get(key) || { pattern: key, transactions: 0, spend: 0, sample_descriptions: [] }
+      group.transactions++
+      group.spend += spend
+      if (group.sample_descriptions.length < 3 && !group.sample_descriptions.includes(transaction.description)) {
+        group.sample_descriptions.push(transaction.description)
+      }
+      unlabeled.set(key, group)
+      unlabeledTexts.set(key, (unlabeledTexts.get(key) || new Set<string>()).add(transaction.description))
+    }
+
+    // A rule drafted from a group must match every description in it, not just the merchant key
+    unlabeled.forEach((group, key) => {
+      group.pattern = RuleSuggestionService.findCommonFragment(Array.from(unlabeledTexts.get(key)!)) || group.pattern
+    })
+
+    const monthList = Array.from(months.values()).sort((a, b) => b.month.localeCompare(a.month))
+    const totals = monthList.reduce(
+      (sum, month) => ({
+        transactions: sum.transactions + month.transactions,
+        unlabeled_transactions: sum.unlabeled_transactions + month.unlabeled_transactions,
+        spend: sum.spend + month.spend,
+        unlabeled_spend: sum.unlabeled_spend + month.unlabeled_spend
+      }),
+      { transactions: 0, unlabeled_transactions: 0, spend: 0, unlabeled_spend: 0 }
+    )
+
+    return {
+      months: monthList,
+      totals,
+      unlabeled_descriptions: this.rankUnlabeled(Array.from(unlabeled.values()), 'frequency'),
+      base_currency: (transactions[0]?.base_currency || 'ILS') as CurrencyCode
+    }
+  }
+
+  /**
+   * Loads transactions from the last `months` calendar months and builds the coverage report
+   */
+  static async getCoverageReport(months: number = 6): Promise<RuleCoverageReport> {
+    const since = new Date()
+    since.setMonth(since.getMonth() - months + 1, 1)
+    since.setHours(0, 0, 0, 0)
+
+    const transactions: LabeledTransaction[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*, transaction_labels(label_id)')
+        .gte('date', since.toISOString())
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) throw error
+
+      transactions.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return this.buildCoverageReport(transactions)
+  }
+}
@@ -0,0 +1,168 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// Flush once this many executions are buffered
+const DEFAULT_BATCH_SIZE = 500
+
+// Flush buffered executions at least this often
+const DEFAULT_FLUSH_INTERVAL_MS = 2000
+
+// Keep individual log inserts to a reasonable payload size
+const LOG_CHUNK_SIZE = 1000
+
+// Executions are counted per 15 minutes so the database can map them to the
+// user's local day, including timezones with 30 or 45 minute offsets
+const BUCKET_MS = 15 * 60 * 1000
+
+export interface RuleExecutionEntry {
+  userId: string
+  ruleId: string
+  ruleVersion?: number
+  transactionId: string
+  matched: boolean
+  executionTimeMs: number
+  labelsApplied: string[]
+  transactionData?: Record<string, unknown>
+  executedAt?: Date
+}
+
+export interface RuleExecutionLoggerOptions {
+  batchSize?: number
+  flushIntervalMs?: number
+}
+
+interface PendingRollup {
+  rule_id: string
+  rule_version: number | null
+  bucket: string
+  executions: number
+  matches: number
+  labels_applied: number
+  total_execution_time_ms: number
+  last_execution_at: string
+}
+
+interface PendingLog {
+  user_id: string
+  rule_id: string
+  rule_version: number | null
+  transaction_id: string
+  matched: boolean
+  execution_time_ms: number
+  labels_applied: string[]
+  transaction_data: Record<string, unknown> | null
+  executed_at: string
+}
+
+/**
+ * Buffers rule executions and writes them in batches. Every execution is counted
+ * in the daily rollups and performance counters; only matches keep a detailed log row.
+ */
+export class RuleExecutionLogger {
+  private rollups = new Map<string, PendingRollup>()
+  private logs: PendingLog[] = []
+  private buffered = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private writes: Promise<void> = Promise.resolve()
+  private readonly batchSize: number
+  private readonly flushIntervalMs: number
+
+  constructor(private readonly client: SupabaseClient, options: RuleExecutionLoggerOptions = {}) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS
+  }
+
+  /**
+   * Adds an execution to the buffer, flushing when the batch is full
+   */
+  log(entry: RuleExecutionEntry): void {
+    const time = (entry.executedAt || new Date()).getTime()
+    const executedAt = new Date(time).toISOString()
+    const bucket = new Date(Math.floor(time / BUCKET_MS) * BUCKET_MS).toISOString()
+    const key = `${entry.ruleId}:${entry.ruleVersion ?? ''}:${bucket}`
+
+    const rollup = this.rollups.get(key) || {
+      rule_id: entry.ruleId,
+      rule_version: entry.ruleVersion ?? null,
+      bucket,
+      executions: 0,
+      matches: 0,
+      labels_applied: 0,
+      total_execution_time_ms: 0,
+      last_execution_at: executedAt
+    }
+    rollup.executions++
+    rollup.total_execution_time_ms += entry.executionTimeMs
+    if (executedAt > rollup.last_execution_at) rollup.last_execution_at = executedAt
+    if (entry.matched) {
+      rollup.matches++
+      rollup.labels_applied += entry.labelsApplied.length
+    }
+    this.rollups.set(key, rollup)
+
+    if (entry.matched) {
+      this.logs.push({
+        user_id: entry.userId,
+        rule_id: entry.ruleId,
+        rule_version: entry.ruleVersion ?? null,
+        transaction_id: entry.transactionId,
+        matched: true,
+        execution_time_ms: entry.executionTimeMs,
+        labels_applied: entry.labelsApplied,
+        transaction_data: entry.transactionData || null,
+        executed_at: executedAt
+      })
+    }
+
+    this.buffered++
+    if (this.buffered >= this.batchSize) {
+      this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushIntervalMs)
+    }
+  }
+
+  /**
+   * Writes everything buffered so far. Resolves once this and all earlier flushes
+   * are done; failures are logged, never thrown.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+
+    const rollups = Array.from(this.rollups.values())
+    const logs = this.logs
+    this.rollups = new Map()
+    this.logs = []
+    this.buffered = 0
+
+    if (rollups.length > 0) {
+      this.writes = this.writes.then(() => this.write(rollups, logs))
+    }
+    return this.writes
+  }
+
+  private async write(rollups: PendingRollup[], logs: PendingLog[]): Promise<void> {
+    try {
+      const { error } = await this.client.rpc('record_rule_executions', { p_entries: rollups })
+      if (error) {
+        console.error('Error recording rule executions:', error)
+        return
+      }
+
+      for (let i = 0; i < logs.length; i += LOG_CHUNK_SIZE) {
+        const { error: logError } = await this.client
+          .from('rule_execution_logs')
+          .insert(logs.slice(i, i + LOG_CHUNK_SIZE))
+
+        if (logError) {
+          console.error('Error logging rule executions:', logError)
+          return
+        }
+      }
+    } catch (error) {
+      console.error('Error writing rule executions:', error)
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { supabase } from './supabase'
+import { Rule, RuleVersion } from '@/types/database'
+import { formatRuleAction, formatRuleConditions } from './rules-engine'
+
+export interface RuleVersionChange {
+  field: string
+  before: string
+  after: string
+}
+
+/**
+ * Reads the version history the database records for every rule change
+ * and restores earlier versions
+ */
+export class RuleHistoryService {
+  /**
+   * Retrieves all versions of a rule, newest first
+   */
+  static async getRuleVersions(ruleId: string): Promise<RuleVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('rule_versions')
+        .select('*')
+        .eq('rule_id', ruleId)
+        .order('version', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching rule versions:', error)
+        return []
+      }
+
+      return data ? data.map(item => ({
+        ...item,
+        actions: item.actions || [],
+        created_at: new Date(item.created_at)
+      })) : []
+    } catch (error) {
+      console.error('Error fetching rule versions:', error)
+      return []
+    }
+  }
+
+  /**
+   * Lists what changed between two versions in human-readable form.
+   * `previous` is null for the first version.
+   */
+  static diffRuleVersions(
+    previous: RuleVersion | null,
+    current: RuleVersion,
+    getLabelName: (labelId: string) => string
+  ): RuleVersionChange[] {
+    const describe = (version: RuleVersion | null): Record<string, string> => version ? {
+      Name: version.name,
+      Conditions: formatRuleConditions(version.conditions, getLabelName),
+      Labels: version.labels_to_apply.map(getLabelName).sort().join(', ') || 'none',
+      Actions: version.actions.map(formatRuleAction).join('; ') || 'none',
+      'Stop processing': version.stop_processing ? 'yes' : 'no',
+      Active: version.is_active ? 'yes' : 'no',
+      Position: String(version.order_index + 1)
+    } : {}
+
+    const before = describe(previous)
+    const after = describe(current)
+
+    return Object.keys(after)
+      .filter(field => before[field] !== after[field])
+      .map(field => ({ field, before: before[field] ?? '', after: after[field] }))
+  }
+
+  /**
+   * Restores the definition of an earlier version onto the rule; position and
+   * active state stay as they are. The database records the result as a new
+   * version marked as a restore; an unchanged definition adds no version.
+   */
+  static async restoreVersion(rule: Rule, version: RuleVersion): Promise<void> {
+    const { error } = await supabase.rpc('restore_rule_version', {
+      p_rule_id: rule.id,
+      p_version: version.version
+    })
+
+    if (error) throw error
+  }
+}
@@ -1,42 +1,150 @@
 import { supabase } from './supabase'
-import { RulePerformance, RuleExecutionLog, RulePerformanceStats, RulePerformanceWithRule, Rule, Transaction } from '@/types/database'
+import { RuleExecutionLogger } from './rule-execution-logger'
+import {
+  RuleStatisticsSettings,
+  RuleTrend,
+  countWindows,
+  getStatisticsWindows,
+  getTrendFromSeries,
+  toStatisticsSettings
+} from './rule-statistics'
+import { RulePerformance, RuleExecutionLog, RuleExecutionRollup, RulePerformanceStats, RulePerformanceWithRule, RuleVersionPerformance, RuleTimeSeriesPoint, Rule, Transaction } from '@/types/database'
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000
+
+// Detailed logs older than this are pruned unless the user chose otherwise
+export const DEFAULT_LOG_RETENTION_DAYS = 90
 
 export class RulePerformanceService {
+  private static logger = new RuleExecutionLogger(supabase)
+
   /**
-   * Logs a rule execution with performance metrics
+   * Buffers a rule execution; counts are written in batches and only
+   * matched executions keep a detailed log row
    */
-  static async logRuleExecution(
+  static logRuleExecution(
     userId: string,
     ruleId: string,
+    ruleVersion: number | undefined,
     transactionId: string,
     matched: boolean,
     executionTimeMs: number,
     labelsApplied: string[],
-    ruleConditions: any,
-    transactionData: any
-  ): Promise<void> {
+    transactionData: Record<string, unknown>
+  ): void {
+    this.logger.log({
+      userId,
+      ruleId,
+      ruleVersion,
+      transactionId,
+      matched,
+      executionTimeMs,
+      labelsApplied,
+      transactionData
+    })
+  }
+
+  /**
+   * Writes all buffered rule executions
+   */
+  static flushExecutionLogs(): Promise<void> {
+    return this.logger.flush()
+  }
+
+  /**
+   * Retrieves daily rollups on or after `sinceDay` (YYYY-MM-DD), optionally for one rule
+   */
+  static async getRollups(sinceDay?: string, ruleId?: string): Promise<RuleExecutionRollup[]> {
     try {
-      const { error } = await supabase
-        .from('rule_execution_logs')
-        .insert({
-          user_id: userId,
-          rule_id: ruleId,
-          transaction_id: transactionId,
-          matched,
-          execution_time_ms: executionTimeMs,
-          labels_applied: labelsApplied,
-          rule_conditions: ruleConditions,
-          transaction_data: transactionData
-        })
+      const rollups: RuleExecutionRollup[] = []
+
+      for (let from = 0; ; from += PAGE_SIZE) {
+        let query = supabase
+          .from('rule_execution_rollups')
+          .select('*')
+          .order('day', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1)
+
+        if (sinceDay) query = query.gte('day', sinceDay)
+        if (ruleId) query = query.eq('rule_id', ruleId)
+
+        const { data, error } = await query
+        if (error) {
+          console.error('Error fetching rule execution rollups:', error)
+          return []
+        }
 
-      if (error) {
-        console.error('Error logging rule execution:', error)
+        rollups.push(...(data || []).map(item => ({
+          ...item,
+          last_execution_at: item.last_execution_at ? new Date(item.last_execution_at) : null
+        })))
+        if (!data || data.length < PAGE_SIZE) break
+      }
+
+      return rollups
+    } catch (error) {
+      console.error('Error fetching rule execution rollups:', error)
+      return []
+    }
+  }
+
+  /**
+   * Retrieves the timezone and week start used for day boundaries
+   */
+  static async getStatisticsSettings(): Promise<RuleStatisticsSettings> {
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('timezone, week_start')
+        .single()
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('Error fetching statistics settings:', error)
       }
+
+      return toStatisticsSettings(data)
     } catch (error) {
-      console.error('Error logging rule execution:', error)
+      console.error('Error fetching statistics settings:', error)
+      return toStatisticsSettings(null)
     }
   }
 
+  /**
+   * Sets the timezone and week start used for day boundaries. Executions already
+   * recorded keep the day they were counted under.
+   */
+  static async setStatisticsSettings(settings: RuleStatisticsSettings): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert(
+        { user_id: user.id, timezone: settings.timeZone, week_start: settings.weekStart },
+        { onConflict: 'user_id' }
+      )
+
+    if (error) throw error
+  }
+
+  /**
+   * Fills the today/week/month counters from the rollups in the user's calendar
+   */
+  private static async withWindowCounts<T extends RulePerformance>(performance: T[]): Promise<T[]> {
+    if (performance.length === 0) return performance
+
+    const windows = getStatisticsWindows(await this.getStatisticsSettings())
+    const rollups = await this.getRollups(
+      windows.weekStart < windows.monthStart ? windows.weekStart : windows.monthStart
+    )
+
+    return performance.map(item => ({
+      ...item,
+      ...countWindows(rollups.filter(rollup => rollup.rule_id === item.rule_id), windows)
+    }))
+  }
+
   /**
    * Retrieves performance metrics for a specific rule
    */
@@ -53,12 +161,15 @@ export class RulePerformanceService {
         return null
       }
 
-      return data ? {
+      if (!data) return null
+
+      const [performance] = await this.withWindowCounts([{
         ...data,
         last_execution_at: data.last_execution_at ? new Date(data.last_execution_at) : null,
         created_at: new Date(data.created_at),
         updated_at: new Date(data.updated_at)
-      } : null
+      }])
+      return performance
     } catch (error) {
       console.error('Error fetching rule performance:', error)
       return null
@@ -83,13 +194,13 @@ export class RulePerformanceService {
         return []
       }
 
-      return data ? data.map(item => ({
+      return this.withWindowCounts(data ? data.map(item => ({
         ...item,
         last_execution_at: item.last_execution_at ? new Date(item.last_execution_at) : null,
         created_at: new Date(item.created_at),
         updated_at: new Date(item.updated_at),
         rule: item.rule as Rule
-      })) : []
+      })) : [])
     } catch (error) {
       console.error('Error fetching all rule performance:', error)
       return []
@@ -193,7 +304,8 @@ export class RulePerformanceService {
   }
 
   /**
-   * Retrieves execution logs for a specific rule
+   * Retrieves execution logs for a specific rule. Only matched executions are
+   * logged in detail, and only within the retention period.
    */
   static async getRuleExecutionLogs(ruleId: string, limit: number = 50): Promise<RuleExecutionLog[]> {
     try {
@@ -220,35 +332,33 @@ export class RulePerformanceService {
   }
 
   /**
-   * Retrieves performance metrics for rules executed today
+   * Aggregates the rollups of a rule by rule version, so match-rate
+   * changes can be traced to individual edits
    */
-  static async getTodayPerformance(): Promise<RulePerformanceWithRule[]> {
-    try {
-      const { data, error } = await supabase
-        .from('rule_performance')
-        .select(`
-          *,
-          rule:rules(*)
-        `)
-        .gt('executions_today', 0)
-        .order('executions_today', { ascending: false })
+  static async getVersionPerformance(ruleId: string): Promise<RuleVersionPerformance[]> {
+    const byVersion = new Map<number, RuleVersionPerformance>()
+
+    for (const rollup of await this.getRollups(undefined, ruleId)) {
+      const entry = byVersion.get(rollup.rule_version) ||
+        { version: rollup.rule_version, executions: 0, matches: 0, match_rate: 0 }
+      entry.executions += rollup.executions
+      entry.matches += rollup.matches
+      byVersion.set(rollup.rule_version, entry)
+    }
 
-      if (error) {
-        console.error('Error fetching today performance:', error)
-        return []
-      }
+    return Array.from(byVersion.values())
+      .map(entry => ({ ...entry, match_rate: entry.executions > 0 ? entry.matches / entry.executions : 0 }))
+      .sort((a, b) => b.version - a.version)
+  }
 
-      return data ? data.map(item => ({
-        ...item,
-        last_execution_at: item.last_execution_at ? new Date(item.last_execution_at) : null,
-        created_at: new Date(item.created_at),
-        updated_at: new Date(item.updated_at),
-        rule: item.rule as Rule
-      })) : []
-    } catch (error) {
-      console.error('Error fetching today performance:', error)
-      return []
-    }
+  /**
+   * Retrieves performance metrics for rules executed today
+   */
+  static async getTodayPerformance(): Promise<RulePerformanceWithRule[]> {
+    const allPerformance = await this.getAllRulePerformance()
+    return allPerformance
+      .filter(performance => performance.executions_today > 0)
+      .sort((a, b) => b.executions_today - a.executions_today)
   }
 
   /**
@@ -271,13 +381,13 @@ export class RulePerformanceService {
         return []
       }
 
-      return data ? data.map(item => ({
+      return this.withWindowCounts(data ? data.map(item => ({
         ...item,
         last_execution_at: item.last_execution_at ? new Date(item.last_execution_at) : null,
         created_at: new Date(item.created_at),
         updated_at: new Date(item.updated_at),
         rule: item.rule as Rule
-      })) : []
+      })) : [])
     } catch (error) {
       console.error('Error fetching underperforming rules:', error)
       return []
@@ -300,6 +410,12 @@ export class RulePerformanceService {
         .from('rule_execution_logs')
         .delete()
         .eq('rule_id', ruleId)
+
+      // Clear daily rollups
+      await supabase
+        .from('rule_execution_rollups')
+        .delete()
+        .eq('rule_id', ruleId)
     } catch (error) {
       console.error('Error clearing rule performance:', error)
     }
@@ -329,27 +445,76 @@ export class RulePerformanceService {
   }
 
   /**
-   * Calculates performance trend (improving/declining)
+   * Retrieves daily executions and matches of a rule for the last `days` days
+   * through the time-series endpoint
    */
-  static async getPerformanceTrend(ruleId: string): Promise<'improving' | 'declining' | 'stable'> {
+  static async getRuleTimeSeries(ruleId: string, days: number = 30): Promise<RuleTimeSeriesPoint[]> {
     try {
-      const logs = await this.getRuleExecutionLogs(ruleId, 20)
-      if (logs.length < 10) return 'stable'
+      const response = await fetch(`/api/rules/${ruleId}/timeseries?days=${days}`)
+      const result = await response.json()
 
-      const recentLogs = logs.slice(0, 10)
-      const olderLogs = logs.slice(10)
+      if (!response.ok || !result.success) {
+        console.error('Error fetching rule time series:', result.error)
+        return []
+      }
 
-      const recentMatchRate = recentLogs.filter(l => l.matched).length / recentLogs.length
-      const olderMatchRate = olderLogs.filter(l => l.matched).length / olderLogs.length
+      return result.points
+    } catch (error) {
+      console.error('Error fetching rule time series:', error)
+      return []
+    }
+  }
 
-      const difference = recentMatchRate - olderMatchRate
-      
-      if (difference > 0.05) return 'improving'
-      if (difference < -0.05) return 'declining'
-      return 'stable'
+  /**
+   * Calculates performance trend (improving/declining) by comparing the
+   * match rate of the last 7 days with the 7 days before
+   */
+  static async getPerformanceTrend(ruleId: string): Promise<RuleTrend> {
+    return getTrendFromSeries(await this.getRuleTimeSeries(ruleId, 14))
+  }
+
+  /**
+   * Retrieves how many days of detailed execution logs the user keeps
+   */
+  static async getLogRetentionDays(): Promise<number> {
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('rule_log_retention_days')
+        .single()
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('Error fetching log retention:', error)
+      }
+
+      return data?.rule_log_retention_days || DEFAULT_LOG_RETENTION_DAYS
     } catch (error) {
-      console.error('Error calculating performance trend:', error)
-      return 'stable'
+      console.error('Error fetching log retention:', error)
+      return DEFAULT_LOG_RETENTION_DAYS
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Sets how many days of detailed execution logs to keep
+   */
+  static async setLogRetentionDays(days: number): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({ user_id: user.id, rule_log_retention_days: days }, { onConflict: 'user_id' })
+
+    if (error) throw error
+  }
+
+  /**
+   * Deletes detailed execution logs past the retention period and returns how
+   * many were removed. Counts are unaffected since they live in the rollups.
+   */
+  static async pruneExecutionLogs(): Promise<number> {
+    const { data, error } = await supabase.rpc('prune_rule_execution_logs')
+    if (error) throw error
+    return data || 0
+  }
+}
@@ -0,0 +1,375 @@
+import { supabase } from './supabase'
+import {
+  Label,
+  Rule,
+  RuleAction,
+  RuleActionType,
+  RuleCondition,
+  RuleConditionField,
+  RuleConditionNode,
+  RuleConditionOperator,
+  RuleConditions,
+  RuleGroupOperator,
+  TRANSACTION_STATUSES
+} from '@/types/database'
+import { getConditionLabelValues, mapLabelConditions, normalizeRuleConditions } from './rules-engine'
+import { isValuelessOperator } from './condition-operators'
+
+// Bump when the document shape changes; parseExport rejects newer versions
+export const RULES_EXPORT_VERSION = 1
+
+// Known members of the rule unions, as records so a new member must be added here too
+const CONDITION_FIELDS: Record<RuleConditionField, true> = {
+  description: true,
+  identifier: true,
+  source: true,
+  date: true,
+  amount: true,
+  abs_amount: true,
+  converted_amount: true,
+  original_currency: true,
+  status: true,
+  label: true
+}
+
+const CONDITION_OPERATORS: Record<RuleConditionOperator, true> = {
+  equals: true,
+  not_equals: true,
+  contains: true,
+  not_contains: true,
+  starts_with: true,
+  ends_with: true,
+  matches_regex: true,
+  greater_than: true,
+  less_than: true,
+  between: true,
+  is_empty: true,
+  is_not_empty: true
+}
+
+const GROUP_OPERATORS: Record<RuleGroupOperator, true> = { AND: true, OR: true, NOT: true }
+
+const ACTION_TYPES: Record<RuleActionType, true> = {
+  set_status: true,
+  set_description: true,
+  set_source: true,
+  append_note: true
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isKnown = <T extends string>(known: Record<T, true>, value: unknown): value is T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(known, value)
+
+const isScalarValue = (value: unknown): value is string | number =>
+  typeof value === 'string' || (typeof value === 'number' && !isNaN(value))
+
+const isRuleCondition = (value: unknown): value is RuleCondition => {
+  if (!isRecord(value) || !isKnown(CONDITION_FIELDS, value.field) || !isKnown(CONDITION_OPERATORS, value.operator)) {
+    return false
+  }
+  if (isValuelessOperator(value.operator)) return true
+  if (value.operator === 'between') {
+    return Array.isArray(value.value) && value.value.length === 2 && value.value.every(isScalarValue)
+  }
+  return isScalarValue(value.value)
+}
+
+const isConditionNode = (value: unknown): value is RuleConditionNode => {
+  if (isRecord(value) && value.type === 'group') {
+    return isKnown(GROUP_OPERATORS, value.operator) &&
+      Array.isArray(value.conditions) &&
+      value.conditions.every(isConditionNode)
+  }
+  return isRuleCondition(value)
+}
+
+const isRuleConditions = (value: unknown): value is RuleConditions =>
+  Array.isArray(value) ? value.every(isRuleCondition) : isRecord(value) && value.type === 'group' && isConditionNode(value)
+
+const isRuleAction = (value: unknown): value is RuleAction => {
+  if (!isRecord(value) || !isKnown(ACTION_TYPES, value.type) || typeof value.value !== 'string') return false
+  return value.type !== 'set_status' || (TRANSACTION_STATUSES as readonly string[]).includes(value.value)
+}
+
+const isPortableLabel = (value: unknown): value is PortableLabel =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.color === 'string'
+
+export interface PortableLabel {
+  name: string
+  color: string
+  recurring: boolean
+}
+
+// A rule with labels (including those in label conditions) referenced by name so it can move between accounts
+export interface PortableRule {
+  name: string
+  conditions: RuleConditions
+  labels: string[]
+  actions: RuleAction[]
+  stop_processing: boolean
+  is_active: boolean
+}
+
+export interface RulesExportDocument {
+  version: number
+  exported_at: string
+  labels: PortableLabel[]
+  rules: PortableRule[]
+}
+
+export type RuleImportStatus = 'new' | 'identical' | 'conflict'
+
+// What to do with an imported rule whose name is already taken
+export type RuleConflictResolution = 'skip' | 'replace' | 'rename'
+
+export interface RuleImportItem {
+  rule: PortableRule
+  status: RuleImportStatus
+  existingRule?: Rule
+  missingLabels: string[]
+}
+
+export interface RuleImportPlan {
+  items: RuleImportItem[]
+  missingLabels: PortableLabel[]
+}
+
+export interface RuleImportResult {
+  created: number
+  replaced: number
+  skipped: number
+  labelsCreated: number
+  skippedForMissingLabels: string[] // rules whose label conditions name a label that doesn't exist
+}
+
+/**
+ * Exports and imports rule sets as versioned JSON documents
+ */
+export class RulePortabilityService {
+  /**
+   * Builds an export document, replacing label IDs with label names
+   */
+  static exportRules(rules: Rule[], labels: Label[]): RulesExportDocument {
+    const labelById = new Map(labels.map(label => [label.id, label]))
+    const usedLabelIds = new Set(rules.flatMap(rule => [...rule.labels_to_apply, ...getConditionLabelValues(rule.conditions)]))
+
+    return {
+      version: RULES_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      labels: labels
+        .filter(label => usedLabelIds.has(label.id))
+        .map(({ name, color, recurring }) => ({ name, color, recurring })),
+      rules: [...rules]
+        .sort((a, b) => a.order_index - b.order_index)
+        .map(rule => ({
+          name: rule.name,
+          conditions: mapLabelConditions(rule.conditions, labelId => labelById.get(labelId)?.name || labelId),
+          labels: rule.labels_to_apply
+            .map(labelId => labelById.get(labelId)?.name)
+            .filter((name): name is string => !!name),
+          actions: rule.actions || [],
+          stop_processing: rule.stop_processing || false,
+          is_active: rule.is_active
+        }))
+    }
+  }
+
+  /**
+   * Parses and validates an export document. Conditions and actions must use known
+   * fields, operators and action types, so every imported rule can be evaluated.
+   */
+  static parseExport(text: string): RulesExportDocument {
+    let document: unknown
+    try {
+      document = JSON.parse(text)
+    } catch {
+      throw new Error('File is not valid JSON')
+    }
+
+    if (!isRecord(document) || typeof document.version !== 'number' || !Array.isArray(document.rules)) {
+      throw new Error('File is not a rules export')
+    }
+    if (document.version > RULES_EXPORT_VERSION) {
+      throw new Error(`Export version ${document.version} is newer than supported version ${RULES_EXPORT_VERSION}`)
+    }
+
+    const rules: PortableRule[] = document.rules.map((rule: unknown) => {
+      if (!isRecord(rule) || typeof rule.name !== 'string' || !rule.conditions || !Array.isArray(rule.labels)) {
+        throw new Error('Export contains a rule without a name, conditions or labels')
+      }
+      if (!isRuleConditions(rule.conditions)) {
+        throw new Error(`Rule "${rule.name}" has a condition with an unknown field, operator or value`)
+      }
+      if (!rule.labels.every(label => typeof label === 'string')) {
+        throw new Error(`Rule "${rule.name}" has a label that is not a name`)
+      }
+      const actions: unknown[] = Array.isArray(rule.actions) ? rule.actions : []
+      if (!actions.every(isRuleAction)) {
+        throw new Error(`Rule "${rule.name}" has an unknown action`)
+      }
+
+      return {
+        name: rule.name,
+        conditions: rule.conditions,
+        labels: rule.labels,
+        actions,
+        stop_processing: !!rule.stop_processing,
+        is_active: rule.is_active !== false
+      }
+    })
+
+    const labels: PortableLabel[] = Array.isArray(document.labels)
+      ? document.labels.filter(isPortableLabel).map(({ name, color, recurring }) => ({ name, color, recurring: !!recurring }))
+      : []
+
+    return {
+      version: document.version,
+      exported_at: typeof document.exported_at === 'string' ? document.exported_at : '',
+      labels,
+      rules
+    }
+  }
+
+  /**
+   * Checks whether an existing rule already does exactly what an imported rule does
+   */
+  private static isSameRule(existing: Rule, imported: PortableRule, labelNameById: Map<string, string>): boolean {
+    const existingLabels = existing.labels_to_apply.map(id => labelNameById.get(id)).sort()
+    const existingConditions = mapLabelConditions(existing.conditions, id => labelNameById.get(id) || id)
+    return (
+      JSON.stringify(existingConditions) === JSON.stringify(normalizeRuleConditions(imported.conditions)) &&
+      JSON.stringify(existingLabels) === JSON.stringify([...imported.labels].sort()) &&
+      JSON.stringify(existing.actions || []) === JSON.stringify(imported.actions) &&
+      (existing.stop_processing || false) === imported.stop_processing
+    )
+  }
+
+  /**
+   * Compares an export document against the current user's rules and labels
+   * without writing anything
+   */
+  static planImport(document: RulesExportDocument, existingRules: Rule[], existingLabels: Label[]): RuleImportPlan {
+    const labelNameById = new Map(existingLabels.map(label => [label.id, label.name]))
+    const existingLabelNames = new Set(existingLabels.map(label => label.name.toLowerCase()))
+
+    const items: RuleImportItem[] = document.rules.map(rule => {
+      const existingRule = existingRules.find(r => r.name.toLowerCase() === rule.name.toLowerCase())
+      const referencedLabels = Array.from(new Set([...rule.labels, ...getConditionLabelValues(rule.conditions)]))
+      const missingLabels = referencedLabels.filter(name => !existingLabelNames.has(name.toLowerCase()))
+
+      let status: RuleImportStatus = 'new'
+      if (existingRule) {
+        status = this.isSameRule(existingRule, rule, labelNameById) ? 'identical' : 'conflict'
+      }
+
+      return { rule, status, existingRule, missingLabels }
+    })
+
+    const missingNames = new Set(items.flatMap(item => item.missingLabels.map(name => name.toLowerCase())))
+    const missingLabels = Array.from(missingNames).map(lowerName => {
+      const exported = document.labels.find(label => label.name.toLowerCase() === lowerName)
+      const name = exported?.name || items.flatMap(item => item.missingLabels).find(n => n.toLowerCase() === lowerName)!
+      return { name, color: exported?.color || '#3B82F6', recurring: exported?.recurring || false }
+    })
+
+    return { items, missingLabels }
+  }
+
+  /**
+   * Writes an import plan. Identical rules are always skipped; conflicting rules follow
+   * their resolution (default skip). Missing labels are created when `createMissingLabels`
+   * is set, otherwise they are dropped from the labels the rules apply. A rule whose
+   * conditions test a missing label is skipped, since dropping the condition would change what it matches.
+   */
+  static async applyImport(
+    plan: RuleImportPlan,
+    resolutions: Record<number, RuleConflictResolution>,
+    existingRules: Rule[],
+    existingLabels: Label[],
+    createMissingLabels: boolean
+  ): Promise<RuleImportResult> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const result: RuleImportResult = { created: 0, replaced: 0, skipped: 0, labelsCreated: 0, skippedForMissingLabels: [] }
+    const labelIdByName = new Map(existingLabels.map(label => [label.name.toLowerCase(), label.id]))
+
+    if (createMissingLabels && plan.missingLabels.length > 0) {
+      const { data: createdLabels, error } = await supabase
+        .from('labels')
+        .insert(plan.missingLabels.map(label => ({ ...label, user_id: user.id })))
+        .select()
+
+      if (error) throw error
+
+      for (const label of createdLabels || []) {
+        labelIdByName.set(label.name.toLowerCase(), label.id)
+      }
+      result.labelsCreated = createdLabels?.length || 0
+    }
+
+    const takenNames = new Set(existingRules.map(rule => rule.name.toLowerCase()))
+    let nextOrderIndex = existingRules.reduce((max, rule) => Math.max(max, rule.order_index), -1) + 1
+
+    for (const [index, item] of plan.items.entries()) {
+      const resolution = item.status === 'conflict' ? resolutions[index] || 'skip' : 'rename'
+
+      if (item.status === 'identical' || resolution === 'skip') {
+        result.skipped++
+        continue
+      }
+
+      const unresolvedLabel = getConditionLabelValues(item.rule.conditions)
+        .some(name => !labelIdByName.has(name.toLowerCase()))
+      if (unresolvedLabel) {
+        result.skipped++
+        result.skippedForMissingLabels.push(item.rule.name)
+        continue
+      }
+
+      const ruleData = {
+        conditions: mapLabelConditions(item.rule.conditions, name => labelIdByName.get(name.toLowerCase())!),
+        labels_to_apply: item.rule.labels
+          .map(name => labelIdByName.get(name.toLowerCase()))
+          .filter((id): id is string => !!id),
+        actions: item.rule.actions,
+        stop_processing: item.rule.stop_processing,
+        is_active: item.rule.is_active
+      }
+
+      if (ruleData.labels_to_apply.length === 0 && ruleData.actions.length === 0) {
+        result.skipped++
+        continue
+      }
+
+      if (item.status === 'conflict' && resolution === 'replace' && item.existingRule) {
+        const { error } = await supabase
+          .from('rules')
+          .update(ruleData)
+          .eq('id', item.existingRule.id)
+
+        if (error) throw error
+        result.replaced++
+        continue
+      }
+
+      // New rules keep their name; renamed conflicts get a unique suffix
+      let name = item.rule.name
+      for (let suffix = 2; takenNames.has(name.toLowerCase()); suffix++) {
+        name = `${item.rule.name} (${suffix})`
+      }
+      takenNames.add(name.toLowerCase())
+
+      const { error } = await supabase
+        .from('rules')
+        .insert({ ...ruleData, name, user_id: user.id, order_index: nextOrderIndex++ })
+
+      if (error) throw error
+      result.created++
+    }
+
+    return result
+  }
+}
@@ -0,0 +1,173 @@
+import { supabase } from './supabase'
+import {
+  GoldenExampleResult,
+  Rule,
+  RuleGoldenExample,
+  RuleRegressionReport,
+  RuleTraceStep,
+  Transaction
+} from '@/types/database'
+import { evaluateRule } from './rules-engine'
+
+/**
+ * Runs the rule set against pinned "golden" transactions and compares the
+ * labels it produces with the labels the user expects
+ */
+export class RuleRegressionService {
+  /**
+   * Loads every golden example with its transaction
+   */
+  static async getGoldenExamples(): Promise<RuleGoldenExample[]> {
+    try {
+      const { data, error } = await supabase
+        .from('rule_golden_examples')
+        .select('*, transaction:transactions(*)')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    } catch (error) {
+      console.error('Error fetching golden examples:', error)
+      return []
+    }
+  }
+
+  /**
+   * Pins a transaction as a golden example, replacing the expected labels if already pinned
+   */
+  static async pinTransaction(transactionId: string, expectedLabels: string[], note?: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const { error } = await supabase
+      .from('rule_golden_examples')
+      .upsert(
+        { user_id: user.id, transaction_id: transactionId, expected_labels: expectedLabels, note: note || null },
+        { onConflict: 'user_id,transaction_id' }
+      )
+
+    if (error) throw error
+  }
+
+  /**
+   * Changes the labels a golden example expects
+   */
+  static async updateExpectedLabels(exampleId: string, expectedLabels: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('rule_golden_examples')
+      .update({ expected_labels: expectedLabels })
+      .eq('id', exampleId)
+
+    if (error) throw error
+  }
+
+  /**
+   * Removes a golden example (the transaction itself is kept)
+   */
+  static async unpin(exampleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('rule_golden_examples')
+      .delete()
+      .eq('id', exampleId)
+
+    if (error) throw error
+  }
+
+  /**
+   * Evaluates rules in priority order against a transaction, the way they run
+   * on a newly inserted row: the transaction starts without labels
+   */
+  static traceRules(transaction: Transaction, rules: Rule[]): RuleTraceStep[] {
+    const unlabeled = { ...transaction, transaction_labels: [] }
+    const trace: RuleTraceStep[] = []
+
+    for (const rule of rules) {
+      if (!rule.is_active) continue
+
+      const matched = evaluateRule(unlabeled, rule)
+      const stopped = matched && !!rule.stop_processing
+      trace.push({
+        rule_id: rule.id,
+        rule_name: rule.name,
+        matched,
+        labels: matched ? rule.labels_to_apply : [],
+        stopped
+      })
+
+      if (stopped) break
+    }
+
+    return trace
+  }
+
+  /**
+   * Checks one golden example against a rule set
+   */
+  static evaluateExample(example: RuleGoldenExample, rules: Rule[]): GoldenExampleResult {
+    const trace = example.transaction ? this.traceRules(example.transaction, rules) : []
+    const actual = Array.from(new Set(trace.flatMap(step => step.labels)))
+    const missing = example.expected_labels.filter(labelId => !actual.includes(labelId))
+    const unexpected = actual.filter(labelId => !example.expected_labels.includes(labelId))
+
+    return {
+      example,
+      // An example whose transaction was deleted can't pass
+      passed: !!example.transaction && missing.length === 0 && unexpected.length === 0,
+      actual_labels: actual,
+      missing_labels: missing,
+      unexpected_labels: unexpected,
+      trace
+    }
+  }
+
+  /**
+   * Runs every golden example against a rule set (ordered by priority)
+   */
+  static runRegression(examples: RuleGoldenExample[], rules: Rule[]): RuleRegressionReport {
+    const results = examples.map(example => this.evaluateExample(example, rules))
+    const passed = results.filter(result => result.passed).length
+
+    return { results, passed, failed: results.length - passed }
+  }
+
+  /**
+   * Loads the golden examples and the saved rules and runs the regression
+   */
+  static async runSavedRegression(): Promise<RuleRegressionReport> {
+    const [examples, rules] = await Promise.all([this.getGoldenExamples(), this.fetchRules()])
+    return this.runRegression(examples, rules)
+  }
+
+  /**
+   * Runs the regression with a changed (or new) rule in place of the saved one.
+   * Returns the report for the changed rule set and the examples that pass
+   * today but would fail after the change.
+   */
+  static async checkRuleChange(changedRule: Rule): Promise<{
+    report: RuleRegressionReport
+    regressions: GoldenExampleResult[]
+  }> {
+    const [examples, rules] = await Promise.all([this.getGoldenExamples(), this.fetchRules()])
+
+    // New rules are saved with order_index 0, so they run first
+    const changedRules = rules.some(rule => rule.id === changedRule.id)
+      ? rules.map(rule => rule.id === changedRule.id ? changedRule : rule)
+      : [changedRule, ...rules]
+
+    const before = this.runRegression(examples, rules)
+    const report = this.runRegression(examples, changedRules)
+    const regressions = report.results.filter((result, index) => !result.passed && before.results[index].passed)
+
+    return { report, regressions }
+  }
+
+  private static async fetchRules(): Promise<Rule[]> {
+    const { data, error } = await supabase
+      .from('rules')
+      .select('*')
+      .order('order_index', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  }
+}
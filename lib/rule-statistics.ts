@@ -0,0 +1,164 @@
+import { RuleExecutionRollup, RuleTimeSeriesPoint } from '@/types/database'
+
+export interface RuleStatisticsSettings {
+  timeZone: string
+  weekStart: number // 0 = Sunday, 1 = Monday, ...
+}
+
+// Matches the user_preferences column defaults
+export const DEFAULT_STATISTICS_SETTINGS: RuleStatisticsSettings = {
+  timeZone: 'Asia/Jerusalem',
+  weekStart: 0
+}
+
+export interface RuleStatisticsWindows {
+  today: string
+  weekStart: string
+  monthStart: string
+}
+
+export type RuleTrend = 'improving' | 'declining' | 'stable'
+
+type RollupCounts = Pick<RuleExecutionRollup, 'day' | 'executions' | 'matches'>
+
+/**
+ * Builds settings from a user_preferences row, ignoring unknown timezones
+ */
+export const toStatisticsSettings = (
+  preferences: { timezone?: string | null; week_start?: number | null } | null
+): RuleStatisticsSettings => {
+  let timeZone = DEFAULT_STATISTICS_SETTINGS.timeZone
+  if (preferences?.timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: preferences.timezone })
+      timeZone = preferences.timezone
+    } catch {
+      // Keep the default
+    }
+  }
+
+  const weekStart = preferences?.week_start
+  return {
+    timeZone,
+    weekStart: typeof weekStart === 'number' && weekStart >= 0 && weekStart <= 6
+      ? weekStart
+      : DEFAULT_STATISTICS_SETTINGS.weekStart
+  }
+}
+
+/**
+ * Returns the calendar day (YYYY-MM-DD) of a moment in the given timezone
+ */
+export const getLocalDay = (date: Date, timeZone: string): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(date)
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value
+  return `${get('year')}-${get('month')}-${get('day')}`
+}
+
+/**
+ * Shifts a YYYY-MM-DD day by a number of days
+ */
+export const addDays = (day: string, days: number): string => {
+  const date = new Date(`${day}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Returns the first day of today, this week and this month in the user's calendar
+ */
+export const getStatisticsWindows = (settings: RuleStatisticsSettings, now: Date = new Date()): RuleStatisticsWindows => {
+  const today = getLocalDay(now, settings.timeZone)
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay()
+
+  return {
+    today,
+    weekStart: addDays(today, -((weekday - settings.weekStart + 7) % 7)),
+    monthStart: `${today.slice(0, 7)}-01`
+  }
+}
+
+/**
+ * Sums executions and matches of rollups inside each window
+ */
+export const countWindows = (rollups: RollupCounts[], windows: RuleStatisticsWindows) => {
+  const counts = {
+    executions_today: 0,
+    executions_this_week: 0,
+    executions_this_month: 0,
+    matches_today: 0,
+    matches_this_week: 0,
+    matches_this_month: 0
+  }
+
+  for (const rollup of rollups) {
+    if (rollup.day > windows.today) continue
+    if (rollup.day === windows.today) {
+      counts.executions_today += rollup.executions
+      counts.matches_today += rollup.matches
+    }
+    if (rollup.day >= windows.weekStart) {
+      counts.executions_this_week += rollup.executions
+      counts.matches_this_week += rollup.matches
+    }
+    if (rollup.day >= windows.monthStart) {
+      counts.executions_this_month += rollup.executions
+      counts.matches_this_month += rollup.matches
+    }
+  }
+
+  return counts
+}
+
+/**
+ * Builds daily points for the last `days` days ending today, with empty days filled in
+ */
+export const buildRuleTimeSeries = (
+  rollups: RollupCounts[],
+  days: number,
+  settings: RuleStatisticsSettings,
+  now: Date = new Date()
+): RuleTimeSeriesPoint[] => {
+  const today = getLocalDay(now, settings.timeZone)
+  const byDay = new Map<string, { executions: number; matches: number }>()
+
+  for (const rollup of rollups) {
+    const entry = byDay.get(rollup.day) || { executions: 0, matches: 0 }
+    entry.executions += rollup.executions
+    entry.matches += rollup.matches
+    byDay.set(rollup.day, entry)
+  }
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = addDays(today, index - days + 1)
+    const { executions, matches } = byDay.get(day) || { executions: 0, matches: 0 }
+    return { day, executions, matches, match_rate: executions > 0 ? matches / executions : 0 }
+  })
+}
+
+/**
+ * Compares the match rate of the second half of a series with the first half.
+ * Halves with fewer than 10 executions are too small to call a trend.
+ */
+export const getTrendFromSeries = (points: RuleTimeSeriesPoint[]): RuleTrend => {
+  const middle = Math.floor(points.length / 2)
+  const sum = (items: RuleTimeSeriesPoint[], key: 'executions' | 'matches') =>
+    items.reduce((total, item) => total + item[key], 0)
+
+  const older = points.slice(0, middle)
+  const recent = points.slice(middle)
+  const olderExecutions = sum(older, 'executions')
+  const recentExecutions = sum(recent, 'executions')
+  if (olderExecutions < 10 || recentExecutions < 10) return 'stable'
+
+  const difference = sum(recent, 'matches') / recentExecutions - sum(older, 'matches') / olderExecutions
+  if (difference > 0.05) return 'improving'
+  if (difference < -0.05) return 'declining'
+  return 'stable'
+}
@@ -0,0 +1,204 @@
+import { supabase } from './supabase'
+import { Rule, RuleSuggestion, Transaction } from '@/types/database'
+import { evaluateConditions, evaluateRule } from './rules-engine'
+
+// Transactions with label assignments, as returned by the history query
+type LabeledTransaction = Transaction & { transaction_labels?: { label_id: string }[] }
+
+export interface RuleSuggestionOptions {
+  minSupport?: number // minimum transactions sharing a pattern
+  minConfidence?: number // minimum share of those transactions carrying the label
+  historyLimit?: number // most recent approved transactions to mine
+  maxSuggestions?: number
+}
+
+const DEFAULT_OPTIONS: Required<RuleSuggestionOptions> = {
+  minSupport: 3,
+  minConfidence: 0.8,
+  historyLimit: 2000,
+  maxSuggestions: 20
+}
+
+// Words in a merchant key; bank descriptions often append branch numbers or dates after the name
+const MERCHANT_KEY_WORDS = 2
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000
+
+// Shortest fragment worth suggesting as a description condition
+const MIN_FRAGMENT_LENGTH = 2
+
+// Characters a fragment is trimmed of at either end, so it doesn't stop mid-number
+const FRAGMENT_EDGES = /^[^\p{L}]+|[^\p{L}]+$/gu
+
+export class RuleSuggestionService {
+  /**
+   * Reduces a bank description to a stable merchant fragment,
+   * e.g. "שופרסל דיל 1234 תל אביב" -> "שופרסל דיל"
+   */
+  static extractPattern(description: string): string {
+    return (description || '')
+      .toLowerCase()
+      .replace(/[0-9]+/g, ' ')
+      .replace(/[^\p{L}\s&'-]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length >= 2)
+      .slice(0, MERCHANT_KEY_WORDS)
+      .join(' ')
+  }
+
+  /**
+   * Longest text every description contains (ignoring case), trimmed to start and end on a letter.
+   * Usable as a description `contains` value that matches all of them; empty when there is none.
+   */
+  static findCommonFragment(descriptions: string[]): string {
+    const distinct = Array.from(new Set(descriptions.filter(Boolean)))
+    if (distinct.length === 0) return ''
+
+    const shortest = distinct.reduce((a, b) => (b.length < a.length ? b : a))
+    const lowered = shortest.toLowerCase()
+    // Keep the original casing when lowercasing doesn't shift character positions
+    const source = lowered.length === shortest.length ? shortest : lowered
+    const others = distinct.filter(description => description !== shortest).map(description => description.toLowerCase())
+
+    for (let length = lowered.length; length >= MIN_FRAGMENT_LENGTH; length--) {
+      for (let start = 0; start + length <= lowered.length; start++) {
+        const candidate = lowered.slice(start, start + length)
+        if (!others.every(description => description.includes(candidate))) continue
+
+        const fragment = source.slice(start, start + length).replace(FRAGMENT_EDGES, '')
+        if (fragment.length >= MIN_FRAGMENT_LENGTH) return fragment
+      }
+    }
+
+    return ''
+  }
+
+  /**
+   * Finds consistent description -> label patterns in labeled transactions.
+   * Patterns already fully handled by an existing active rule are skipped.
+   */
+  static buildSuggestions(
+    transactions: LabeledTransaction[],
+    existingRules: Rule[],
+    options: RuleSuggestionOptions = {}
+  ): RuleSuggestion[] {
+    const { minSupport, minConfidence, maxSuggestions } = { ...DEFAULT_OPTIONS, ...options }
+    const groups = new Map<string, LabeledTransaction[]>()
+
+    for (const transaction of transactions) {
+      const key = this.extractPattern(transaction.description)
+      if (!key) continue
+
+      const group = groups.get(key) || []
+      group.push(transaction)
+      groups.set(key, group)
+    }
+
+    const suggestions: RuleSuggestion[] = []
+
+    for (const group of groups.values()) {
+      if (group.length < minSupport) continue
+
+      // The merchant key only groups descriptions; the rule needs text they all really contain
+      const pattern = this.findCommonFragment(group.map(transaction => transaction.description))
+      if (!pattern) continue
+
+      const conditions: RuleSuggestion['conditions'] = {
+        type: 'group',
+        operator: 'AND',
+        conditions: [{ field: 'description', operator: 'contains', value: pattern }]
+      }
+      if (!group.every(transaction => evaluateConditions(transaction, conditions))) continue
+
+      const labelCounts = new Map<string, number>()
+      for (const transaction of group) {
+        for (const { label_id } of transaction.transaction_labels || []) {
+          labelCounts.set(label_id, (labelCounts.get(label_id) || 0) + 1)
+        }
+      }
+
+      const labels = Array.from(labelCounts.entries())
+        .filter(([, count]) => count / group.length >= minConfidence)
+        .map(([labelId]) => labelId)
+
+      if (labels.length === 0) continue
+
+      // Skip patterns an existing rule already labels the same way
+      const alreadyCovered = group.every(transaction =>
+        existingRules.some(rule =>
+          evaluateRule(transaction, rule) && labels.every(labelId => rule.labels_to_apply.includes(labelId))
+        )
+      )
+      if (alreadyCovered) continue
+
+      const withAllLabels = group.filter(transaction =>
+        labels.every(labelId => transaction.transaction_labels?.some(tl => tl.label_id === labelId))
+      ).length
+
+      suggestions.push({
+        pattern,
+        name: `Auto: ${pattern}`,
+        conditions,
+        labels_to_apply: labels,
+        support: group.length,
+        confidence: withAllLabels / group.length,
+        sample_descriptions: Array.from(new Set(group.map(t => t.description))).slice(0, 3)
+      })
+    }
+
+    return suggestions
+      .sort((a, b) => b.support * b.confidence - a.support * a.confidence)
+      .slice(0, maxSuggestions)
+  }
+
+  /**
+   * Loads the most recent approved transactions with their labels, page by page
+   */
+  private static async fetchApprovedHistory(limit: number): Promise<LabeledTransaction[]> {
+    const transactions: LabeledTransaction[] = []
+
+    for (let from = 0; from < limit; from += PAGE_SIZE) {
+      const to = Math.min(from + PAGE_SIZE, limit) - 1
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*, transaction_labels(label_id)')
+        .eq('status', 'approved')
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, to)
+
+      if (error) throw error
+
+      transactions.push(...(data || []))
+      if (!data || data.length < to - from + 1) break
+    }
+
+    return transactions
+  }
+
+  /**
+   * Mines the user's approved transactions for draft rule suggestions
+   */
+  static async getSuggestions(options: RuleSuggestionOptions = {}): Promise<RuleSuggestion[]> {
+    const { historyLimit } = { ...DEFAULT_OPTIONS, ...options }
+
+    try {
+      const [transactions, rulesResult] = await Promise.all([
+        this.fetchApprovedHistory(historyLimit),
+        supabase
+          .from('rules')
+          .select('*')
+          .eq('is_active', true)
+          .order('order_index', { ascending: true })
+      ])
+
+      if (rulesResult.error) throw rulesResult.error
+
+      return this.buildSuggestions(transactions, rulesResult.data || [], options)
+    } catch (error) {
+      console.error('Error building rule suggestions:', error)
+      return []
+    }
+  }
+}
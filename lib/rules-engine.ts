@@ -1,21 +1,43 @@
 import { supabase } from './supabase'
-import { Transaction, Rule, RuleCondition } from '@/types/database'
+import { Filter, Transaction, Rule, RuleAction, RuleCondition, RuleConditionField, RuleConditionGroup, RuleConditionOperator, RuleConditionNode, RuleConditions, UpdateTransactionInput } from '@/types/database'
 import { RulePerformanceService } from './rule-performance-service'
+import { isEmptyValue, isValuelessOperator, matchesSafeRegex } from './condition-operators'
+
+/**
+ * A transaction with its label assignments, either as loaded with
+ * transaction_labels(label_id) or as TransactionWithLabels
+ */
+export type EvaluatedTransaction = Transaction & {
+  transaction_labels?: { label_id: string }[]
+  labels?: { id: string }[]
+}
 
 /**
  * Evaluates a text condition against a transaction field
  */
 const evaluateTextCondition = (fieldValue: string, operator: string, conditionValue: string): boolean => {
-  if (!fieldValue || !conditionValue) return false
+  if (!conditionValue) return false
   
-  const field = fieldValue.toLowerCase()
+  const field = (fieldValue || '').toLowerCase()
   const value = conditionValue.toLowerCase()
   
+  // Negated operators match empty fields, everything else needs a value to compare
+  switch (operator) {
+    case 'not_equals':
+      return field !== value
+    case 'not_contains':
+      return !field.includes(value)
+  }
+  
+  if (!field) return false
+  
   switch (operator) {
     case 'equals':
       return field === value
     case 'contains':
       return field.includes(value)
+    case 'matches_regex':
+      return matchesSafeRegex(fieldValue, conditionValue)
     case 'starts_with':
       return field.startsWith(value)
     case 'ends_with':
@@ -34,6 +56,8 @@ const evaluateNumberCondition = (fieldValue: number, operator: string, condition
   switch (operator) {
     case 'equals':
       return fieldValue === conditionValue
+    case 'not_equals':
+      return fieldValue !== conditionValue
     case 'greater_than':
       return fieldValue > (conditionValue as number)
     case 'less_than':
@@ -51,17 +75,28 @@ const evaluateNumberCondition = (fieldValue: number, operator: string, condition
 /**
  * Evaluates a date condition against a transaction field
  */
-const evaluateDateCondition = (fieldValue: Date | string, operator: string, conditionValue: string): boolean => {
+const evaluateDateCondition = (fieldValue: Date | string, operator: string, conditionValue: string | [string, string]): boolean => {
   if (!fieldValue || !conditionValue) return false
   
   const transactionDate = new Date(fieldValue)
-  const conditionDate = new Date(conditionValue)
+  if (isNaN(transactionDate.getTime())) return false
+  
+  if (operator === 'between') {
+    if (!Array.isArray(conditionValue)) return false
+    const [from, to] = conditionValue.map(value => new Date(value))
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) return false
+    // The whole end day is included
+    return transactionDate >= from && (transactionDate <= to || transactionDate.toDateString() === to.toDateString())
+  }
   
-  if (isNaN(transactionDate.getTime()) || isNaN(conditionDate.getTime())) return false
+  const conditionDate = new Date(conditionValue as string)
+  if (isNaN(conditionDate.getTime())) return false
   
   switch (operator) {
     case 'equals':
       return transactionDate.toDateString() === conditionDate.toDateString()
+    case 'not_equals':
+      return transactionDate.toDateString() !== conditionDate.toDateString()
     case 'greater_than':
       return transactionDate > conditionDate
     case 'less_than':
@@ -71,36 +106,325 @@ const evaluateDateCondition = (fieldValue: Date | string, operator: string, cond
   }
 }
 
+/**
+ * Returns the ids of the labels assigned to a transaction
+ */
+const getTransactionLabelIds = (transaction: EvaluatedTransaction): string[] => {
+  if (transaction.labels) return transaction.labels.map(label => label.id)
+  return (transaction.transaction_labels || []).map(assignment => assignment.label_id)
+}
+
+/**
+ * Evaluates a label condition: equals means the transaction has the label,
+ * is_empty means it has no labels at all
+ */
+const evaluateLabelCondition = (labelIds: string[], operator: string, labelId: string): boolean => {
+  switch (operator) {
+    case 'is_empty':
+      return labelIds.length === 0
+    case 'is_not_empty':
+      return labelIds.length > 0
+    case 'equals':
+      return !!labelId && labelIds.includes(labelId)
+    case 'not_equals':
+      return !!labelId && !labelIds.includes(labelId)
+    default:
+      return false
+  }
+}
+
 /**
  * Evaluates a single rule condition against a transaction
  */
-const evaluateCondition = (transaction: Transaction, condition: RuleCondition): boolean => {
+const evaluateCondition = (transaction: EvaluatedTransaction, condition: RuleCondition): boolean => {
   const { field, operator, value } = condition
   
+  if (field === 'label') {
+    return evaluateLabelCondition(getTransactionLabelIds(transaction), operator, value as string)
+  }
+  
+  if (isValuelessOperator(operator)) {
+    const empty = isEmptyValue(field === 'abs_amount' ? transaction.amount : transaction[field as keyof Transaction])
+    return operator === 'is_empty' ? empty : !empty
+  }
+  
   switch (field) {
     case 'description':
       return evaluateTextCondition(transaction.description, operator, value as string)
     case 'amount':
       return evaluateNumberCondition(transaction.amount, operator, value as number | [number, number])
+    case 'abs_amount':
+      return evaluateNumberCondition(Math.abs(Number(transaction.amount)), operator, value as number | [number, number])
+    case 'converted_amount':
+      // A missing converted amount is not 0; only is_empty / is_not_empty match it
+      if (transaction.converted_amount === null || transaction.converted_amount === undefined) return false
+      return evaluateNumberCondition(Number(transaction.converted_amount), operator, value as number | [number, number])
     case 'identifier':
       return evaluateTextCondition(transaction.identifier || '', operator, value as string)
     case 'date':
-      return evaluateDateCondition(transaction.date, operator, value as string)
+      return evaluateDateCondition(transaction.date, operator, value as string | [string, string])
     case 'source':
       return evaluateTextCondition(transaction.source || '', operator, value as string)
+    case 'original_currency':
+      return evaluateTextCondition(transaction.original_currency || '', operator, value as string)
+    case 'status':
+      return evaluateTextCondition(transaction.status, operator, value as string)
+    default:
+      return false
+  }
+}
+
+/**
+ * Display names for condition fields
+ */
+export const RULE_CONDITION_FIELD_LABELS: Record<RuleConditionField, string> = {
+  description: 'Description',
+  amount: 'Amount',
+  abs_amount: 'Amount (absolute)',
+  converted_amount: 'Converted amount',
+  identifier: 'Identifier',
+  date: 'Date',
+  source: 'Source',
+  original_currency: 'Original currency',
+  status: 'Status',
+  label: 'Label'
+}
+
+/**
+ * Fields that are compared as numbers
+ */
+export const isNumericConditionField = (field: RuleConditionField): boolean => {
+  return field === 'amount' || field === 'abs_amount' || field === 'converted_amount'
+}
+
+/**
+ * Checks whether a condition tree node is a nested group
+ */
+export const isConditionGroup = (node: RuleConditionNode): node is RuleConditionGroup => {
+  return (node as RuleConditionGroup).type === 'group'
+}
+
+/**
+ * Normalizes stored rule conditions into a group tree.
+ * Legacy rules store a flat array, which is treated as an AND group.
+ */
+export const normalizeRuleConditions = (conditions: RuleConditions | null | undefined): RuleConditionGroup => {
+  if (!conditions) return { type: 'group', operator: 'AND', conditions: [] }
+  if (Array.isArray(conditions)) return { type: 'group', operator: 'AND', conditions }
+  return conditions
+}
+
+// Saved searches from before filters shared the rule model used 'in' / 'not_in'
+const LEGACY_FILTER_OPERATORS: Record<string, RuleConditionOperator> = {
+  in: 'equals',
+  not_in: 'not_equals'
+}
+
+/**
+ * Upgrades legacy operators in a saved search filter
+ */
+export const normalizeFilter = (filter: Filter): Filter => ({
+  ...filter,
+  conditions: filter.conditions.map(condition => ({
+    ...condition,
+    operator: LEGACY_FILTER_OPERATORS[condition.operator] || condition.operator
+  }))
+})
+
+/**
+ * Converts a search filter into rule conditions (a single AND/OR group)
+ */
+export const filterToRuleConditions = (filter: Filter): RuleConditionGroup => ({
+  type: 'group',
+  operator: filter.conjunction,
+  conditions: normalizeFilter(filter).conditions.map(({ field, operator, value }) => ({ field, operator, value }))
+})
+
+/**
+ * Converts rule conditions into a search filter.
+ * Returns null for trees a flat filter can't express (nested groups or NOT).
+ */
+export const ruleConditionsToFilter = (conditions: RuleConditions, name?: string): Filter | null => {
+  const root = normalizeRuleConditions(conditions)
+  if (root.operator === 'NOT' || root.conditions.some(isConditionGroup)) return null
+  
+  return {
+    name,
+    conjunction: root.operator,
+    conditions: (root.conditions as RuleCondition[]).map(condition => ({
+      ...condition,
+      id: `condition-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    }))
+  }
+}
+
+/**
+ * Returns every leaf condition in a condition tree
+ */
+export const flattenRuleConditions = (conditions: RuleConditions | RuleConditionNode | RuleConditionNode[]): RuleCondition[] => {
+  const nodes = Array.isArray(conditions) ? conditions : [conditions]
+  
+  return nodes.flatMap(node => 
+    isConditionGroup(node) ? flattenRuleConditions(node.conditions) : [node]
+  )
+}
+
+/**
+ * Returns the label values referenced by label conditions in a tree
+ */
+export const getConditionLabelValues = (conditions: RuleConditions): string[] => {
+  return flattenRuleConditions(conditions)
+    .filter(condition => condition.field === 'label' && !isValuelessOperator(condition.operator))
+    .map(condition => String(condition.value))
+}
+
+/**
+ * Returns a copy of a condition tree with every label condition's value
+ * passed through `mapLabel`, e.g. to swap label IDs for label names
+ */
+export const mapLabelConditions = (conditions: RuleConditions, mapLabel: (value: string) => string): RuleConditionGroup => {
+  const mapNode = (node: RuleConditionNode): RuleConditionNode => {
+    if (isConditionGroup(node)) return { ...node, conditions: node.conditions.map(mapNode) }
+    if (node.field !== 'label' || isValuelessOperator(node.operator)) return node
+    return { ...node, value: mapLabel(String(node.value)) }
+  }
+  
+  return mapNode(normalizeRuleConditions(conditions)) as RuleConditionGroup
+}
+
+/**
+ * Evaluates a condition tree node (single condition or nested group)
+ */
+const evaluateConditionNode = (transaction: EvaluatedTransaction, node: RuleConditionNode): boolean => {
+  if (!isConditionGroup(node)) return evaluateCondition(transaction, node)
+  
+  switch (node.operator) {
+    case 'AND':
+      return node.conditions.every(child => evaluateConditionNode(transaction, child))
+    case 'OR':
+      return node.conditions.some(child => evaluateConditionNode(transaction, child))
+    case 'NOT':
+      return !node.conditions.some(child => evaluateConditionNode(transaction, child))
     default:
       return false
   }
 }
 
+/**
+ * Evaluates a condition tree against a transaction. Shared by rules and
+ * search filters; an empty AND group matches everything.
+ */
+export const evaluateConditions = (transaction: EvaluatedTransaction, conditions: RuleConditions | RuleConditionNode): boolean => {
+  const node = Array.isArray(conditions) ? normalizeRuleConditions(conditions) : conditions
+  return evaluateConditionNode(transaction, node)
+}
+
 /**
  * Evaluates a complete rule against a transaction
- * Returns true if ALL conditions match (AND logic)
+ * Returns true if the rule's condition tree matches
  */
-export const evaluateRule = (transaction: Transaction, rule: Rule): boolean => {
+export const evaluateRule = (transaction: EvaluatedTransaction, rule: Rule): boolean => {
   if (!rule.is_active) return false
   
-  return rule.conditions.every(condition => evaluateCondition(transaction, condition))
+  const root = normalizeRuleConditions(rule.conditions)
+  if (root.conditions.length === 0) return false
+  
+  return evaluateConditionNode(transaction, root)
+}
+
+/**
+ * Returns the rules (in priority order) that apply to a transaction,
+ * honoring each rule's stop-processing flag
+ */
+export const findMatchingRules = (transaction: EvaluatedTransaction, rules: Rule[]): Rule[] => {
+  const matchingRules: Rule[] = []
+  
+  for (const rule of rules) {
+    if (!evaluateRule(transaction, rule)) continue
+    
+    matchingRules.push(rule)
+    if (rule.stop_processing) break
+  }
+  
+  return matchingRules
+}
+
+/**
+ * Transaction fields that rule actions can update
+ */
+export type RuleActionUpdates = Pick<UpdateTransactionInput, 'status' | 'description' | 'source' | 'notes'>
+
+/**
+ * Resolves the actions of matching rules into transaction updates.
+ * Rules are processed in priority order: the first rule to set a field wins,
+ * while notes from every matching rule are appended.
+ */
+export const resolveRuleActions = (transaction: Transaction, matchingRules: Rule[]): {
+  updates: RuleActionUpdates
+  actionsApplied: RuleAction[]
+} => {
+  const updates: RuleActionUpdates = {}
+  const actionsApplied: RuleAction[] = []
+  // A field is decided by the first rule that sets it, even to the value it already has
+  const decided = new Set<'status' | 'description' | 'source'>()
+  let notes = transaction.notes || ''
+  
+  for (const rule of matchingRules) {
+    for (const action of rule.actions || []) {
+      switch (action.type) {
+        case 'set_status':
+          if (decided.has('status')) continue
+          decided.add('status')
+          if (transaction.status === action.value) continue
+          updates.status = action.value
+          break
+        case 'set_description':
+          if (decided.has('description') || !action.value.trim()) continue
+          decided.add('description')
+          if (transaction.description === action.value.trim()) continue
+          updates.description = action.value.trim()
+          break
+        case 'set_source':
+          if (decided.has('source') || !action.value.trim()) continue
+          decided.add('source')
+          if (transaction.source === action.value.trim()) continue
+          updates.source = action.value.trim()
+          break
+        case 'append_note':
+          // Skip notes that are already present so re-running rules is idempotent
+          if (!action.value.trim() || notes.includes(action.value.trim())) continue
+          notes = notes ? `${notes}\n${action.value.trim()}` : action.value.trim()
+          updates.notes = notes
+          break
+        default:
+          continue
+      }
+      
+      actionsApplied.push(action)
+    }
+  }
+  
+  return { updates, actionsApplied }
+}
+
+/**
+ * Writes rule action updates to a transaction
+ */
+const applyActionUpdatesToTransaction = async (transactionId: string, updates: RuleActionUpdates): Promise<boolean> => {
+  if (Object.keys(updates).length === 0) return false
+  
+  try {
+    const { error } = await supabase
+      .from('transactions')
+      .update(updates)
+      .eq('id', transactionId)
+    
+    if (error) throw error
+    return true
+  } catch (error) {
+    console.error('Error applying rule actions to transaction:', error)
+    return false
+  }
 }
 
 /**
@@ -134,12 +458,15 @@ const applyLabelToTransaction = async (transactionId: string, labelId: string):
 /**
  * Applies all matching rules to a single transaction with performance monitoring
  */
-export const applyRulesToTransaction = async (transaction: Transaction): Promise<{
+export const applyRulesToTransaction = async (transaction: EvaluatedTransaction): Promise<{
   rulesApplied: string[]
   labelsApplied: string[]
+  actionsApplied: RuleAction[]
 }> => {
   const rulesApplied: string[] = []
   const labelsApplied: string[] = []
+  const matchingRules: Rule[] = []
+  let actionsApplied: RuleAction[] = []
   
   try {
     // Fetch all active rules ordered by priority
@@ -150,11 +477,11 @@ export const applyRulesToTransaction = async (transaction: Transaction): Promise
       .order('order_index', { ascending: true })
     
     if (error) throw error
-    if (!rules || rules.length === 0) return { rulesApplied, labelsApplied }
+    if (!rules || rules.length === 0) return { rulesApplied, labelsApplied, actionsApplied }
     
     // Get current user for performance logging
     const { data: { user } } = await supabase.auth.getUser()
-    if (!user) return { rulesApplied, labelsApplied }
+    if (!user) return { rulesApplied, labelsApplied, actionsApplied }
     
     // Apply each matching rule with performance monitoring
     for (const rule of rules) {
@@ -167,6 +494,7 @@ export const applyRulesToTransaction = async (transaction: Transaction): Promise
       
       if (matched) {
         rulesApplied.push(rule.id)
+        matchingRules.push(rule)
         
         // Apply each label from the rule
         for (const labelId of rule.labels_to_apply) {
@@ -178,15 +506,15 @@ export const applyRulesToTransaction = async (transaction: Transaction): Promise
         }
       }
       
-      // Log performance metrics (async to avoid blocking)
+      // Buffered; counts are written in batches
       RulePerformanceService.logRuleExecution(
         user.id,
         rule.id,
+        rule.version,
         transaction.id,
         matched,
         executionTime,
         ruleLabelsApplied,
-        rule.conditions,
         {
           id: transaction.id,
           description: transaction.description,
@@ -194,28 +522,37 @@ export const applyRulesToTransaction = async (transaction: Transaction): Promise
           date: transaction.date,
           source: transaction.source
         }
-      ).catch(err => {
-        console.error('Error logging rule performance:', err)
-      })
+      )
+      
+      // Lower-priority rules are skipped once a stop-processing rule matches
+      if (matched && rule.stop_processing) break
     }
     
-    return { rulesApplied, labelsApplied }
+    // Run non-label actions once, after all rules were evaluated against the original transaction
+    const resolved = resolveRuleActions(transaction, matchingRules)
+    if (await applyActionUpdatesToTransaction(transaction.id, resolved.updates)) {
+      actionsApplied = resolved.actionsApplied
+    }
+    
+    return { rulesApplied, labelsApplied, actionsApplied }
   } catch (error) {
     console.error('Error applying rules to transaction:', error)
-    return { rulesApplied, labelsApplied }
+    return { rulesApplied, labelsApplied, actionsApplied }
   }
 }
 
 /**
  * Applies rules to multiple transactions
  */
-export const applyRulesToTransactions = async (transactions: Transaction[]): Promise<{
+export const applyRulesToTransactions = async (transactions: EvaluatedTransaction[]): Promise<{
   totalProcessed: number
   rulesApplied: Record<string, string[]>
   labelsApplied: Record<string, string[]>
+  actionsApplied: Record<string, RuleAction[]>
 }> => {
   const rulesApplied: Record<string, string[]> = {}
   const labelsApplied: Record<string, string[]> = {}
+  const actionsApplied: Record<string, RuleAction[]> = {}
   
   for (const transaction of transactions) {
     const result = await applyRulesToTransaction(transaction)
@@ -227,21 +564,55 @@ export const applyRulesToTransactions = async (transactions: Transaction[]): Pro
     if (result.labelsApplied.length > 0) {
       labelsApplied[transaction.id] = result.labelsApplied
     }
+    
+    if (result.actionsApplied.length > 0) {
+      actionsApplied[transaction.id] = result.actionsApplied
+    }
   }
   
+  await RulePerformanceService.flushExecutionLogs()
+  
   return {
     totalProcessed: transactions.length,
     rulesApplied,
-    labelsApplied
+    labelsApplied,
+    actionsApplied
+  }
+}
+
+/**
+ * Applies rules to every pending transaction via the server-side bulk endpoint.
+ * Much faster than applyRulesToTransactions for large imports: rules are loaded once
+ * and labels are written with a single upsert.
+ */
+export const applyRulesToPendingTransactionsOnServer = async (): Promise<{
+  totalProcessed: number
+  rulesApplied: Record<string, string[]>
+  labelsApplied: Record<string, string[]>
+  actionsApplied: Record<string, RuleAction[]>
+}> => {
+  const response = await fetch('/api/rules/apply', { method: 'POST' })
+  const result = await response.json()
+  
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to apply rules')
+  }
+  
+  return {
+    totalProcessed: result.totalProcessed,
+    rulesApplied: result.rulesApplied,
+    labelsApplied: result.labelsApplied,
+    actionsApplied: result.actionsApplied
   }
 }
 
 /**
  * Tests which rules would match a given transaction (without applying them)
  */
-export const testRulesAgainstTransaction = async (transaction: Transaction): Promise<{
+export const testRulesAgainstTransaction = async (transaction: EvaluatedTransaction): Promise<{
   matchingRules: Rule[]
   labelsToApply: string[]
+  actionsToApply: RuleAction[]
 }> => {
   const matchingRules: Rule[] = []
   const labelsToApply: string[] = []
@@ -255,14 +626,12 @@ export const testRulesAgainstTransaction = async (transaction: Transaction): Pro
       .order('order_index', { ascending: true })
     
     if (error) throw error
-    if (!rules) return { matchingRules, labelsToApply }
+    if (!rules) return { matchingRules, labelsToApply, actionsToApply: [] }
     
     // Test each rule
-    for (const rule of rules) {
-      if (evaluateRule(transaction, rule)) {
-        matchingRules.push(rule)
-        labelsToApply.push(...rule.labels_to_apply)
-      }
+    for (const rule of findMatchingRules(transaction, rules)) {
+      matchingRules.push(rule)
+      labelsToApply.push(...rule.labels_to_apply)
     }
     
     // Remove duplicate labels
@@ -270,11 +639,12 @@ export const testRulesAgainstTransaction = async (transaction: Transaction): Pro
     
     return {
       matchingRules,
-      labelsToApply: uniqueLabelsToApply
+      labelsToApply: uniqueLabelsToApply,
+      actionsToApply: resolveRuleActions(transaction, matchingRules).actionsApplied
     }
   } catch (error) {
     console.error('Error testing rules against transaction:', error)
-    return { matchingRules, labelsToApply }
+    return { matchingRules, labelsToApply, actionsToApply: [] }
   }
 }
 
@@ -285,12 +655,13 @@ export const processAllPendingTransactions = async (): Promise<{
   totalProcessed: number
   rulesApplied: Record<string, string[]>
   labelsApplied: Record<string, string[]>
+  actionsApplied: Record<string, RuleAction[]>
 }> => {
   try {
     // Fetch all pending transactions
     const { data: transactions, error } = await supabase
       .from('transactions')
-      .select('*')
+      .select('*, transaction_labels(label_id)')
       .eq('status', 'pending')
     
     if (error) throw error
@@ -298,7 +669,8 @@ export const processAllPendingTransactions = async (): Promise<{
       return {
         totalProcessed: 0,
         rulesApplied: {},
-        labelsApplied: {}
+        labelsApplied: {},
+        actionsApplied: {}
       }
     }
     
@@ -308,7 +680,8 @@ export const processAllPendingTransactions = async (): Promise<{
     return {
       totalProcessed: 0,
       rulesApplied: {},
-      labelsApplied: {}
+      labelsApplied: {},
+      actionsApplied: {}
     }
   }
 }
@@ -316,24 +689,82 @@ export const processAllPendingTransactions = async (): Promise<{
 /**
  * Utility to format rule conditions for display
  */
-export const formatRuleCondition = (condition: RuleCondition): string => {
-  const field = condition.field.charAt(0).toUpperCase() + condition.field.slice(1)
+export const formatRuleCondition = (condition: RuleCondition, getLabelName?: (labelId: string) => string): string => {
+  const field = RULE_CONDITION_FIELD_LABELS[condition.field] || condition.field
   const operator = condition.operator.replace(/_/g, ' ')
   let value = condition.value
   
+  if (isValuelessOperator(condition.operator)) {
+    return `${field} ${operator}`
+  }
+  
+  if (condition.field === 'label') {
+    const labelName = getLabelName ? getLabelName(String(value)) : String(value)
+    return condition.operator === 'not_equals' ? `Without label "${labelName}"` : `Has label "${labelName}"`
+  }
+  
+  if (condition.operator === 'matches_regex') {
+    return `${field} matches /${value}/`
+  }
+  
   if (condition.operator === 'between' && Array.isArray(value)) {
     value = `${value[0]} - ${value[1]}`
   }
   
+  if (isNumericConditionField(condition.field)) {
+    return `${field} ${operator} ${value}`
+  }
+  
   return `${field} ${operator} "${value}"`
 }
 
+/**
+ * Utility to format a rule action for display
+ */
+export const formatRuleAction = (action: RuleAction): string => {
+  switch (action.type) {
+    case 'set_status':
+      return `Set status to ${action.value}`
+    case 'set_description':
+      return `Rewrite description to "${action.value}"`
+    case 'set_source':
+      return `Set source to "${action.value}"`
+    case 'append_note':
+      return `Append note "${action.value}"`
+    default:
+      return 'Unknown action'
+  }
+}
+
+/**
+ * Utility to format a condition tree for display, e.g. "(A OR B) AND C"
+ */
+export const formatRuleConditions = (
+  conditions: RuleConditions | RuleConditionNode,
+  getLabelName?: (labelId: string) => string,
+  nested: boolean = false
+): string => {
+  const node = Array.isArray(conditions) ? normalizeRuleConditions(conditions) : conditions
+  if (!isConditionGroup(node)) return formatRuleCondition(node, getLabelName)
+  
+  const parts = node.conditions.map(child => formatRuleConditions(child, getLabelName, true))
+  
+  if (node.operator === 'NOT') {
+    return `NOT (${parts.join(' OR ')})`
+  }
+  
+  const text = parts.join(` ${node.operator} `)
+  return nested && parts.length > 1 ? `(${text})` : text
+}
+
 /**
  * Utility to get a human-readable description of a rule
  */
 export const getRuleDescription = (rule: Rule): string => {
-  const conditionDescriptions = rule.conditions.map(formatRuleCondition)
-  const conditionText = conditionDescriptions.join(' AND ')
+  const conditionText = formatRuleConditions(rule.conditions)
+  const actionCount = rule.actions?.length || 0
+  const actionText = actionCount > 0 ? ` and run ${actionCount} action${actionCount !== 1 ? 's' : ''}` : ''
+  const stopText = rule.stop_processing ? ', then stop' : ''
   
-  return `When ${conditionText}, apply ${rule.labels_to_apply.length} label${rule.labels_to_apply.length !== 1 ? 's' : ''}`
-} 
\ No newline at end of file
+  return `When ${conditionText}, apply ${rule.labels_to_apply.length} label${rule.labels_to_apply.length !== 1 ? 's' : ''}${actionText}${stopText}`
+}
@@ -1,6 +1,8 @@
-import { CurrencyCode, Transaction } from '@/types/database'
-import { normalizeCSVData } from '@/utils/importUtils'
+import { CurrencyCode, ImportBatch, ImportBatchRestore, Transaction } from '@/types/database'
+import { normalizeCSVData, NormalizeOptions } from '@/utils/importUtils'
 import { convertAmount } from '@/lib/currency/conversion'
+import { RuleApplicationService, RuleLabelCount } from '@/lib/rule-application-service'
+import { InstallmentService } from '@/lib/installment-service'
 import { createClient } from '@/utils/supabase/client'
 import { format } from 'date-fns'
 
@@ -10,7 +12,7 @@ export interface ImportProgress {
   processed: number
   total: number
   percentage: number
-  status: 'processing' | 'validating' | 'checking-duplicates' | 'inserting' | 'complete' | 'error'
+  status: 'parsing' | 'processing' | 'validating' | 'checking-duplicates' | 'inserting' | 'applying-rules' | 'complete' | 'error'
   message: string
 }
 
@@ -20,6 +22,11 @@ export interface ImportResult {
   skipped: number
   errors: ImportError[]
   duplicates: DuplicateInfo[]
+  rulesLabeled?: RuleLabelCount[] // set when active rules ran on the imported rows
+  installmentsLinked?: number // imported charges linked to an installment plan
+  batchId?: string // import batch record, when the import was recorded
+  replaced?: number // existing transactions overwritten in place by imported rows
+  merged?: number // existing transactions that received the notes of a duplicate row
 }
 
 export interface ImportError {
@@ -40,13 +47,65 @@ export interface DuplicateInfo {
   similarity: number
 }
 
-export interface ImportOptions {
+// What to do with an incoming row that matches an existing transaction
+export type DuplicateResolution = 'skip' | 'import' | 'replace' | 'merge-notes'
+
+export type DuplicateStrategy = 'skip' | 'import-anyway' | 'replace'
+
+// An incoming row with the existing transaction it most resembles
+export interface DuplicateReviewItem {
+  importIndex: number
+  row: Record<string, any> // normalized import row
+  match: DuplicateInfo
+}
+
+// What an import batch records about the imported file
+export interface ImportBatchInfo {
+  fileName: string
+  fileFormat?: string
+  presetId?: string | null
+}
+
+export interface ImportOptions extends NormalizeOptions {
   batchSize?: number
-  duplicateStrategy?: 'skip' | 'import-anyway' | 'replace'
+  duplicateStrategy?: DuplicateStrategy // for duplicates without a per-row choice
   duplicateThreshold?: number
+  duplicateResolutions?: Record<number, DuplicateResolution> // per-row choices from the review step, by row index
+  batch?: ImportBatchInfo // record the import as a batch that can be rolled back
   onProgress?: (progress: ImportProgress) => void
 }
 
+// Errors kept on a batch record; the count covers the rest
+const MAX_BATCH_ERRORS = 100
+
+// An import still in progress after this long was cut off (closed tab, crash)
+const STALE_IMPORT_MINUTES = 30
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000
+
+// Ids go into the query string for .in() filters, so keep the lists short
+const ID_CHUNK_SIZE = 200
+
+// Transaction fields a replacing row overwrites; id, status, labels and installment links stay
+const REPLACED_FIELDS = [
+  'description',
+  'amount',
+  'original_currency',
+  'converted_amount',
+  'base_currency',
+  'date',
+  'identifier',
+  'source',
+  'notes'
+] as const
+
+const STRATEGY_RESOLUTIONS: Record<DuplicateStrategy, DuplicateResolution> = {
+  'skip': 'skip',
+  'import-anyway': 'import',
+  'replace': 'replace'
+}
+
 export class ImportService {
   private supabase = createClient()
   
@@ -198,6 +257,39 @@ export class ImportService {
     return duplicates
   }
   
+  /**
+   * The closest existing transaction for each duplicate row, by row index
+   */
+  static getClosestMatches(duplicates: DuplicateInfo[]): Map<number, DuplicateInfo> {
+    const closest = new Map<number, DuplicateInfo>()
+    duplicates.forEach(duplicate => {
+      const current = closest.get(duplicate.importIndex)
+      if (!current || duplicate.similarity > current.similarity) {
+        closest.set(duplicate.importIndex, duplicate)
+      }
+    })
+    return closest
+  }
+  
+  /**
+   * Finds the rows of an import that match existing transactions, for review before importing
+   */
+  async reviewDuplicates(
+    data: any[],
+    mappings: Record<string, string>,
+    defaultCurrency: CurrencyCode,
+    userId: string,
+    options: ImportOptions = {}
+  ): Promise<DuplicateReviewItem[]> {
+    const { duplicateThreshold = 0.8, dateFormat, expensesPositive } = options
+    const normalizedData = normalizeCSVData(data, mappings, defaultCurrency, { dateFormat, expensesPositive })
+    const duplicates = await this.detectDuplicateTransactions(normalizedData, userId, duplicateThreshold)
+    
+    return Array.from(ImportService.getClosestMatches(duplicates).values())
+      .sort((a, b) => a.importIndex - b.importIndex)
+      .map(match => ({ importIndex: match.importIndex, row: normalizedData[match.importIndex], match }))
+  }
+  
   /**
    * Calculates similarity between two transactions (0.0 to 1.0)
    */
@@ -310,7 +402,9 @@ export class ImportService {
   }
   
   /**
-   * Imports transactions in batches with progress tracking
+   * Imports transactions in batches with progress tracking.
+   * With `options.batch` the import is recorded as an import batch and every
+   * inserted transaction is tagged with the batch id.
    */
   async importTransactionsInBatches(
     data: any[],
@@ -318,11 +412,53 @@ export class ImportService {
     defaultCurrency: CurrencyCode,
     userId: string,
     options: ImportOptions = {}
+  ): Promise<ImportResult> {
+    if (!options.batch) {
+      return this.runImport(data, mappings, defaultCurrency, userId, options)
+    }
+    
+    let batchId: string
+    try {
+      batchId = await this.createImportBatch(userId, data.length, mappings, options)
+    } catch (error) {
+      console.error('Error creating import batch:', error)
+      return {
+        success: false,
+        imported: 0,
+        skipped: 0,
+        errors: [{ row: 0, message: `Could not record the import: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+        duplicates: []
+      }
+    }
+    
+    const result = await this.runImport(data, mappings, defaultCurrency, userId, options, batchId)
+    result.batchId = batchId
+    
+    try {
+      await this.completeImportBatch(batchId, result)
+    } catch (error) {
+      // The transactions are imported and tagged; only the summary is missing
+      console.error('Error updating import batch:', error)
+    }
+    
+    return result
+  }
+  
+  private async runImport(
+    data: any[],
+    mappings: Record<string, string>,
+    defaultCurrency: CurrencyCode,
+    userId: string,
+    options: ImportOptions,
+    batchId?: string
   ): Promise<ImportResult> {
     const {
       batchSize = 50,
       duplicateStrategy = 'skip',
       duplicateThreshold = 0.8,
+      duplicateResolutions = {},
+      dateFormat,
+      expensesPositive,
       onProgress
     } = options
     
@@ -346,7 +482,7 @@ export class ImportService {
         message: 'Normalizing import data...'
       })
       
-      const normalizedData = normalizeCSVData(data, mappings, defaultCurrency)
+      const normalizedData = normalizeCSVData(data, mappings, defaultCurrency, { dateFormat, expensesPositive })
       
       // Step 2: Validate data
       onProgress?.({
@@ -379,16 +515,49 @@ export class ImportService {
       const duplicates = await this.detectDuplicateTransactions(normalizedData, userId, duplicateThreshold)
       result.duplicates = duplicates
       
-      // Filter out duplicates based on strategy
-      let dataToImport = normalizedData
-      if (duplicateStrategy === 'skip' && duplicates.length > 0) {
-        const duplicateIndices = new Set(duplicates.map(d => d.importIndex))
-        dataToImport = normalizedData.filter((_, index) => !duplicateIndices.has(index))
-        result.skipped = duplicates.length
+      // Resolve each duplicate row: the user's choice, else the strategy
+      const excludedIndices = new Set<number>()
+      const replacements = new Map<string, Record<string, any>>() // existing transaction -> row that replaces it
+      const noteMerges = new Map<string, string[]>() // existing transaction -> notes to append
+      
+      ImportService.getClosestMatches(duplicates).forEach((match, importIndex) => {
+        const resolution = duplicateResolutions[importIndex] || STRATEGY_RESOLUTIONS[duplicateStrategy]
+        const existingId = match.existingTransaction.id
+        
+        // Only the first row replaces a transaction; later rows matching it import as new
+        if (resolution === 'replace' && !replacements.has(existingId)) {
+          excludedIndices.add(importIndex)
+          replacements.set(existingId, normalizedData[importIndex])
+        } else if (resolution === 'merge-notes') {
+          excludedIndices.add(importIndex)
+          const notes = normalizedData[importIndex].notes
+          if (notes) {
+            noteMerges.set(existingId, [...(noteMerges.get(existingId) || []), notes])
+          }
+        } else if (resolution === 'skip') {
+          excludedIndices.add(importIndex)
+          result.skipped++
+        }
+      })
+      
+      if (replacements.size > 0 || noteMerges.size > 0) {
+        try {
+          const updated = await this.updateExistingTransactions(userId, defaultCurrency, replacements, noteMerges, batchId)
+          result.replaced = updated.replaced
+          result.merged = updated.merged
+        } catch (error) {
+          console.error('Error updating existing transactions:', error)
+          result.errors.push({
+            row: 0,
+            message: `Updating existing transactions failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          })
+        }
       }
       
+      const dataToImport = normalizedData.filter((_, index) => !excludedIndices.has(index))
+      
       if (dataToImport.length === 0) {
-        result.success = true
+        result.success = result.errors.length === 0
         return result
       }
       
@@ -404,9 +573,24 @@ export class ImportService {
       })
       
       const transactions = await ImportService.transformToTransactionFormat(dataToImport, userId, defaultCurrency)
+      if (batchId) {
+        transactions.forEach(transaction => {
+          transaction.batch_id = batchId
+        })
+      }
+      
+      // Installment charges ("תשלום 3 מתוך 12") are linked to their plan before insert
+      let createdPlanIds: string[] = []
+      try {
+        createdPlanIds = await InstallmentService.linkImportedInstallments(this.supabase, userId, dataToImport, transactions)
+      } catch (error) {
+        // The charges still import, just without a plan
+        console.error('Error linking installment plans:', error)
+      }
       
       // Step 5: Import in batches
       const totalBatches = Math.ceil(transactions.length / batchSize)
+      const insertedTransactions: Transaction[] = []
       
       for (let i = 0; i < transactions.length; i += batchSize) {
         const currentBatch = Math.floor(i / batchSize) + 1
@@ -423,15 +607,17 @@ export class ImportService {
         })
         
         try {
-          const { error } = await this.supabase
+          const { data: inserted, error } = await this.supabase
             .from('transactions')
             .insert(batch)
+            .select()
           
           if (error) {
             throw error
           }
           
           result.imported += batch.length
+          insertedTransactions.push(...(inserted || []))
         } catch (error) {
           console.error('Batch import error:', error)
           result.errors.push({
@@ -442,7 +628,40 @@ export class ImportService {
         }
       }
       
-      // Step 6: Complete
+      // Plans are created before insert; drop the new ones whose charges all failed to land
+      result.installmentsLinked = insertedTransactions.filter(transaction => transaction.installment_plan_id).length
+      const chargedPlans = new Set(insertedTransactions.map(transaction => transaction.installment_plan_id))
+      const emptyPlans = createdPlanIds.filter(id => !chargedPlans.has(id))
+      if (emptyPlans.length > 0) {
+        try {
+          await InstallmentService.deletePlans(this.supabase, emptyPlans)
+        } catch (error) {
+          console.error('Error removing installment plans without charges:', error)
+        }
+      }
+      
+      // Step 6: Run active rules on the new rows unless the user turned it off
+      if (insertedTransactions.length > 0) {
+        onProgress?.({
+          currentBatch: totalBatches,
+          totalBatches,
+          processed: transactions.length,
+          total: transactions.length,
+          percentage: 95,
+          status: 'applying-rules',
+          message: 'Applying rules to imported transactions...'
+        })
+        
+        try {
+          const ruleResult = await RuleApplicationService.applyToNewTransactions(this.supabase, userId, insertedTransactions)
+          result.rulesLabeled = ruleResult?.labeledByRule
+        } catch (error) {
+          // The transactions are already imported; rules can still be applied from the inbox
+          console.error('Error applying rules to imported transactions:', error)
+        }
+      }
+      
+      // Step 7: Complete
       onProgress?.({
         currentBatch: totalBatches,
         totalBatches,
@@ -466,6 +685,318 @@ export class ImportService {
     }
   }
   
+  /**
+   * The replaced fields a normalized row actually supplies, taken from its transformed
+   * transaction. Fields the file left unmapped or empty (which the transform fills with
+   * defaults such as source 'import') keep the existing transaction's value.
+   */
+  private static pickSuppliedFields(row: Record<string, any>, transaction: Partial<Transaction>): Record<string, any> {
+    const supplied = (key: string) => row[key] !== null && row[key] !== undefined && row[key] !== ''
+    const fields: Record<string, any> = {}
+    
+    REPLACED_FIELDS.forEach(field => {
+      const isSupplied = field === 'original_currency'
+        ? supplied('currency')
+        : field === 'converted_amount' || field === 'base_currency'
+          ? supplied('amount')
+          : supplied(field)
+      
+      if (isSupplied) {
+        fields[field] = transaction[field]
+      }
+    })
+    
+    return fields
+  }
+  
+  /**
+   * Applies duplicate resolutions to the existing transactions they match: a replacing
+   * row overwrites the imported fields in place, and merged notes are appended.
+   * With a batch, the original values are stored on it first so a rollback can put them back.
+   */
+  private async updateExistingTransactions(
+    userId: string,
+    defaultCurrency: CurrencyCode,
+    replacements: Map<string, Record<string, any>>,
+    noteMerges: Map<string, string[]>,
+    batchId?: string
+  ): Promise<{ replaced: number; merged: number }> {
+    const replacingRows = await ImportService.transformToTransactionFormat(
+      Array.from(replacements.values()),
+      userId,
+      defaultCurrency
+    )
+    const replacementFields = new Map<string, Record<string, any>>()
+    Array.from(replacements.entries()).forEach(([id, row], index) => {
+      replacementFields.set(id, ImportService.pickSuppliedFields(row, replacingRows[index]))
+    })
+    
+    const ids = Array.from(new Set([...replacements.keys(), ...noteMerges.keys()]))
+    const updates: { id: string; fields: Record<string, any>; replaced: boolean; merged: boolean }[] = []
+    const restores: ImportBatchRestore[] = []
+    
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const { data: existing, error } = await this.supabase
+        .from('transactions')
+        .select(`id, ${REPLACED_FIELDS.join(', ')}`)
+        .eq('user_id', userId)
+        .in('id', ids.slice(i, i + ID_CHUNK_SIZE))
+      
+      if (error) throw error
+      
+      for (const transaction of (existing || []) as Record<string, any>[]) {
+        const fields: Record<string, any> = {}
+        const replacement = replacementFields.get(transaction.id)
+        
+        Object.entries(replacement || {}).forEach(([field, value]) => {
+          if (value !== transaction[field]) {
+            fields[field] = value
+          }
+        })
+        
+        const current: string = fields.notes ?? transaction.notes ?? ''
+        const additions = (noteMerges.get(transaction.id) || []).filter(notes => !current.includes(notes))
+        if (additions.length > 0) {
+          fields.notes = [current, ...additions].filter(Boolean).join('\n')
+        }
+        
+        if (Object.keys(fields).length === 0) continue
+        
+        updates.push({ id: transaction.id, fields, replaced: !!replacement, merged: additions.length > 0 })
+        restores.push({
+          transaction_id: transaction.id,
+          fields: Object.fromEntries(Object.keys(fields).map(field => [field, transaction[field]]))
+        })
+      }
+    }
+    
+    // Record the original values before touching the transactions so a failed import can still be rolled back
+    if (batchId && restores.length > 0) {
+      const { error } = await this.supabase
+        .from('import_batches')
+        .update({ restores })
+        .eq('id', batchId)
+      
+      if (error) throw error
+    }
+    
+    let replaced = 0
+    let merged = 0
+    
+    for (const update of updates) {
+      const { error } = await this.supabase
+        .from('transactions')
+        .update(update.fields)
+        .eq('id', update.id)
+      
+      if (error) throw error
+      if (update.replaced) replaced++
+      if (update.merged) merged++
+    }
+    
+    return { replaced, merged }
+  }
+  
+  /**
+   * Records the start of an import and returns the batch id
+   */
+  private async createImportBatch(
+    userId: string,
+    rowCount: number,
+    mappings: Record<string, string>,
+    options: ImportOptions
+  ): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('import_batches')
+      .insert({
+        user_id: userId,
+        file_name: options.batch!.fileName,
+        file_format: options.batch!.fileFormat || null,
+        preset_id: options.batch!.presetId || null,
+        mappings,
+        options: { dateFormat: options.dateFormat ?? null, expensesPositive: !!options.expensesPositive },
+        row_count: rowCount
+      })
+      .select('id')
+      .single()
+    
+    if (error) throw error
+    return data.id
+  }
+  
+  /**
+   * Stores the outcome of an import on its batch record
+   */
+  private async completeImportBatch(batchId: string, result: ImportResult): Promise<void> {
+    const { error } = await this.supabase
+      .from('import_batches')
+      .update({
+        status: result.success ? 'success' : 'failed',
+        imported_count: result.imported,
+        skipped_count: result.skipped,
+        duplicate_count: result.duplicates.length,
+        installments_linked: result.installmentsLinked || 0,
+        replaced_count: result.replaced || 0,
+        merged_count: result.merged || 0,
+        rules_labeled: result.rulesLabeled || [],
+        error_count: result.errors.length,
+        errors: result.errors.slice(0, MAX_BATCH_ERRORS).map(({ row, field, message }) => ({ row, field, message })),
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', batchId)
+    
+    if (error) throw error
+  }
+  
+  /**
+   * Retrieves recent import batches, newest first
+   */
+  async getImportBatches(limit: number = 20): Promise<ImportBatch[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('import_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+      
+      if (error) throw error
+      
+      return (data || []).map(batch => ({
+        ...batch,
+        created_at: new Date(batch.created_at),
+        completed_at: batch.completed_at ? new Date(batch.completed_at) : null,
+        rolled_back_at: batch.rolled_back_at ? new Date(batch.rolled_back_at) : null
+      }))
+    } catch (error) {
+      console.error('Error fetching import batches:', error)
+      return []
+    }
+  }
+  
+  /**
+   * Rolls back an import: deletes the batch's transactions (their labels are
+   * removed with them) and installment plans left without charges, and puts back
+   * the original values of existing transactions the import replaced or merged notes into.
+   * A batch can only be rolled back once: restoring again would undo edits made since,
+   * so the batch is claimed with a conditional status update before anything changes.
+   */
+  async rollbackImportBatch(batchId: string): Promise<{ deleted: number; restored: number }> {
+    const { data: batch, error: batchError } = await this.supabase
+      .from('import_batches')
+      .select('status, restores, created_at')
+      .eq('id', batchId)
+      .single()
+    
+    if (batchError) throw batchError
+    if (batch.status === 'rolled-back') throw new Error('This import has already been rolled back')
+    if (batch.status === 'in-progress' && !ImportService.isStaleImport({ ...batch, created_at: new Date(batch.created_at) })) {
+      throw new Error('This import is still running')
+    }
+    
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('import_batches')
+      .update({ status: 'rolled-back', rolled_back_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .eq('status', batch.status)
+      .select('id')
+    
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) throw new Error('This import is already being rolled back')
+    
+    try {
+      return await this.revertImportBatch(batchId, (batch.restores || []) as ImportBatchRestore[])
+    } catch (error) {
+      // Release the claim so the rollback can be retried
+      await this.supabase
+        .from('import_batches')
+        .update({ status: batch.status, rolled_back_at: null })
+        .eq('id', batchId)
+      throw error
+    }
+  }
+  
+  /**
+   * Whether an import batch was cut off before it finished and can be rolled back
+   */
+  static isStaleImport(batch: Pick<ImportBatch, 'status' | 'created_at'>): boolean {
+    return batch.status === 'in-progress' &&
+      Date.now() - batch.created_at.getTime() > STALE_IMPORT_MINUTES * 60 * 1000
+  }
+  
+  /**
+   * Deletes the transactions of a claimed batch, their orphaned plans, and restores
+   * the existing transactions the import overwrote
+   */
+  private async revertImportBatch(
+    batchId: string,
+    restores: ImportBatchRestore[]
+  ): Promise<{ deleted: number; restored: number }> {
+    // Plans this import created have no other charges once it is gone
+    const planIds = new Set<string>()
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('transactions')
+        .select('installment_plan_id')
+        .eq('batch_id', batchId)
+        .not('installment_plan_id', 'is', null)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+      
+      if (error) throw error
+      data?.forEach(row => planIds.add(row.installment_plan_id))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+    
+    const { error: deleteError, count } = await this.supabase
+      .from('transactions')
+      .delete({ count: 'exact' })
+      .eq('batch_id', batchId)
+    
+    if (deleteError) throw deleteError
+    
+    const candidatePlans = Array.from(planIds)
+    for (let i = 0; i < candidatePlans.length; i += ID_CHUNK_SIZE) {
+      const chunk = candidatePlans.slice(i, i + ID_CHUNK_SIZE)
+      // Plans can have many charges; read them all before calling a plan unused
+      const inUse = new Set<string>()
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data: remaining, error } = await this.supabase
+          .from('transactions')
+          .select('installment_plan_id')
+          .in('installment_plan_id', chunk)
+          .order('id')
+          .range(from, from + PAGE_SIZE - 1)
+        
+        if (error) throw error
+        remaining?.forEach(row => inUse.add(row.installment_plan_id))
+        if (!remaining || remaining.length < PAGE_SIZE) break
+      }
+      const orphaned = chunk.filter(id => !inUse.has(id))
+      
+      if (orphaned.length > 0) {
+        const { error: planError } = await this.supabase
+          .from('installment_plans')
+          .delete()
+          .in('id', orphaned)
+        
+        if (planError) throw planError
+      }
+    }
+    
+    let restored = 0
+    for (const restore of restores) {
+      const { error: restoreError, count: restoreCount } = await this.supabase
+        .from('transactions')
+        .update(restore.fields, { count: 'exact' })
+        .eq('id', restore.transaction_id)
+      
+      if (restoreError) throw restoreError
+      restored += restoreCount || 0
+    }
+    
+    return { deleted: count || 0, restored }
+  }
+  
   /**
    * Handles and formats import errors for user display
    */
@@ -1,7 +1,8 @@
 // Database types for the Personal Finance Management App
 // These types mirror the database schema with proper TypeScript definitions
 
-export type TransactionStatus = 'pending' | 'approved' | 'ignored';
+export const TRANSACTION_STATUSES = ['pending', 'approved', 'ignored'] as const;
+export type TransactionStatus = typeof TRANSACTION_STATUSES[number];
 
 // Currency types
 export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'ILS';
@@ -19,6 +20,9 @@ export interface DatabaseTransaction {
   source?: string;
   status: TransactionStatus;
   notes?: string;
+  installment_plan_id?: string | null; // set when the transaction is one charge of an installment plan
+  installment_index?: number | null; // 1-based charge number within the plan
+  batch_id?: string | null; // import batch that created the transaction
   created_at: string;
   updated_at: string;
 }
@@ -43,8 +47,11 @@ export interface DatabaseRule {
   id: string;
   user_id: string;
   name: string;
-  conditions: RuleCondition[];
+  conditions: RuleConditions;
   labels_to_apply: string[];
+  actions?: RuleAction[];
+  stop_processing?: boolean; // skip lower-priority rules once this one matches
+  version?: number; // bumped by the database on every edit, toggle or reorder
   order_index: number;
   is_active: boolean;
   created_at: string;
@@ -65,17 +72,75 @@ export interface DatabaseUserPreferences {
   user_id: string;
   default_currency: CurrencyCode;
   show_converted: boolean;
+  rule_log_retention_days: number; // days of detailed rule execution logs to keep
+  timezone: string; // IANA name used for day boundaries in rule statistics
+  week_start: number; // 0 = Sunday, 1 = Monday, ...
+  auto_apply_rules: boolean; // run active rules on newly inserted transactions
+  exclusive_label_pairs: ExclusiveLabelPair[]; // labels the rule conflict analyzer treats as mutually exclusive
   created_at: string;
   updated_at: string;
 }
 
+// Two label ids that should never be applied to the same transaction
+export type ExclusiveLabelPair = [string, string];
+
 // Rule condition types
+// abs_amount compares the unsigned amount, so "expenses over 500" is abs_amount > 500
+export type RuleConditionField =
+  | 'description' | 'identifier' | 'source' | 'date'
+  | 'amount' | 'abs_amount' | 'converted_amount'
+  | 'original_currency'
+  | 'status' | 'label'; // label conditions compare label ids
+
+export type RuleConditionOperator =
+  | 'equals' | 'not_equals'
+  | 'contains' | 'not_contains'
+  | 'starts_with' | 'ends_with'
+  | 'matches_regex'
+  | 'greater_than' | 'less_than' | 'between'
+  | 'is_empty' | 'is_not_empty';
+
 export interface RuleCondition {
-  field: 'description' | 'amount' | 'identifier' | 'date' | 'source' | 'original_currency';
-  operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'greater_than' | 'less_than' | 'between';
-  value: string | number | [number, number]; // array for 'between' operator
+  field: RuleConditionField;
+  operator: RuleConditionOperator;
+  value: string | number | [number, number] | [string, string]; // array for 'between' operator (dates use strings), ignored for is_empty/is_not_empty
+}
+
+// Nested condition groups: AND = all match, OR = any match, NOT = none match
+export type RuleGroupOperator = 'AND' | 'OR' | 'NOT';
+
+export interface RuleConditionGroup {
+  type: 'group';
+  operator: RuleGroupOperator;
+  conditions: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+// Rules created before groups existed store a flat array of AND-ed conditions
+export type RuleConditions = RuleCondition[] | RuleConditionGroup;
+
+// Search filters share the rule condition model; the id only keys editor rows
+export interface FilterCondition extends RuleCondition {
+  id: string;
+}
+
+export interface Filter {
+  id?: string;
+  name?: string;
+  conditions: FilterCondition[];
+  conjunction: 'AND' | 'OR';
 }
 
+// Rule action types (run in addition to labels_to_apply when a rule matches)
+export type RuleAction =
+  | { type: 'set_status'; value: TransactionStatus }
+  | { type: 'set_description'; value: string }
+  | { type: 'set_source'; value: string }
+  | { type: 'append_note'; value: string };
+
+export type RuleActionType = RuleAction['type'];
+
 // Client-side types (with computed properties)
 export interface Transaction extends Omit<DatabaseTransaction, 'date' | 'created_at' | 'updated_at'> {
   date: Date;
@@ -144,16 +209,20 @@ export interface UpdateLabelInput {
 
 export interface CreateRuleInput {
   name: string;
-  conditions: RuleCondition[];
+  conditions: RuleConditions;
   labels_to_apply: string[];
+  actions?: RuleAction[];
+  stop_processing?: boolean;
   order_index?: number;
   is_active?: boolean;
 }
 
 export interface UpdateRuleInput {
   name?: string;
-  conditions?: RuleCondition[];
+  conditions?: RuleConditions;
   labels_to_apply?: string[];
+  actions?: RuleAction[];
+  stop_processing?: boolean;
   order_index?: number;
   is_active?: boolean;
 }
@@ -178,6 +247,11 @@ export interface CreateUserPreferencesInput {
 export interface UpdateUserPreferencesInput {
   default_currency?: CurrencyCode;
   show_converted?: boolean;
+  rule_log_retention_days?: number;
+  timezone?: string;
+  week_start?: number;
+  auto_apply_rules?: boolean;
+  exclusive_label_pairs?: ExclusiveLabelPair[];
 }
 
 // Transaction with labels (for display)
@@ -277,6 +351,9 @@ export interface SupabaseTransactionRow {
   source: string | null;
   status: TransactionStatus;
   notes: string | null;
+  installment_plan_id: string | null;
+  installment_index: number | null;
+  batch_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -294,6 +371,11 @@ export interface SupabaseUserPreferencesRow {
   user_id: string;
   default_currency: CurrencyCode;
   show_converted: boolean;
+  rule_log_retention_days: number;
+  timezone: string;
+  week_start: number;
+  auto_apply_rules: boolean;
+  exclusive_label_pairs: ExclusiveLabelPair[];
   created_at: string;
   updated_at: string;
 }
@@ -329,9 +411,24 @@ export interface RuleExecutionLog {
   labels_applied: string[];
   rule_conditions: any;
   transaction_data: any;
+  rule_version: number | null;
   executed_at: Date;
 }
 
+// Daily execution counts per rule version; kept after detailed logs are pruned
+export interface RuleExecutionRollup {
+  id: string;
+  user_id: string;
+  rule_id: string;
+  rule_version: number;
+  day: string; // YYYY-MM-DD in the user's timezone
+  executions: number;
+  matches: number;
+  labels_applied: number;
+  total_execution_time_ms: number;
+  last_execution_at: Date | null;
+}
+
 export interface RulePerformanceWithRule extends RulePerformance {
   rule: Rule;
 }
@@ -348,6 +445,209 @@ export interface RulePerformanceStats {
   recentActivity: RuleExecutionLog[];
 }
 
+// Rule history types
+export type RuleVersionChangeType = 'created' | 'edited' | 'toggled' | 'reordered' | 'restored';
+
+export interface RuleVersion {
+  id: string;
+  rule_id: string;
+  user_id: string;
+  version: number;
+  change_type: RuleVersionChangeType;
+  changed_by: string | null;
+  name: string;
+  conditions: RuleConditions;
+  labels_to_apply: string[];
+  actions: RuleAction[];
+  stop_processing: boolean;
+  is_active: boolean;
+  order_index: number;
+  created_at: Date;
+}
+
+export interface RuleTimeSeriesPoint {
+  day: string; // YYYY-MM-DD in the user's timezone
+  executions: number;
+  matches: number;
+  match_rate: number;
+}
+
+export interface RuleVersionPerformance {
+  version: number;
+  executions: number;
+  matches: number;
+  match_rate: number;
+}
+
+// Rule coverage types (transactions no rule or manual edit has labeled)
+export interface RuleCoverageMonth {
+  month: string; // YYYY-MM
+  transactions: number;
+  unlabeled_transactions: number;
+  spend: number; // absolute expense amount in base currency
+  unlabeled_spend: number;
+}
+
+export interface UnlabeledDescription {
+  pattern: string; // text every description in the group contains, usable as a description condition
+  transactions: number;
+  spend: number;
+  sample_descriptions: string[];
+}
+
+export interface RuleCoverageReport {
+  months: RuleCoverageMonth[];
+  totals: Omit<RuleCoverageMonth, 'month'>;
+  unlabeled_descriptions: UnlabeledDescription[]; // most frequent first
+  base_currency: CurrencyCode;
+}
+
+// Rule regression types (pinned transactions with the labels rules should produce)
+export interface RuleGoldenExample {
+  id: string;
+  user_id: string;
+  transaction_id: string;
+  expected_labels: string[];
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+  transaction?: Transaction | null; // joined when loading the suite
+}
+
+// One rule evaluated for a golden example, in priority order
+export interface RuleTraceStep {
+  rule_id: string;
+  rule_name: string;
+  matched: boolean;
+  labels: string[]; // labels_to_apply of the rule when it matched
+  stopped: boolean; // matched with stop_processing, later rules were skipped
+}
+
+export interface GoldenExampleResult {
+  example: RuleGoldenExample;
+  passed: boolean;
+  actual_labels: string[];
+  missing_labels: string[];
+  unexpected_labels: string[];
+  trace: RuleTraceStep[];
+}
+
+export interface RuleRegressionReport {
+  results: GoldenExampleResult[];
+  passed: number;
+  failed: number;
+}
+
+// Rule suggestion types (mined from approved transaction history)
+export interface RuleSuggestion {
+  pattern: string; // text every supporting description contains, used as the description condition
+  name: string;
+  conditions: RuleConditionGroup;
+  labels_to_apply: string[];
+  support: number; // approved transactions sharing the pattern
+  confidence: number; // 0-1, share of those transactions that carry every suggested label
+  sample_descriptions: string[];
+}
+
+// Installment plan types (a purchase charged in monthly installments, "תשלומים")
+export interface InstallmentPlan {
+  id: string;
+  user_id: string;
+  description: string;
+  total_amount: number; // the whole deal, signed like the charges
+  installment_count: number;
+  installment_amount: number; // one monthly charge
+  currency: CurrencyCode;
+  first_charge_date: string; // YYYY-MM-DD, estimated from the first imported charge
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduledInstallment {
+  index: number;
+  date: string; // YYYY-MM-DD, estimated
+  amount: number;
+}
+
+export interface UpcomingInstallmentPlan {
+  plan: InstallmentPlan;
+  last_index: number; // highest charge number imported so far
+  remaining: ScheduledInstallment[];
+}
+
+// Import batch types (server-side import history, one record per imported file)
+export type ImportBatchStatus = 'in-progress' | 'success' | 'failed' | 'rolled-back';
+
+// Original values of an existing transaction that an import overwrote
+export interface ImportBatchRestore {
+  transaction_id: string;
+  fields: Partial<Pick<DatabaseTransaction, 'description' | 'amount' | 'original_currency' | 'converted_amount' | 'base_currency' | 'date' | 'identifier' | 'source' | 'notes'>>;
+}
+
+export interface ImportBatch {
+  id: string;
+  user_id: string;
+  file_name: string;
+  file_format: string | null;
+  preset_id: string | null;
+  mappings: Record<string, string>;
+  options: Record<string, unknown>;
+  status: ImportBatchStatus;
+  row_count: number;
+  imported_count: number;
+  skipped_count: number;
+  duplicate_count: number;
+  installments_linked: number;
+  replaced_count: number;
+  merged_count: number;
+  restores: ImportBatchRestore[];
+  rules_labeled: { ruleId: string; ruleName: string; transactions: number }[];
+  error_count: number;
+  errors: { row: number; field?: string; message: string }[]; // the first errors only
+  created_at: Date;
+  completed_at: Date | null;
+  rolled_back_at: Date | null;
+}
+
+// Retroactive rule run types
+export type RuleChangeType = 'added' | 'removed';
+
+export interface RuleChangeBatch {
+  id: string;
+  user_id: string;
+  rule_id: string | null;
+  rule_name: string;
+  date_from: string; // YYYY-MM-DD
+  date_to: string; // YYYY-MM-DD
+  transactions_changed: number;
+  labels_added: number;
+  labels_removed: number;
+  created_at: Date;
+  undone_at: Date | null;
+}
+
+export interface RuleChangeBatchItem {
+  batch_id: string;
+  transaction_id: string;
+  label_id: string;
+  change: RuleChangeType;
+}
+
+export interface RetroactiveLabelChange {
+  transaction: Transaction;
+  added: string[]; // label IDs
+  removed: string[]; // label IDs
+}
+
+export interface RetroactiveRunPreview {
+  rule: Rule;
+  dateFrom: string;
+  dateTo: string;
+  transactionsScanned: number;
+  changes: RetroactiveLabelChange[];
+  logRetentionDays: number; // removals only see labels the rule applied within this many days, or through earlier runs
+}
+
 export interface SupabaseLabelRow {
   id: string;
   user_id: string;
@@ -362,8 +662,11 @@ export interface SupabaseRuleRow {
   id: string;
   user_id: string;
   name: string;
-  conditions: RuleCondition[];
+  conditions: RuleConditions;
   labels_to_apply: string[];
+  actions: RuleAction[] | null;
+  stop_processing: boolean;
+  version: number;
   order_index: number;
   is_active: boolean;
   created_at: string;
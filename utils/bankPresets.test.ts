@@ -0,0 +1,70 @@
+/**
+ * Simple tests for bank and credit-card statement presets
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseCSV, normalizeCSVData } from './importUtils';
+import {
+  BANK_PRESETS,
+  detectBankPreset,
+  applyBankPreset,
+  getPresetFieldMappings,
+  parsePresetAmount
+} from './bankPresets';
+
+const fixturesDir = join(__dirname, '__fixtures__', 'bank-presets');
+
+// Expected results per fixture: first transaction and total of all signed amounts
+const expectations: Record<string, { rows: number; firstDate: string; firstAmount: number; total: number }> = {
+  leumi: { rows: 4, firstDate: '2025-02-02', firstAmount: 12500, total: 12337.7 },
+  hapoalim: { rows: 4, firstDate: '2025-03-01', firstAmount: 14200, total: 12880.3 },
+  discount: { rows: 4, firstDate: '2025-03-02', firstAmount: -245.9, total: 429.15 },
+  isracard: { rows: 4, firstDate: '2025-01-05', firstAmount: -245.9, total: -404.45 },
+  max: { rows: 4, firstDate: '2025-02-03', firstAmount: -312.4, total: -582.3 },
+  cal: { rows: 4, firstDate: '2025-04-02', firstAmount: -68, total: 69.5 }
+};
+
+console.log('Testing bank statement presets...\n');
+
+console.log('1. Testing amount parsing:');
+['245.90', '-59.90', '1,250.00', '150.00-', '(35.00)', '₪ 12,500.00', ''].forEach(amount => {
+  console.log(`${JSON.stringify(amount)} -> ${parsePresetAmount(amount)}`);
+});
+
+console.log('\n2. Testing detection and normalization for each fixture:');
+let failures = 0;
+
+for (const preset of BANK_PRESETS) {
+  const content = readFileSync(join(fixturesDir, `${preset.id}.csv`), 'utf-8');
+  const parseResult = parseCSV(content);
+  const detection = detectBankPreset(parseResult.headers);
+  const detectedId = detection?.preset.id;
+
+  const converted = applyBankPreset(parseResult, preset);
+  const mappings = getPresetFieldMappings(converted.headers, preset);
+  const normalized = normalizeCSVData(converted.data, mappings);
+  const total = Math.round(normalized.reduce((sum, row) => sum + (row.amount || 0), 0) * 100) / 100;
+
+  const expected = expectations[preset.id];
+  const checks = {
+    detected: detectedId === preset.id,
+    rows: normalized.length === expected.rows,
+    firstDate: normalized[0]?.date === expected.firstDate,
+    firstAmount: normalized[0]?.amount === expected.firstAmount,
+    total: total === expected.total
+  };
+  const passed = Object.values(checks).every(Boolean);
+  if (!passed) failures++;
+
+  console.log(`${passed ? '✓' : '✗'} ${preset.name}: detected=${detectedId} (${Math.round((detection?.confidence || 0) * 100)}%), rows=${normalized.length}, total=${total}`);
+  if (!passed) {
+    console.log('  Failed checks:', Object.entries(checks).filter(([, ok]) => !ok).map(([name]) => name));
+    console.log('  First row:', normalized[0]);
+  }
+}
+
+console.log('\n3. Testing that generic headers are not matched to a preset:');
+console.log('Detected:', detectBankPreset(['Date', 'Description', 'Amount', 'Account'])?.preset.id ?? 'none');
+
+console.log(failures === 0 ? '\n✅ All preset tests passed!' : `\n❌ ${failures} preset fixture(s) failed`);
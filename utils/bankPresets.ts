@@ -0,0 +1,311 @@
+/**
+ * Statement presets for Israeli banks and credit-card issuers.
+ * Each preset describes one institution's export: which headers hold which
+ * field, how dates are written and how amounts are signed.
+ */
+
+import { CSVParseResult, DateFormat, parseDateWithFormat } from './importUtils';
+import { cleanAmountString } from '@/lib/currency/detection';
+
+export type BankPresetId = 'leumi' | 'hapoalim' | 'discount' | 'isracard' | 'max' | 'cal';
+
+/**
+ * How a statement signs its amounts:
+ * - signed: one column, expenses are negative
+ * - expenses-positive: one column, purchases are positive (card statements)
+ * - debit-credit: separate debit (חובה) and credit (זכות) columns, both positive
+ */
+export type SignConvention = 'signed' | 'expenses-positive' | 'debit-credit';
+
+export type PresetField = 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'total_amount' | 'identifier' | 'notes' | 'currency';
+
+export interface BankPreset {
+  id: BankPresetId;
+  name: string;
+  kind: 'bank' | 'credit-card';
+  // Header names per field, in order of preference. `amount` is the charged amount column.
+  headerAliases: Partial<Record<PresetField, string[]>>;
+  // Headers that set this export apart from the others; used for auto-detection
+  signatureHeaders: string[];
+  dateFormat: DateFormat;
+  signConvention: SignConvention;
+}
+
+export interface PresetDetectionResult {
+  preset: BankPreset;
+  confidence: number; // 0-1, share of the preset's signature headers found
+}
+
+// Column added by applyBankPreset when debit and credit are combined into one signed amount
+export const COMBINED_AMOUNT_HEADER = 'Amount (credit - debit)';
+
+// Presets whose signature matches less than this are not suggested
+const MIN_DETECTION_CONFIDENCE = 0.5;
+
+export const BANK_PRESETS: BankPreset[] = [
+  {
+    id: 'leumi',
+    name: 'Bank Leumi',
+    kind: 'bank',
+    headerAliases: {
+      date: ['תאריך'],
+      description: ['תיאור'],
+      identifier: ['אסמכתא'],
+      debit: ['בחובה'],
+      credit: ['בזכות']
+    },
+    signatureHeaders: ['תאריך ערך', 'תיאור', 'אסמכתא', 'בחובה', 'בזכות', 'היתרה בש"ח'],
+    dateFormat: 'DD/MM/YY',
+    signConvention: 'debit-credit'
+  },
+  {
+    id: 'hapoalim',
+    name: 'Bank Hapoalim',
+    kind: 'bank',
+    headerAliases: {
+      date: ['תאריך'],
+      description: ['תיאור הפעולה'],
+      notes: ['פרטים'],
+      identifier: ['אסמכתא'],
+      debit: ['חובה'],
+      credit: ['זכות']
+    },
+    signatureHeaders: ['תיאור הפעולה', 'פרטים', 'אסמכתא', 'חובה', 'זכות', 'יתרה בש"ח'],
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'debit-credit'
+  },
+  {
+    id: 'discount',
+    name: 'Discount Bank',
+    kind: 'bank',
+    headerAliases: {
+      date: ['תאריך'],
+      description: ['תיאור התנועה'],
+      amount: ['₪ זכות/חובה', 'זכות/חובה'],
+      identifier: ['אסמכתה']
+    },
+    signatureHeaders: ['יום ערך', 'תיאור התנועה', '₪ זכות/חובה', '₪ יתרה', 'אסמכתה'],
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'signed'
+  },
+  {
+    id: 'isracard',
+    name: 'Isracard',
+    kind: 'credit-card',
+    headerAliases: {
+      date: ['תאריך רכישה'],
+      description: ['שם בית עסק'],
+      amount: ['סכום חיוב'],
+      total_amount: ['סכום עסקה'],
+      currency: ['מטבע חיוב'],
+      identifier: ['מספר שובר'],
+      notes: ['פירוט נוסף']
+    },
+    signatureHeaders: ['תאריך רכישה', 'שם בית עסק', 'סכום עסקה', 'סכום חיוב', 'מספר שובר'],
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'expenses-positive'
+  },
+  {
+    id: 'max',
+    name: 'Max',
+    kind: 'credit-card',
+    headerAliases: {
+      date: ['תאריך עסקה'],
+      description: ['שם בית העסק'],
+      amount: ['סכום חיוב'],
+      total_amount: ['סכום עסקה מקורי'],
+      currency: ['מטבע חיוב'],
+      notes: ['הערות']
+    },
+    signatureHeaders: ['שם בית העסק', '4 ספרות אחרונות של כרטיס האשראי', 'סוג עסקה', 'סכום עסקה מקורי', 'תאריך חיוב'],
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'expenses-positive'
+  },
+  {
+    id: 'cal',
+    name: 'Cal (Visa Cal)',
+    kind: 'credit-card',
+    headerAliases: {
+      date: ['תאריך עסקה'],
+      description: ['שם בית עסק'],
+      amount: ['סכום חיוב'],
+      total_amount: ['סכום עסקה'],
+      notes: ['פירוט נוסף']
+    },
+    signatureHeaders: ['תאריך עסקה', 'שם בית עסק', 'סכום עסקה', 'סכום חיוב', 'פירוט נוסף'],
+    dateFormat: 'DD/MM/YY',
+    signConvention: 'expenses-positive'
+  }
+];
+
+/**
+ * Normalize a header for comparison: BOM, Hebrew gershayim and repeated spaces vary between exports
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/^\uFEFF/, '')
+    .replace(/[״”“]|''/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Look up a preset by id
+ */
+export function getBankPreset(id: string): BankPreset | null {
+  return BANK_PRESETS.find(preset => preset.id === id) || null;
+}
+
+/**
+ * Find the actual header for each preset field
+ */
+export function resolvePresetColumns(headers: string[], preset: BankPreset): Partial<Record<PresetField, string>> {
+  const columns: Partial<Record<PresetField, string>> = {};
+
+  for (const [field, aliases] of Object.entries(preset.headerAliases) as [PresetField, string[]][]) {
+    for (const alias of aliases) {
+      const header = headers.find(h => normalizeHeader(h) === normalizeHeader(alias));
+      if (header) {
+        columns[field] = header;
+        break;
+      }
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Whether the headers contain every column the preset needs to build a transaction
+ */
+function hasRequiredColumns(columns: Partial<Record<PresetField, string>>, preset: BankPreset): boolean {
+  const hasAmount = preset.signConvention === 'debit-credit'
+    ? !!columns.debit && !!columns.credit
+    : !!columns.amount;
+
+  return !!columns.date && !!columns.description && hasAmount;
+}
+
+/**
+ * Pick the preset whose signature headers best match the file's headers
+ */
+export function detectBankPreset(headers: string[]): PresetDetectionResult | null {
+  const normalizedHeaders = new Set(headers.map(normalizeHeader));
+  let best: PresetDetectionResult | null = null;
+
+  for (const preset of BANK_PRESETS) {
+    if (!hasRequiredColumns(resolvePresetColumns(headers, preset), preset)) continue;
+
+    const matched = preset.signatureHeaders.filter(header => normalizedHeaders.has(normalizeHeader(header))).length;
+    const confidence = matched / preset.signatureHeaders.length;
+
+    if (confidence >= MIN_DETECTION_CONFIDENCE && (!best || confidence > best.confidence)) {
+      best = { preset, confidence };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse a statement amount. Some exports write negatives with a trailing minus ("150.00-").
+ */
+export function parsePresetAmount(amountString: string): number | null {
+  if (!amountString || amountString.trim() === '') {
+    return null;
+  }
+
+  let cleaned = cleanAmountString(amountString);
+  let sign = 1;
+
+  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
+    cleaned = cleaned.slice(1, -1);
+    sign = -1;
+  } else if (cleaned.endsWith('-')) {
+    cleaned = cleaned.slice(0, -1);
+    sign = -1;
+  }
+
+  const num = parseFloat(cleaned);
+  return isNaN(num) ? null : sign * num;
+}
+
+/**
+ * Rewrite a parsed statement into the generic import format: dates become
+ * ISO strings and amounts become signed numbers (expenses negative).
+ * Rows without a date (balance and summary lines) are dropped.
+ */
+export function applyBankPreset(parseResult: CSVParseResult, preset: BankPreset): CSVParseResult {
+  const columns = resolvePresetColumns(parseResult.headers, preset);
+  const combineDebitCredit = preset.signConvention === 'debit-credit' && !!columns.debit && !!columns.credit;
+  const headers = combineDebitCredit
+    ? [...parseResult.headers, COMBINED_AMOUNT_HEADER]
+    : parseResult.headers;
+
+  const data: Record<string, string>[] = [];
+
+  for (const sourceRow of parseResult.data) {
+    const row = { ...sourceRow };
+
+    if (columns.date) {
+      if (!row[columns.date]?.trim()) continue;
+      row[columns.date] = parseDateWithFormat(row[columns.date], preset.dateFormat) || row[columns.date];
+    }
+
+    if (combineDebitCredit) {
+      const debit = parsePresetAmount(row[columns.debit!]) || 0;
+      const credit = parsePresetAmount(row[columns.credit!]) || 0;
+      row[COMBINED_AMOUNT_HEADER] = String(Math.abs(credit) - Math.abs(debit));
+    } else if (columns.amount) {
+      const amount = parsePresetAmount(row[columns.amount]);
+      if (amount !== null) {
+        row[columns.amount] = String(preset.signConvention === 'expenses-positive' ? -amount : amount);
+      }
+    }
+
+    data.push(row);
+  }
+
+  return {
+    headers,
+    data,
+    errors: parseResult.errors,
+    rowCount: data.length
+  };
+}
+
+/**
+ * Field mappings (header -> transaction field) for a statement already rewritten by applyBankPreset
+ */
+export function getPresetFieldMappings(headers: string[], preset: BankPreset): Record<string, string> {
+  const columns = resolvePresetColumns(headers, preset);
+  const mappings: Record<string, string> = {};
+
+  if (columns.date) mappings[columns.date] = 'date';
+  if (columns.description) mappings[columns.description] = 'description';
+  if (columns.identifier) mappings[columns.identifier] = 'identifier';
+  if (columns.notes) mappings[columns.notes] = 'notes';
+  if (columns.currency) mappings[columns.currency] = 'currency';
+  if (columns.total_amount) mappings[columns.total_amount] = 'total_amount';
+
+  if (headers.includes(COMBINED_AMOUNT_HEADER)) {
+    mappings[COMBINED_AMOUNT_HEADER] = 'amount';
+  } else if (columns.amount) {
+    mappings[columns.amount] = 'amount';
+  }
+
+  return mappings;
+}
+
+/**
+ * Short human-readable summary of how a preset reads a statement
+ */
+export function describeBankPreset(preset: BankPreset): string {
+  const signs: Record<SignConvention, string> = {
+    'signed': 'expenses are negative',
+    'expenses-positive': 'charges are positive and imported as expenses',
+    'debit-credit': 'debit and credit columns are combined'
+  };
+
+  return `Dates ${preset.dateFormat}, ${signs[preset.signConvention]}`;
+}
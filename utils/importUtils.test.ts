@@ -4,9 +4,12 @@
 
 import { 
   parseCSV, 
+  parseCSVFile,
   parseJSON,
   detectCSVDelimiter, 
   normalizeDate, 
+  inferDateFormat,
+  normalizeCSVData,
   normalizeAmount, 
   suggestFieldMappings,
   validateCSVStructure 
@@ -44,6 +47,25 @@ testDates.forEach(date => {
   console.log(`${date} -> ${normalizeDate(date)}`);
 });
 
+// Test dataset-level date format inference
+console.log('\n3b. Testing date format inference:');
+const dateColumns = {
+  'day over 12': ['05/03/2025', '18/03/2025', '02/04/2025'],
+  'month-first': ['03/05/2025', '03/18/2025', '04/02/2025'],
+  'ordered only day-first': ['01/02/2025', '05/02/2025', '09/02/2025', '02/03/2025'],
+  'two-digit years': ['05.03.25', '20.03.25'],
+  'ISO': ['2025-03-05', '2025-03-18'],
+  'textual': ['Mar 5, 2025']
+};
+Object.entries(dateColumns).forEach(([name, values]) => {
+  const inference = inferDateFormat(values);
+  console.log(`${name}: ${inference.format} (${inference.basis}) - ${values.map(value => normalizeDate(value, inference.format)).join(', ')}`);
+});
+
+// The whole column is read with one format, even rows that would fit either
+const israeliRows = [{ Date: '05/03/2025' }, { Date: '25/03/2025' }];
+console.log('Column-wide format:', normalizeCSVData(israeliRows, { Date: 'date' }).map(row => row.date), '(expected 2025-03-05, 2025-03-25)');
+
 // Test amount normalization
 console.log('\n4. Testing amount normalization:');
 const testAmounts = ['-4.50', '$2,500.00', '(45.67)', '1,234.56'];
@@ -51,6 +73,21 @@ testAmounts.forEach(amount => {
   console.log(`${amount} -> ${normalizeAmount(amount)}`);
 });
 
+// Test debit/credit columns and sign conventions
+console.log('\n4b. Testing debit/credit and expense signs:');
+const bankRows = [
+  { 'תאריך': '05/03/2025', 'תיאור': 'סופרמרקט', 'חובה': '245.90', 'זכות': '', 'יתרה': '1,000.00' },
+  { 'תאריך': '06/03/2025', 'תיאור': 'משכורת', 'חובה': '', 'זכות': '12,500.00', 'יתרה': '13,254.10' }
+];
+const bankMappings = suggestFieldMappings(Object.keys(bankRows[0]));
+console.log('Suggested mappings:', bankMappings);
+console.log('Combined amounts:', normalizeCSVData(bankRows, bankMappings).map(row => row.amount), '(expected -245.9, 12500)');
+
+const cardRows = [{ Date: '05/03/2025', Description: 'Coffee', Amount: '12.00' }, { Date: '06/03/2025', Description: 'Refund', Amount: '-30.00' }];
+const cardMappings = { Date: 'date', Description: 'description', Amount: 'amount' };
+console.log('As signed:', normalizeCSVData(cardRows, cardMappings).map(row => row.amount));
+console.log('Expenses positive:', normalizeCSVData(cardRows, cardMappings, 'ILS', { expensesPositive: true }).map(row => row.amount), '(expected -12, 30)');
+
 // Test field mapping suggestions
 console.log('\n5. Testing field mapping suggestions:');
 const headers = ['Date', 'Description', 'Amount', 'Account'];
@@ -129,4 +166,45 @@ const emptyResult = parseJSON('');
 console.log('Empty JSON - Errors:', emptyResult.errors.length);
 console.log('Empty JSON - Error message:', emptyResult.errors[0]);
 
-console.log('\n✅ JSON parsing tests completed!'); 
\ No newline at end of file
+console.log('\n✅ JSON parsing tests completed!'); 
+// Test RFC 4180 edge cases
+console.log('\n9. Testing quoted fields, line endings and BOM:');
+
+const multilineCSV = '\uFEFFDate,Description,Amount\r\n2024-01-15,"Transfer\r\nref ""A-1""",-10\r\n\r\n2024-01-16,Refund,5\r';
+const multilineResult = parseCSV(multilineCSV);
+console.log('Headers (no BOM):', multilineResult.headers);
+console.log('Rows:', multilineResult.data);
+console.log('Errors:', multilineResult.errors);
+
+// A comma inside the first line's quoted field must not win over the semicolon
+const quotedHeaderCSV = `"Date";"Description, full";"Amount"
+15/01/2024;Coffee;-4,50
+16/01/2024;Salary;2500,00`;
+console.log('Delimiter with quoted commas:', detectCSVDelimiter(quotedHeaderCSV));
+
+console.log('\n10. Testing file parsing:');
+
+(async () => {
+  const hebrew = 'תאריך,תיאור,סכום\n15/01/2024,סופרמרקט,-45.67\n';
+  // Windows-1255: Hebrew letters U+05D0-U+05EA map to 0xE0-0xFA
+  const windows1255 = Uint8Array.from(hebrew, char => {
+    const code = char.charCodeAt(0);
+    return code >= 0x05d0 && code <= 0x05ea ? code - 0x05d0 + 0xe0 : code;
+  });
+
+  const legacyResult = await parseCSVFile(new Blob([windows1255]));
+  console.log('Windows-1255 headers:', legacyResult.headers);
+  console.log('Windows-1255 row:', legacyResult.data[0]);
+
+  const rows = Array.from({ length: 100000 }, (_, i) => `2024-01-01,"Row ${i}",${i}`);
+  let updates = 0;
+  const largeResult = await parseCSVFile(
+    new Blob(['\uFEFFDate,Description,Amount\n' + rows.join('\n')]),
+    () => updates++
+  );
+  console.log('Large file rows:', largeResult.rowCount, '(expected 100000)');
+  console.log('Progress updates:', updates > 1);
+  console.log('Last row:', largeResult.data[largeResult.rowCount - 1]);
+
+  console.log('\n✅ CSV file parsing tests completed!');
+})();
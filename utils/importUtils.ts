@@ -3,6 +3,7 @@
  */
 
 import { CurrencyCode } from '@/types/database';
+import type { ImportProgress } from '@/services/importService';
 import { 
   detectCurrencyFromDataset, 
   detectCurrencyFromAmount,
@@ -26,20 +27,53 @@ export interface ImportValidationResult {
   detectedFields: string[];
 }
 
+// Candidate delimiters, in order of preference when equally consistent
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// Records sampled for delimiter detection
+const DELIMITER_SAMPLE_RECORDS = 20;
+
+// Bytes read per step when streaming a file
+const CSV_CHUNK_SIZE = 256 * 1024;
+
 /**
- * Detect the delimiter used in a CSV file
+ * Detect the delimiter used in a CSV file.
+ * Counts each candidate outside quotes over the first records and picks the one
+ * that appears the same number of times in the most records.
  */
 export function detectCSVDelimiter(csvContent: string): string {
-  const delimiters = [',', ';', '\t', '|'];
-  const sample = csvContent.split('\n')[0]; // Use first line for detection
+  const counts: Record<string, number>[] = [{}];
+  let inQuotes = false;
   
-  let bestDelimiter = ',';
-  let maxCount = 0;
+  for (let i = 0; i < csvContent.length && counts.length <= DELIMITER_SAMPLE_RECORDS; i++) {
+    const char = csvContent[i];
+    
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && csvContent[i + 1] === '\n') i++;
+      if (Object.keys(counts[counts.length - 1]).length > 0) counts.push({});
+    } else if (!inQuotes && CSV_DELIMITERS.includes(char)) {
+      const record = counts[counts.length - 1];
+      record[char] = (record[char] || 0) + 1;
+    }
+  }
   
-  for (const delimiter of delimiters) {
-    const count = sample.split(delimiter).length - 1;
-    if (count > maxCount) {
-      maxCount = count;
+  const records = counts.filter(record => Object.keys(record).length > 0);
+  let bestDelimiter = ',';
+  let bestScore = 0;
+  
+  for (const delimiter of CSV_DELIMITERS) {
+    // The most common non-zero count is the delimiter's column count minus one
+    const frequency = new Map<number, number>();
+    records.forEach(record => {
+      const count = record[delimiter] || 0;
+      if (count > 0) frequency.set(count, (frequency.get(count) || 0) + 1);
+    });
+    
+    const consistentRecords = Math.max(0, ...frequency.values());
+    if (consistentRecords > bestScore) {
+      bestScore = consistentRecords;
       bestDelimiter = delimiter;
     }
   }
@@ -48,46 +82,159 @@ export function detectCSVDelimiter(csvContent: string): string {
 }
 
 /**
- * Parse CSV content handling quoted fields properly
+ * RFC 4180 CSV tokenizer that accepts input in chunks.
+ * Handles quoted fields with delimiters, escaped quotes and line breaks,
+ * CRLF/LF/CR line endings and a leading BOM. Blank lines are skipped.
+ */
+export class CSVStreamParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quoteInQuotes = false; // a quote inside a quoted field: either escaped ("") or closing
+  private afterCR = false;
+  private started = false;
+  
+  constructor(private delimiter: string) {}
+  
+  /**
+   * Consume a chunk and return the records it completed
+   */
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+    let i = 0;
+    
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+    }
+    
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+      
+      if (this.inQuotes) {
+        if (this.quoteInQuotes) {
+          this.quoteInQuotes = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+          // The quote closed the field; handle this character as unquoted
+        } else {
+          if (char === '"') {
+            this.quoteInQuotes = true;
+          } else {
+            this.field += char;
+          }
+          continue;
+        }
+      }
+      
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === '\n') continue;
+      }
+      
+      if (char === '"' && this.field.trim() === '') {
+        this.inQuotes = true;
+        this.field = '';
+      } else if (char === this.delimiter) {
+        this.record.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        this.afterCR = char === '\r';
+        this.endRecord(records);
+      } else {
+        this.field += char;
+      }
+    }
+    
+    return records;
+  }
+  
+  /**
+   * Flush the last record when the input has no trailing line break
+   */
+  end(): string[][] {
+    const records: string[][] = [];
+    this.inQuotes = false;
+    this.quoteInQuotes = false;
+    this.endRecord(records);
+    return records;
+  }
+  
+  private endRecord(records: string[][]) {
+    this.record.push(this.field);
+    if (this.record.length > 1 || this.record[0].trim() !== '') {
+      records.push(this.record.map(value => value.trim()));
+    }
+    this.record = [];
+    this.field = '';
+  }
+}
+
+/**
+ * Parse a single CSV line handling quoted fields properly
  */
 export function parseCSVLine(line: string, delimiter: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let i = 0;
+  const parser = new CSVStreamParser(delimiter);
+  return [...parser.push(line), ...parser.end()][0] || [''];
+}
+
+/**
+ * Turns tokenized records into the header + row objects of a CSVParseResult
+ */
+class CSVResultBuilder {
+  headers: string[] = [];
+  data: Record<string, string>[] = [];
+  errors: string[] = [];
+  private recordNumber = 0;
   
-  while (i < line.length) {
-    const char = line[i];
+  add(values: string[]) {
+    this.recordNumber++;
     
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Handle escaped quotes
-        current += '"';
-        i += 2;
-        continue;
-      }
-      inQuotes = !inQuotes;
-    } else if (char === delimiter && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
+    if (this.recordNumber === 1) {
+      this.headers = values;
+      return;
+    }
+    
+    // Handle rows with different column counts
+    if (values.length !== this.headers.length) {
+      this.errors.push(`Row ${this.recordNumber}: Expected ${this.headers.length} columns, got ${values.length}`);
+      return;
     }
     
-    i++;
+    const row: Record<string, string> = {};
+    this.headers.forEach((header, index) => {
+      row[header] = values[index] || '';
+    });
+    this.data.push(row);
   }
   
-  result.push(current.trim());
-  return result;
+  result(): CSVParseResult {
+    if (this.headers.length === 0 || this.headers.every(header => header === '')) {
+      return {
+        headers: [],
+        data: [],
+        errors: ['No headers found in CSV'],
+        rowCount: 0
+      };
+    }
+    
+    return {
+      headers: this.headers,
+      data: this.data,
+      errors: this.errors,
+      rowCount: this.data.length
+    };
+  }
 }
 
 /**
  * Parse CSV content into structured data
  */
 export function parseCSV(csvContent: string): CSVParseResult {
-  const errors: string[] = [];
-  
-  if (!csvContent || csvContent.trim() === '') {
+  if (!csvContent || csvContent.trim() === '' || csvContent.trim() === '\uFEFF') {
     return {
       headers: [],
       data: [],
@@ -97,64 +244,111 @@ export function parseCSV(csvContent: string): CSVParseResult {
   }
   
   try {
-    const delimiter = detectCSVDelimiter(csvContent);
-    const lines = csvContent.split('\n').filter(line => line.trim() !== '');
-    
-    if (lines.length === 0) {
-      return {
-        headers: [],
-        data: [],
-        errors: ['No valid lines found in CSV'],
-        rowCount: 0
-      };
-    }
+    const parser = new CSVStreamParser(detectCSVDelimiter(csvContent));
+    const builder = new CSVResultBuilder();
     
-    // Parse headers
-    const headers = parseCSVLine(lines[0], delimiter).map(header => header.trim());
+    parser.push(csvContent).forEach(values => builder.add(values));
+    parser.end().forEach(values => builder.add(values));
     
-    if (headers.length === 0) {
-      return {
-        headers: [],
-        data: [],
-        errors: ['No headers found in CSV'],
-        rowCount: 0
-      };
+    return builder.result();
+  } catch (error) {
+    return {
+      headers: [],
+      data: [],
+      errors: [`Failed to parse CSV: ${error instanceof Error ? error.message : 'Unknown error'}`],
+      rowCount: 0
+    };
+  }
+}
+
+/**
+ * Pick the text encoding of a CSV file from its first bytes: a BOM wins,
+ * otherwise UTF-8 is tried and Windows-1255 (Hebrew Excel exports) is the fallback
+ */
+function detectEncoding(head: Uint8Array): string {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return 'utf-8';
+  if (head[0] === 0xff && head[1] === 0xfe) return 'utf-16le';
+  if (head[0] === 0xfe && head[1] === 0xff) return 'utf-16be';
+  return 'utf-8';
+}
+
+class InvalidEncodingError extends Error {}
+
+async function streamCSVFile(
+  file: Blob,
+  encoding: string,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<CSVParseResult> {
+  // Only plain UTF-8 is checked strictly; invalid bytes mean the file is Windows-1255
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+  const builder = new CSVResultBuilder();
+  let parser: CSVStreamParser | null = null;
+  let pending = '';
+  
+  for (let offset = 0; offset < file.size; offset += CSV_CHUNK_SIZE) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + CSV_CHUNK_SIZE).arrayBuffer());
+    const isLast = offset + CSV_CHUNK_SIZE >= file.size;
+    
+    let text: string;
+    try {
+      text = decoder.decode(bytes, { stream: !isLast });
+    } catch {
+      throw new InvalidEncodingError();
     }
     
-    // Parse data rows
-    const data: Record<string, string>[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      try {
-        const values = parseCSVLine(line, delimiter);
-        
-        // Handle rows with different column counts
-        if (values.length !== headers.length) {
-          errors.push(`Row ${i + 1}: Expected ${headers.length} columns, got ${values.length}`);
-          continue;
-        }
-        
-        const row: Record<string, string> = {};
-        headers.forEach((header, index) => {
-          row[header] = values[index] || '';
-        });
-        
-        data.push(row);
-      } catch (error) {
-        errors.push(`Row ${i + 1}: ${error instanceof Error ? error.message : 'Parse error'}`);
-      }
+    // The delimiter is detected once enough text has been read to sample several records
+    if (!parser) {
+      pending += text;
+      if (!isLast && pending.length < CSV_CHUNK_SIZE) continue;
+      parser = new CSVStreamParser(detectCSVDelimiter(pending));
+      text = pending;
     }
     
+    parser.push(text).forEach(values => builder.add(values));
+    
+    const bytesRead = Math.min(offset + CSV_CHUNK_SIZE, file.size);
+    onProgress?.({
+      currentBatch: 0,
+      totalBatches: 0,
+      processed: builder.data.length,
+      total: Math.round(builder.data.length * file.size / bytesRead),
+      percentage: Math.round((bytesRead / file.size) * 100),
+      status: 'parsing',
+      message: `Reading file... ${builder.data.length.toLocaleString()} rows`
+    });
+  }
+  
+  parser?.end().forEach(values => builder.add(values));
+  
+  return builder.result();
+}
+
+/**
+ * Parse a CSV file in chunks without holding its whole text in memory.
+ * Detects the encoding (UTF-8/UTF-16 BOM, UTF-8, else Windows-1255) and reports progress.
+ */
+export async function parseCSVFile(
+  file: Blob,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<CSVParseResult> {
+  if (file.size === 0) {
     return {
-      headers,
-      data,
-      errors,
-      rowCount: data.length
+      headers: [],
+      data: [],
+      errors: ['CSV content is empty'],
+      rowCount: 0
     };
+  }
+  
+  try {
+    const encoding = detectEncoding(new Uint8Array(await file.slice(0, 4).arrayBuffer()));
     
+    try {
+      return await streamCSVFile(file, encoding, onProgress);
+    } catch (error) {
+      if (!(error instanceof InvalidEncodingError)) throw error;
+      return await streamCSVFile(file, 'windows-1255', onProgress);
+    }
   } catch (error) {
     return {
       headers: [],
@@ -166,52 +360,156 @@ export function parseCSV(csvContent: string): CSVParseResult {
 }
 
 /**
- * Normalize date strings to ISO format
+ * Day/month/year order of a date column (any of / - . may separate the parts)
+ */
+export type DateFormat = 'DD/MM/YYYY' | 'DD/MM/YY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+/**
+ * Parse a date string in a known format to ISO (YYYY-MM-DD). A trailing time is ignored.
  */
-export function normalizeDate(dateString: string): string | null {
+export function parseDateWithFormat(dateString: string, format: DateFormat): string | null {
   if (!dateString || dateString.trim() === '') {
     return null;
   }
   
-  // Common date formats to try
-  const formats = [
-    // MM/DD/YYYY, MM-DD-YYYY, MM.DD.YYYY
-    /^(\d{1,2})[\/\-\.](\d{1,2})[\/\-\.](\d{4})$/,
-    // DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY
-    /^(\d{1,2})[\/\-\.](\d{1,2})[\/\-\.](\d{4})$/,
-    // YYYY-MM-DD, YYYY/MM/DD, YYYY.MM.DD
-    /^(\d{4})[\/\-\.](\d{1,2})[\/\-\.](\d{1,2})$/,
-  ];
+  const match = dateString.trim().split(/\s+/)[0].match(/^(\d{1,4})[\/\-\.](\d{1,2})[\/\-\.](\d{1,4})$/);
+  if (!match) {
+    return null;
+  }
+  
+  const [, part1, part2, part3] = match.map(Number);
+  let year: number, month: number, day: number;
+  
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = [part1, part2, part3];
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = [part1, part2, part3];
+      break;
+    default:
+      [day, month, year] = [part1, part2, part3];
+  }
+  
+  // Two-digit years are always in this century
+  if (year < 100) {
+    year += 2000;
+  }
+  
+  // Reject impossible dates such as 31/02 instead of letting Date roll them over
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  
+  return date.toISOString().split('T')[0];
+}
+
+// Numeric dates: day, month and year in some order, separated by / - or .
+const NUMERIC_DATE_PATTERN = /^(\d{1,4})[\/\-\.](\d{1,2})[\/\-\.](\d{1,4})$/;
+
+/**
+ * Date format inferred for a whole column, and why
+ */
+export interface DateFormatInference {
+  format: DateFormat | null; // null when the column has no numeric dates
+  basis: 'values' | 'order' | 'default'; // decided by parts over 12, by row ordering, or neither
+  reason: string;
+}
+
+// How consistently the dates run in one direction (1 = fully sorted ascending or descending)
+function orderScore(values: string[], format: DateFormat): number {
+  const dates = values.map(value => parseDateWithFormat(value, format)).filter((date): date is string => !!date);
+  let ascending = 0;
+  let descending = 0;
+  
+  for (let i = 1; i < dates.length; i++) {
+    if (dates[i] > dates[i - 1]) ascending++;
+    if (dates[i] < dates[i - 1]) descending++;
+  }
+  
+  const steps = ascending + descending;
+  // Values that do not parse in this format count against it
+  return steps === 0 ? 0 : Math.max(ascending, descending) / steps * (dates.length / values.length);
+}
+
+/**
+ * Infer the date format of a column from all of its values.
+ * A part over 12 settles day-first vs month-first; otherwise the reading under which the
+ * rows are in date order wins, and day-first (local bank exports) is the default.
+ */
+export function inferDateFormat(values: string[]): DateFormatInference {
+  const dates = values
+    .map(value => (value || '').trim().split(/\s+/)[0])
+    .filter(value => NUMERIC_DATE_PATTERN.test(value));
+  
+  if (dates.length === 0) {
+    return { format: null, basis: 'default', reason: 'No numeric dates found' };
+  }
+  
+  const parts = dates.map(value => value.match(NUMERIC_DATE_PATTERN)!.slice(1));
+  
+  if (parts.filter(([first]) => first.length === 4).length > parts.length / 2) {
+    return { format: 'YYYY-MM-DD', basis: 'values', reason: 'Dates start with the year' };
+  }
+  
+  const shortYear = parts.filter(([, , year]) => year.length <= 2).length > parts.length / 2;
+  const dayFirstFormat: DateFormat = shortYear ? 'DD/MM/YY' : 'DD/MM/YYYY';
+  const dayFirst = parts.filter(([first, second]) => Number(first) > 12 && Number(second) <= 12).length;
+  const monthFirst = parts.filter(([first, second]) => Number(second) > 12 && Number(first) <= 12).length;
+  
+  if (dayFirst > monthFirst) {
+    return { format: dayFirstFormat, basis: 'values', reason: `${dayFirst} date(s) have a day over 12 in the first position` };
+  }
+  if (monthFirst > dayFirst) {
+    return { format: 'MM/DD/YYYY', basis: 'values', reason: `${monthFirst} date(s) have a day over 12 in the second position` };
+  }
+  
+  const dayFirstOrder = orderScore(dates, dayFirstFormat);
+  const monthFirstOrder = orderScore(dates, 'MM/DD/YYYY');
+  
+  if (dayFirstOrder > monthFirstOrder) {
+    return { format: dayFirstFormat, basis: 'order', reason: 'Rows are in date order when read day first' };
+  }
+  if (monthFirstOrder > dayFirstOrder) {
+    return { format: 'MM/DD/YYYY', basis: 'order', reason: 'Rows are in date order when read month first' };
+  }
+  
+  return { format: dayFirstFormat, basis: 'default', reason: 'Dates are ambiguous, assuming day first' };
+}
+
+/**
+ * Normalize date strings to ISO format.
+ * Pass the column's format (see inferDateFormat) so every row is read the same way;
+ * without it a numeric date is read day first, or month first when that is impossible.
+ */
+export function normalizeDate(dateString: string, format?: DateFormat | null): string | null {
+  if (!dateString || dateString.trim() === '') {
+    return null;
+  }
   
   const dateStr = dateString.trim();
+  const datePart = dateStr.split(/\s+/)[0];
+  
+  if (NUMERIC_DATE_PATTERN.test(datePart)) {
+    // Year-first dates are unambiguous
+    if (/^\d{4}[\/\-\.]/.test(datePart)) {
+      return parseDateWithFormat(datePart, 'YYYY-MM-DD');
+    }
+    
+    if (format && format !== 'YYYY-MM-DD') {
+      return parseDateWithFormat(datePart, format);
+    }
+    
+    return parseDateWithFormat(datePart, 'DD/MM/YYYY') || parseDateWithFormat(datePart, 'MM/DD/YYYY');
+  }
   
-  // Try parsing as Date first (handles many formats)
+  // Textual dates and timestamps ("Jan 15, 2024", "2024-01-15T10:00:00Z")
   const directDate = new Date(dateStr);
   if (!isNaN(directDate.getTime())) {
     return directDate.toISOString().split('T')[0];
   }
   
-  // Try common formats
-  for (const format of formats) {
-    const match = dateStr.match(format);
-    if (match) {
-      const [, part1, part2, part3] = match;
-      
-      // Try different interpretations
-      const interpretations = [
-        new Date(parseInt(part3), parseInt(part1) - 1, parseInt(part2)), // MM/DD/YYYY
-        new Date(parseInt(part3), parseInt(part2) - 1, parseInt(part1)), // DD/MM/YYYY
-        new Date(parseInt(part1), parseInt(part2) - 1, parseInt(part3)), // YYYY-MM-DD
-      ];
-      
-      for (const date of interpretations) {
-        if (!isNaN(date.getTime())) {
-          return date.toISOString().split('T')[0];
-        }
-      }
-    }
-  }
-  
   return null;
 }
 
@@ -243,13 +541,40 @@ export function normalizeAmount(amountString: string): number | null {
 }
 
 /**
- * Normalize CSV data by applying type conversions (enhanced with currency support)
+ * Per-import choices for reading dates and amount signs
+ */
+export interface NormalizeOptions {
+  dateFormat?: DateFormat | null; // format of the date column; inferred from the data when omitted
+  expensesPositive?: boolean; // the amount column reports expenses as positive numbers (card statements)
+}
+
+/**
+ * Signed amount from separate debit and credit columns, both read as magnitudes
+ */
+export function combineDebitCredit(debit: number | null, credit: number | null): number | null {
+  if (debit === null && credit === null) {
+    return null;
+  }
+  
+  return Math.abs(credit || 0) - Math.abs(debit || 0);
+}
+
+/**
+ * Normalize CSV data by applying type conversions (enhanced with currency support).
+ * Debit and credit columns are combined into a signed amount.
  */
 export function normalizeCSVData(
   data: Record<string, string>[], 
   fieldMappings: Record<string, string>,
-  defaultCurrency: CurrencyCode = 'ILS'
+  defaultCurrency: CurrencyCode = 'ILS',
+  options: NormalizeOptions = {}
 ): Record<string, any>[] {
+  // One date format for the whole column, inferred from every row unless given
+  const dateColumn = Object.keys(fieldMappings).find(field => fieldMappings[field] === 'date');
+  const columnDateFormat = options.dateFormat !== undefined
+    ? options.dateFormat
+    : dateColumn ? inferDateFormat(data.map(row => row[dateColumn])).format : null;
+  
   return data.map(row => {
     const normalized: Record<string, any> = {};
     
@@ -268,8 +593,13 @@ export function normalizeCSVData(
           const cleanedAmount = cleanAmountString(value);
           normalized[targetField] = parseFloat(cleanedAmount) || 0;
           break;
+        case 'debit':
+        case 'credit':
+        case 'total_amount':
+          normalized[targetField] = parseFloat(cleanAmountString(value)) || 0;
+          break;
         case 'date':
-          normalized[targetField] = normalizeDate(value);
+          normalized[targetField] = normalizeDate(value, columnDateFormat);
           break;
         case 'currency':
           // Normalize currency code
@@ -281,6 +611,16 @@ export function normalizeCSVData(
       }
     }
     
+    if ('debit' in normalized || 'credit' in normalized) {
+      if (!('amount' in normalized)) {
+        normalized.amount = combineDebitCredit(normalized.debit ?? null, normalized.credit ?? null);
+      }
+      delete normalized.debit;
+      delete normalized.credit;
+    } else if (options.expensesPositive && typeof normalized.amount === 'number') {
+      normalized.amount = -normalized.amount;
+    }
+    
     // If no currency field was mapped, try to detect from amount field
     if (!normalized.currency && fieldMappings.amount) {
       const amountValue = row[fieldMappings.amount];
@@ -410,6 +750,8 @@ export function suggestFieldMappings(headers: string[]): Record<string, string>
   const fieldPatterns = {
     'description': ['description', 'desc', 'title', 'name', 'details', 'memo', 'narrative'],
     'amount': ['amount', 'value', 'price', 'total', 'sum', 'balance'],
+    'debit': ['debit', 'withdrawal', 'חובה'],
+    'credit': ['credit', 'deposit', 'זכות'],
     'date': ['date', 'timestamp', 'time', 'created', 'transaction_date'],
     'identifier': ['id', 'transaction_id', 'ref', 'reference', 'identifier'],
     'source': ['source', 'bank', 'account', 'origin', 'from'],
@@ -429,6 +771,13 @@ export function suggestFieldMappings(headers: string[]): Record<string, string>
     }
   }
   
+  // Statements with debit and credit columns carry the amount there; an "amount" match is usually the balance
+  const targets = Object.values(mappings);
+  if (targets.includes('debit') && targets.includes('credit')) {
+    const amountHeader = Object.keys(mappings).find(header => mappings[header] === 'amount');
+    if (amountHeader) delete mappings[amountHeader];
+  }
+  
   return mappings;
 }
 
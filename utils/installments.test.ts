@@ -0,0 +1,47 @@
+/**
+ * Simple tests for installment detection and scheduling
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseCSV, normalizeCSVData } from './importUtils';
+import { getBankPreset, applyBankPreset, getPresetFieldMappings } from './bankPresets';
+import {
+  parseInstallment,
+  detectInstallment,
+  addMonths,
+  getFirstChargeDate,
+  scheduleRemainingInstallments
+} from './installments';
+
+const fixturesDir = join(__dirname, '__fixtures__', 'bank-presets');
+
+console.log('Testing installment detection...\n');
+
+console.log('1. Testing text parsing:');
+['תשלום 3 מתוך 12', 'תשלום 2 מ-6', '4 מתוך 10 תשלומים', 'Installment 5 of 36', 'תשלום 13 מתוך 12', 'זיכוי', ''].forEach(text => {
+  console.log(`${JSON.stringify(text)} ->`, parseInstallment(text));
+});
+
+console.log('\n2. Testing card statement fixtures:');
+for (const id of ['isracard', 'max', 'cal']) {
+  const preset = getBankPreset(id)!;
+  const converted = applyBankPreset(parseCSV(readFileSync(join(fixturesDir, `${id}.csv`), 'utf-8')), preset);
+  const normalized = normalizeCSVData(converted.data, getPresetFieldMappings(converted.headers, preset));
+  const installments = normalized.map(detectInstallment).filter(Boolean);
+  console.log(`${preset.name}:`, installments);
+}
+
+console.log('\n3. Testing a deal total that does not fit the charges (other currency):');
+console.log(detectInstallment({ amount: -250, total_amount: 400, notes: 'תשלום 2 מתוך 6' }), '(expected total -1500)');
+
+console.log('\n4. Testing scheduling:');
+console.log('Month end clamping:', addMonths('2025-01-31', 1), addMonths('2024-12-15', 2), '(expected 2025-02-28, 2025-02-15)');
+const firstChargeDate = getFirstChargeDate('2025-02-14', 2);
+console.log('First charge of "2 of 6" on 2025-02-14:', firstChargeDate);
+
+const plan = { installment_count: 3, installment_amount: -333.33, total_amount: -1000, first_charge_date: '2025-01-10' };
+console.log('Remaining after charge 1:', scheduleRemainingInstallments(plan, 1));
+console.log('Remaining after last charge:', scheduleRemainingInstallments(plan, 3));
+
+console.log('\n✅ Installment tests completed!');
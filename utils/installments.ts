@@ -0,0 +1,112 @@
+/**
+ * Installment ("תשלומים") detection for card statements.
+ * A purchase split into monthly charges shows up once per statement with a note
+ * like "תשלום 3 מתוך 12", the monthly charge as the amount and the deal total in another column.
+ */
+
+import { ScheduledInstallment } from '@/types/database';
+
+export interface InstallmentInfo {
+  index: number; // 1-based number of this charge
+  count: number; // number of charges in the plan
+}
+
+export interface DetectedInstallment extends InstallmentInfo {
+  installmentAmount: number; // this charge, signed like the transaction
+  totalAmount: number; // the whole deal, with the same sign
+}
+
+// "תשלום 3 מתוך 12", "תשלום 3 מ-12", "3 מתוך 12 תשלומים", "installment 3 of 12", "payment 3/12"
+const INSTALLMENT_PATTERNS = [
+  /תשלום\s*(\d{1,3})\s*(?:מתוך|מ-|מ־|\/)\s*(\d{1,3})/,
+  /(\d{1,3})\s*מתוך\s*(\d{1,3})\s*תשלומים/,
+  /(?:installment|payment)\s*(\d{1,3})\s*(?:of|\/)\s*(\d{1,3})/i
+];
+
+/**
+ * Find "payment X of Y" in a description or note
+ */
+export function parseInstallment(text: string | null | undefined): InstallmentInfo | null {
+  if (!text) {
+    return null;
+  }
+
+  for (const pattern of INSTALLMENT_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const index = parseInt(match[1], 10);
+    const count = parseInt(match[2], 10);
+    if (count >= 2 && index >= 1 && index <= count) {
+      return { index, count };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Installment details of a normalized import row (description, notes, amount, total_amount).
+ * The deal total is used when it fits the charges (it may be in another currency);
+ * otherwise the plan is assumed to be equal charges.
+ */
+export function detectInstallment(row: Record<string, any>): DetectedInstallment | null {
+  const info = parseInstallment(row.notes) || parseInstallment(row.description);
+  if (!info || typeof row.amount !== 'number' || row.amount === 0) {
+    return null;
+  }
+
+  const sign = row.amount < 0 ? -1 : 1;
+  const charge = Math.abs(row.amount);
+  const equalCharges = charge * info.count;
+  const total = typeof row.total_amount === 'number' && Math.abs(Math.abs(row.total_amount) - equalCharges) < charge
+    ? Math.abs(row.total_amount)
+    : equalCharges;
+
+  return {
+    ...info,
+    installmentAmount: row.amount,
+    totalAmount: sign * Math.round(total * 100) / 100
+  };
+}
+
+/**
+ * Shift an ISO date (YYYY-MM-DD) by whole months, clamping to the end of shorter months
+ */
+export function addMonths(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.split('T')[0].split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+}
+
+/**
+ * Estimated date of the first charge, given the date of charge number `index`
+ */
+export function getFirstChargeDate(isoDate: string, index: number): string {
+  return addMonths(isoDate, -(index - 1));
+}
+
+/**
+ * The charges of a plan after the last one seen, one month apart.
+ * The last charge absorbs rounding so the charges add up to the deal total.
+ */
+export function scheduleRemainingInstallments(
+  plan: { installment_count: number; installment_amount: number; total_amount: number; first_charge_date: string },
+  lastIndex: number
+): ScheduledInstallment[] {
+  const remaining: ScheduledInstallment[] = [];
+  const regularTotal = plan.installment_amount * (plan.installment_count - 1);
+
+  for (let index = lastIndex + 1; index <= plan.installment_count; index++) {
+    const isLast = index === plan.installment_count;
+    remaining.push({
+      index,
+      date: addMonths(plan.first_charge_date, index - 1),
+      amount: isLast ? Math.round((plan.total_amount - regularTotal) * 100) / 100 : plan.installment_amount
+    });
+  }
+
+  return remaining;
+}
@@ -0,0 +1,111 @@
+/**
+ * Simple tests for OFX/QFX parsing
+ */
+
+import { parseOFX, parseOFXDate, isOFXContent, OFX_FIELD_MAPPINGS } from './ofxParser';
+import { normalizeCSVData } from './importUtils';
+
+// OFX 1.x: SGML header, leaf elements are not closed
+const sgmlSample = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+CHARSET:1252
+COMPRESSION:NONE
+OLDFILEUID:NONE
+NEWFILEUID:NONE
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20250301120000<LANGUAGE>ENG</SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>121000248<ACCTID>987654321<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250201<DTEND>20250228
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250203120000.000[-5:EST]
+<TRNAMT>-42.15
+<FITID>202502030001
+<NAME>WHOLE FOODS &amp; CO
+<MEMO>POS PURCHASE
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250215
+<TRNAMT>1500.00
+<FITID>202502150002
+<MEMO>DIVIDEND REINVESTMENT CASH
+<CURRENCY><CURRATE>1.08<CURSYM>EUR</CURRENCY>
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+// OFX 2.x: XML, every element closed
+const xmlSample = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <CCSTMTRS>
+        <CURDEF>USD</CURDEF>
+        <CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20250110</DTPOSTED>
+            <TRNAMT>-19.99</TRNAMT>
+            <FITID>CC-0001</FITID>
+            <NAME>SPOTIFY USA</NAME>
+            <MEMO></MEMO>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>`;
+
+console.log('Testing OFX parsing...\n');
+
+console.log('1. Testing content detection:');
+console.log('SGML is OFX:', isOFXContent(sgmlSample));
+console.log('XML is OFX:', isOFXContent(xmlSample));
+console.log('CSV is OFX:', isOFXContent('Date,Description,Amount'));
+
+console.log('\n2. Testing date conversion:');
+['20250203120000.000[-5:EST]', '20250215', 'bad'].forEach(date => {
+  console.log(`${date} -> ${parseOFXDate(date)}`);
+});
+
+console.log('\n3. Testing OFX 1.x (SGML):');
+const sgmlResult = parseOFX(sgmlSample);
+console.log('Headers:', sgmlResult.headers);
+console.log('Row count:', sgmlResult.rowCount);
+console.log('Rows:', sgmlResult.data);
+console.log('Errors:', sgmlResult.errors);
+
+console.log('\n4. Testing OFX 2.x (XML):');
+const xmlResult = parseOFX(xmlSample);
+console.log('Headers:', xmlResult.headers);
+console.log('Row count:', xmlResult.rowCount);
+console.log('First row:', xmlResult.data[0]);
+console.log('Errors:', xmlResult.errors);
+
+console.log('\n5. Testing normalization with the OFX field mappings:');
+const mappings = Object.fromEntries(
+  Object.entries(OFX_FIELD_MAPPINGS).filter(([header]) => sgmlResult.headers.includes(header))
+);
+console.log('Normalized:', normalizeCSVData(sgmlResult.data, mappings));
+
+console.log('\n6. Testing invalid content:');
+console.log('No OFX element:', parseOFX('OFXHEADER:100').errors);
+console.log('Empty:', parseOFX('').errors);
+
+console.log('\n✅ OFX parsing tests completed!');
@@ -0,0 +1,183 @@
+/**
+ * Parser for OFX/QFX bank statements (OFX 1.x SGML and 2.x XML)
+ */
+
+import { CSVParseResult } from './importUtils';
+
+// Columns produced by parseOFX, named after the OFX elements they come from
+export const OFX_HEADERS = ['DTPOSTED', 'NAME', 'TRNAMT', 'CURDEF', 'FITID', 'MEMO', 'TRNTYPE', 'ACCTID'];
+
+/**
+ * Field mappings (column -> transaction field) for the columns produced by parseOFX
+ */
+export const OFX_FIELD_MAPPINGS: Record<string, string> = {
+  DTPOSTED: 'date',
+  NAME: 'description',
+  TRNAMT: 'amount',
+  CURDEF: 'currency',
+  FITID: 'identifier',
+  MEMO: 'notes',
+  ACCTID: 'source'
+};
+
+/**
+ * Whether the content looks like an OFX document (regardless of file extension)
+ */
+export function isOFXContent(content: string): boolean {
+  const start = content.slice(0, 1000).toUpperCase();
+  return start.includes('OFXHEADER') || start.includes('<OFX>');
+}
+
+/**
+ * Convert an OFX date (YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]) to ISO (YYYY-MM-DD)
+ */
+export function parseOFXDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  return `${year}-${month}-${day}`;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse OFX content into structured data compatible with the CSV import flow.
+ * OFX 1.x leaves leaf elements unclosed, so both versions are read as a flat
+ * stream of tags: an opening tag followed by text is a value, anything else is an aggregate.
+ */
+export function parseOFX(ofxContent: string): CSVParseResult {
+  const errors: string[] = [];
+
+  if (!ofxContent || ofxContent.trim() === '') {
+    return {
+      headers: [],
+      data: [],
+      errors: ['OFX content is empty'],
+      rowCount: 0
+    };
+  }
+
+  const bodyStart = ofxContent.search(/<OFX>/i);
+  if (bodyStart === -1) {
+    return {
+      headers: [],
+      data: [],
+      errors: ['No <OFX> element found'],
+      rowCount: 0
+    };
+  }
+
+  try {
+    const body = ofxContent.slice(bodyStart);
+    const data: Record<string, string>[] = [];
+    const tagPattern = /<(\/?)([A-Za-z0-9.]+)[^>]*>([^<]*)/g;
+    const openAggregates: string[] = [];
+
+    // Statement-level values apply to every transaction that follows them
+    let statementCurrency = '';
+    let accountId = '';
+    let transaction: Record<string, string> | null = null;
+    let transactionCurrency = '';
+
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(body)) !== null) {
+      const [, closing, rawName, rawText] = match;
+      const name = rawName.toUpperCase();
+      const text = decodeEntities(rawText.trim());
+
+      if (closing) {
+        if (name === 'STMTTRN' && transaction) {
+          transaction.CURDEF = transactionCurrency || statementCurrency;
+          transaction.ACCTID = accountId;
+          data.push(transaction);
+          transaction = null;
+        }
+
+        const index = openAggregates.lastIndexOf(name);
+        if (index !== -1) openAggregates.splice(index);
+        continue;
+      }
+
+      if (!text) {
+        // Aggregate element
+        openAggregates.push(name);
+        if (name === 'STMTTRN') {
+          transaction = {};
+          transactionCurrency = '';
+        }
+        continue;
+      }
+
+      // Leaf element
+      if (transaction) {
+        const parent = openAggregates[openAggregates.length - 1];
+        if (name === 'CURSYM' && parent === 'CURRENCY') {
+          // TRNAMT is in this currency instead of the statement's
+          transactionCurrency = text;
+        } else if (!transaction[name]) {
+          transaction[name] = text;
+        }
+      } else if (name === 'CURDEF') {
+        statementCurrency = text;
+      } else if (name === 'ACCTID') {
+        accountId = text;
+      }
+    }
+
+    const rows = data.map((transaction, index) => {
+      const date = parseOFXDate(transaction.DTPOSTED || transaction.DTUSER || '');
+      if (!date) {
+        errors.push(`Transaction ${index + 1}: Missing or invalid DTPOSTED`);
+      }
+      if (!transaction.TRNAMT) {
+        errors.push(`Transaction ${index + 1}: Missing TRNAMT`);
+      }
+
+      const row: Record<string, string> = {};
+      OFX_HEADERS.forEach(header => {
+        row[header] = transaction[header] || '';
+      });
+      row.DTPOSTED = date || '';
+      // Some banks leave NAME empty and put the payee in MEMO
+      if (!row.NAME) {
+        row.NAME = row.MEMO;
+        row.MEMO = '';
+      }
+
+      return row;
+    });
+
+    if (rows.length === 0) {
+      errors.push('No transactions (STMTTRN) found in OFX');
+    }
+
+    // Leave out columns this statement never fills
+    const headers = OFX_HEADERS.filter(header => rows.some(row => row[header] !== ''));
+
+    return {
+      headers,
+      data: rows.map(row => Object.fromEntries(headers.map(header => [header, row[header]]))),
+      errors,
+      rowCount: rows.length
+    };
+
+  } catch (error) {
+    return {
+      headers: [],
+      data: [],
+      errors: [`Failed to parse OFX: ${error instanceof Error ? error.message : 'Unknown error'}`],
+      rowCount: 0
+    };
+  }
+}
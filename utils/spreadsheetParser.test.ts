@@ -0,0 +1,68 @@
+/**
+ * Simple tests for Excel statement parsing
+ */
+
+import * as XLSX from 'xlsx';
+import { readWorkbook, parseSpreadsheet, detectHeaderRow, getSheetRows } from './spreadsheetParser';
+import { detectBankPreset } from './bankPresets';
+
+// A card statement the way issuers export it: title rows, header, two sections and totals
+const statementRows = [
+  ['פירוט עסקאות לכרטיס ויזה 1234'],
+  ['תאריך הפקה: 10/02/2025'],
+  [],
+  ['תאריך רכישה', 'שם בית עסק', 'סכום עסקה', 'מטבע עסקה', 'סכום חיוב', 'מטבע חיוב', 'מספר שובר', 'פירוט נוסף'],
+  [new Date(2025, 0, 5), 'שופרסל דיל', 245.9, '₪', 245.9, '₪', '123456789', ''],
+  [new Date(2025, 0, 12), 'AMAZON MKTPLACE', 32.99, '$', 118.45, '₪', '223456789', ''],
+  ['', 'סה"כ עסקאות בארץ', '', '', 364.35, '₪', '', ''],
+  ['עסקאות בחו"ל'],
+  ['תאריך רכישה', 'שם בית עסק', 'סכום עסקה', 'מטבע עסקה', 'סכום חיוב', 'מטבע חיוב', 'מספר שובר', 'פירוט נוסף'],
+  [new Date(2025, 0, 20), 'BOOKING.COM', 120, '€', 455.1, '₪', '323456789', ''],
+  ['', 'סה"כ לחיוב', '', '', 819.45, '₪', '', '']
+];
+
+const workbook = XLSX.utils.book_new();
+XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(statementRows), 'עסקאות');
+XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Date', 'Description', 'Amount'], ['2025-01-01', 'Coffee', -4.5]]), 'Simple');
+
+console.log('Testing spreadsheet parsing...\n');
+
+for (const bookType of ['xlsx', 'biff8'] as const) {
+  const buffer: ArrayBuffer = XLSX.write(workbook, { bookType, type: 'array' });
+  const readBack = readWorkbook(buffer);
+
+  console.log(`${bookType === 'xlsx' ? 'XLSX' : 'XLS'} file:`);
+  console.log('Sheets:', readBack.SheetNames);
+  console.log('Detected header row:', detectHeaderRow(getSheetRows(readBack, readBack.SheetNames[0])) + 1);
+
+  const result = parseSpreadsheet(readBack);
+  console.log('Headers:', result.headers);
+  console.log('Row count:', result.rowCount, '(expected 3)');
+  console.log('Skipped rows:', result.skippedRows);
+  console.log('First row:', result.data[0]);
+  console.log('Errors:', result.errors);
+  console.log('Detected preset:', detectBankPreset(result.headers)?.preset.id ?? 'none');
+
+  const simple = parseSpreadsheet(readBack, 'Simple');
+  console.log('Simple sheet rows:', simple.data);
+  console.log();
+}
+
+console.log('Merchants named "Total":');
+const merchants = XLSX.utils.book_new();
+XLSX.utils.book_append_sheet(merchants, XLSX.utils.aoa_to_sheet([
+  ['Date', 'Description', 'Amount'],
+  [new Date(2025, 1, 3), 'TOTAL ENERGIES', -60],
+  [new Date(2025, 1, 4), 'Total Fitness Club', -150],
+  ['', 'Total', -210]
+]), 'Merchants');
+const merchantResult = parseSpreadsheet(merchants);
+console.log('Rows:', merchantResult.data.map(row => row.Description), '(expected TOTAL ENERGIES, Total Fitness Club)');
+console.log('Skipped rows:', merchantResult.skippedRows, '(expected 1)');
+console.log();
+
+console.log('Header row override:');
+const overridden = parseSpreadsheet(workbook, 'עסקאות', 0);
+console.log('Headers:', overridden.headers, 'rows:', overridden.rowCount);
+
+console.log('\n✅ Spreadsheet parsing tests completed!');
@@ -0,0 +1,202 @@
+/**
+ * Parser for Excel statements (XLSX/XLS).
+ * Bank and card exports put title rows above the real header and totals
+ * below the data, so the header row is detected and summary rows are skipped.
+ */
+
+import * as XLSX from 'xlsx';
+import { CSVParseResult } from './importUtils';
+
+export interface SpreadsheetParseResult extends CSVParseResult {
+  sheetName: string;
+  headerRowIndex: number; // 0-based row of the sheet used as header
+  skippedRows: number; // blank, section title, repeated header and total rows
+}
+
+// The header is searched for among the first rows only
+const HEADER_SEARCH_ROWS = 30;
+
+// Label cells that mark a totals/summary row
+const TOTAL_ROW_PATTERN = /(^|\s)(סה["״']?כ|סך הכל|total|subtotal)(\s|:|$)/i;
+
+// Date cells are written as ISO dates; text exports use day/month/year
+const DATE_VALUE_PATTERN = /^(\d{4}-\d{2}-\d{2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+
+/**
+ * Read an XLSX/XLS file. Date cells are kept as dates so they can be written as ISO strings.
+ */
+export function readWorkbook(data: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(data, { type: 'array', cellDates: true });
+}
+
+/**
+ * Whether a file name is an Excel workbook
+ */
+export function isSpreadsheetFile(fileName: string): boolean {
+  return /\.(xlsx|xls)$/i.test(fileName);
+}
+
+function formatCell(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.v === undefined || cell.v === null) {
+    return '';
+  }
+
+  if (cell.v instanceof Date) {
+    // SheetJS builds dates from local date parts
+    const date = cell.v;
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  if (typeof cell.v === 'number') {
+    return String(cell.v);
+  }
+
+  return String(cell.w ?? cell.v).trim();
+}
+
+/**
+ * All rows of a sheet as strings, keeping empty cells so columns line up
+ */
+export function getSheetRows(workbook: XLSX.WorkBook, sheetName: string): string[][] {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet || !sheet['!ref']) {
+    return [];
+  }
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const rows: string[][] = [];
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(formatCell(sheet[XLSX.utils.encode_cell({ r, c })]));
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const countFilled = (row: string[]) => row.filter(value => value !== '').length;
+
+const isTextCell = (value: string) => value !== '' && isNaN(Number(value.replace(/,/g, ''))) && !/^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * Find the header row: the first row, among the first rows of the sheet, that fills
+ * at least half of the sheet's widest row with text (no numbers or dates) and is
+ * followed by a data row
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  const width = Math.max(0, ...rows.map(countFilled));
+  const minFilled = Math.max(2, Math.ceil(width / 2));
+
+  for (let i = 0; i < Math.min(rows.length - 1, HEADER_SEARCH_ROWS); i++) {
+    const filled = rows[i].filter(value => value !== '');
+    if (filled.length < minFilled || !filled.every(isTextCell)) continue;
+    if (countFilled(rows[i + 1]) >= 2) return i;
+  }
+
+  return 0;
+}
+
+/**
+ * The column holding a date in most rows below the header, or -1 when no column has dates
+ */
+export function detectDateColumn(rows: string[][]): number {
+  const counts = new Map<number, number>();
+  rows.forEach(row => row.forEach((value, index) => {
+    if (DATE_VALUE_PATTERN.test(value)) counts.set(index, (counts.get(index) || 0) + 1);
+  }));
+
+  let dateColumn = -1;
+  counts.forEach((count, index) => {
+    if (dateColumn === -1 || count > counts.get(dateColumn)!) dateColumn = index;
+  });
+  return dateColumn;
+}
+
+/**
+ * A totals row labels itself in its first filled cell and has no transaction date.
+ * Merchants such as "TOTAL ENERGIES" only appear in the description of a dated row.
+ */
+function isTotalRow(values: string[], dateColumn: number): boolean {
+  const label = values.find(value => value !== '') || '';
+  if (!TOTAL_ROW_PATTERN.test(label)) return false;
+  return dateColumn === -1 || !DATE_VALUE_PATTERN.test(values[dateColumn] || '');
+}
+
+/**
+ * Give every column a unique, non-empty name
+ */
+function buildHeaders(headerRow: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return headerRow.map((value, index) => {
+    const base = value || `Column ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+}
+
+/**
+ * Parse one sheet into structured data compatible with the CSV import flow.
+ * Without a header row index the header is detected.
+ */
+export function parseSpreadsheet(
+  workbook: XLSX.WorkBook,
+  sheetName: string = workbook.SheetNames[0],
+  headerRowIndex?: number
+): SpreadsheetParseResult {
+  const rows = getSheetRows(workbook, sheetName);
+
+  if (rows.length === 0) {
+    return {
+      headers: [],
+      data: [],
+      errors: [`Sheet "${sheetName}" is empty`],
+      rowCount: 0,
+      sheetName,
+      headerRowIndex: 0,
+      skippedRows: 0
+    };
+  }
+
+  const headerIndex = headerRowIndex ?? detectHeaderRow(rows);
+  const headerRow = rows[headerIndex] || [];
+  const headers = buildHeaders(headerRow);
+  const bodyRows = rows.slice(headerIndex + 1);
+  const dateColumn = detectDateColumn(bodyRows);
+  const data: Record<string, string>[] = [];
+  let skippedRows = 0;
+
+  for (const values of bodyRows) {
+    const isSummary = countFilled(values) < 2 ||
+      values.every((value, index) => value === (headerRow[index] || '')) ||
+      isTotalRow(values, dateColumn);
+
+    if (isSummary) {
+      if (countFilled(values) > 0) skippedRows++;
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index] || '';
+    });
+    data.push(row);
+  }
+
+  // Columns without a header and without data are layout leftovers
+  const usedHeaders = headers.filter((header, index) => headerRow[index] || data.some(row => row[header] !== ''));
+
+  return {
+    headers: usedHeaders,
+    data: data.map(row => Object.fromEntries(usedHeaders.map(header => [header, row[header]]))),
+    errors: data.length === 0 ? [`No data rows found below row ${headerIndex + 1}`] : [],
+    rowCount: data.length,
+    sheetName,
+    headerRowIndex: headerIndex,
+    skippedRows
+  };
+}